@@ -1,28 +1,165 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { generateKeywords } from './services/geminiService';
-import { generateKeywordsWithOpenAI } from './services/openaiService';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import {
+  generateKeywordsWithProvider,
+  refreshEditedResult,
+  ENRICHED_CATEGORIES,
+  type EnrichedCategory
+} from './services/keywordPipeline';
+import {
+  addKeyword,
+  removeKeyword,
+  moveKeyword,
+  toggleKeywordLock,
+  unlockAllKeywords,
+  getLockedKeywords,
+  countLockedKeywords
+} from './services/keywordEditor';
+import { getFailoverProvider, getKeywordProvider, listKeywordProviders } from './services/providerRegistry';
+import { getRetryPolicy, saveRetryPolicy, type RetryPolicy } from './services/retryPolicy';
+import type { KeywordCategory } from './services/keywordSchema';
 import {
   getDataForSEOConfig,
   saveDataForSEOConfig,
   clearDataForSEOConfig,
-  testDataForSEOConnection
+  testDataForSEOConnection,
+  getDataForSEOMarkets,
+  saveDataForSEOMarkets,
+  DATAFORSEO_MARKETS,
+  DEFAULT_DATAFORSEO_API_URL
 } from './services/dataForSeoService';
-import type { KeywordResult } from './types';
-import { KeywordCard } from './components/KeywordCard';
+import {
+  getLocalModelConfig,
+  saveLocalModelConfig,
+  clearLocalModelConfig,
+  testLocalModelConnection
+} from './services/localModelService';
+import type { AIProviderId, ArticleMetadata, BatchItem, DataForSeoMarket, HistoryEntry, KeywordResult } from './types';
+import { KeywordCard, type KeywordCardEditor } from './components/KeywordCard';
 import Loader from './components/Loader';
+import BatchPanel from './components/BatchPanel';
+import ExtractionProfilesPanel from './components/ExtractionProfilesPanel';
+import HistorySidebar from './components/HistorySidebar';
+import VersionDiffPanel from './components/VersionDiffPanel';
+import MarkupPanel from './components/MarkupPanel';
+import SerpPreview from './components/SerpPreview';
+import CmsPanel from './components/CmsPanel';
+import HighlightedTextarea, { type TextHighlight } from './components/HighlightedTextarea';
+import KeywordCoveragePanel from './components/KeywordCoveragePanel';
+import RewritePanel from './components/RewritePanel';
+import SerpSnapshotPanel from './components/SerpSnapshotPanel';
+import CompetitorGapPanel from './components/CompetitorGapPanel';
+import { findKeywordOccurrences } from './services/keywordCoverage';
+import { saveHistoryEntry } from './services/historyService';
+import {
+  buildKeywordCsv,
+  buildKeywordJson,
+  buildSeoBriefMarkdown,
+  downloadTextFile,
+  exportFileStem
+} from './services/exportService';
+import {
+  fetchArticle,
+  getFetchProxyUrl,
+  saveFetchProxyUrl,
+  clearFetchProxyUrl,
+  DEFAULT_FETCH_PROXY_URL,
+  type ExtractedArticle
+} from './services/articleExtractor';
 import { SparklesIcon } from './components/icons';
 
+// Keyword cards in display order - focus keywords first (matches the streaming order)
+const KEYWORD_SECTIONS: Array<{ key: KeywordCategory; title: string; color: string; tooltipText: string }> = [
+  {
+    key: 'primary',
+    title: "Target Focus Keywords (2-5)",
+    color: "text-blue-400",
+    tooltipText: "Core topics and primary search intent (any length). What is this article actually about? Captures complete user intent without arbitrary word limits. Each represents a distinct way users would search for this topic."
+  },
+  {
+    key: 'secondary',
+    title: "Supporting Topic Keywords (5-12)",
+    color: "text-green-400",
+    tooltipText: "Themes and sub-topics covered (any length). Demonstrates topical breadth and expertise. Focus on concepts, trends, and market dynamics - not just entity lists. Shows semantic coverage and subject matter depth."
+  },
+  {
+    key: 'longtail',
+    title: "User Query Variations (8-20)",
+    color: "text-yellow-400",
+    tooltipText: "How real people search this topic (any length). Verbatim phrases from article matching natural language queries. Includes statistics with context, complete thoughts, and conversational patterns. Featured Snippet opportunities."
+  },
+  {
+    key: 'lsiKeywords',
+    title: "Semantic Context Keywords (5-8)",
+    color: "text-cyan-400",
+    tooltipText: "Related concepts and terms Google expects to see (any length). Synonyms, industry terminology, and co-occurring phrases. Proves comprehensive topic coverage to BERT/MUM algorithms. Signals content quality and expertise."
+  },
+  {
+    key: 'questionKeywords',
+    title: "Question-Intent Keywords (5-10)",
+    color: "text-pink-400",
+    tooltipText: "Complete, natural questions users ask (any length). Targets People Also Ask (PAA) boxes, Featured Snippets, and voice search. Each question is a position-zero opportunity. Optimized for conversational AI and Google Assistant."
+  },
+  {
+    key: 'entities',
+    title: "Named Entities (All)",
+    color: "text-orange-400",
+    tooltipText: "All named entities extracted: People, Organizations, Places, Events, Policies. Connects to Google Knowledge Graph for E-E-A-T signals. Entity-based ranking is how modern Google works. Comprehensive extraction = authority signals."
+  }
+];
+
+// Categories the editor can change (the ones that are enriched and scored)
+const isEditableCategory = (key: KeywordCategory): key is EnrichedCategory =>
+  (ENRICHED_CATEGORIES as KeywordCategory[]).includes(key);
+
+const DEFAULT_SITE_DOMAIN = 'thedailystar.net';
+
+// Own site for live results; the URL field can hold text that was never a valid URL
+const siteDomainOf = (url?: string): string => {
+  if (!url) return DEFAULT_SITE_DOMAIN;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return DEFAULT_SITE_DOMAIN;
+  }
+};
+
 const App: React.FC = () => {
   const [articleContent, setArticleContent] = useState('');
   const [articleUrl, setArticleUrl] = useState('');
+  // Publisher metadata of the fetched article (section, publish date) - feeds content type and freshness
+  const [articleMetadata, setArticleMetadata] = useState<ArticleMetadata | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<KeywordResult | null>(null);
+  // Article the result on screen was generated from (the draft may be edited afterwards)
+  const [analyzedArticle, setAnalyzedArticle] = useState<{ content: string; url?: string } | null>(null);
+  // Mark keyword occurrences in the article textarea (see KeywordCoveragePanel)
+  const [highlightKeywords, setHighlightKeywords] = useState(true);
+  // Categories streamed in while generation is still running
+  const [partialResult, setPartialResult] = useState<Partial<KeywordResult>>({});
   const [useDeepAnalysis, setUseDeepAnalysis] = useState(false);
+  // Skip the result cache and call the AI even for an unchanged article
+  const [forceRefresh, setForceRefresh] = useState(false);
+  // Single article or batch (URL list / RSS / sitemap)
+  const [inputMode, setInputMode] = useState<'single' | 'batch'>('single');
+
+  // Analysis history (IndexedDB)
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
   
-  // AI Provider selection: 'gemini' or 'openai'
-  const [aiProvider, setAiProvider] = useState<'gemini' | 'openai'>('gemini');
+  // AI Provider selection (see services/providerRegistry.ts)
+  const [aiProvider, setAiProvider] = useState<AIProviderId>('gemini');
   
+  // Retry & failover policy (stored in localStorage for persistence)
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(() => getRetryPolicy());
+
+  const updateRetryPolicy = (changes: Partial<RetryPolicy>) => {
+    const updated = { ...retryPolicy, ...changes };
+    setRetryPolicy(updated);
+    saveRetryPolicy(updated);
+  };
+
   // OpenAI API key (stored in localStorage for persistence)
   const [openaiApiKey, setOpenaiApiKey] = useState<string>(() => {
     return localStorage.getItem('openai_api_key') || '';
@@ -37,69 +174,114 @@ const App: React.FC = () => {
     const config = getDataForSEOConfig();
     return config.password || '';
   });
+  const [dataForSEOApiUrl, setDataForSEOApiUrl] = useState<string>(() => {
+    const config = getDataForSEOConfig();
+    return config.apiUrl === DEFAULT_DATAFORSEO_API_URL ? '' : config.apiUrl;
+  });
   const [showDataForSEO, setShowDataForSEO] = useState(false);
+  const [dataForSEOMarkets, setDataForSEOMarkets] = useState<DataForSeoMarket[]>(() => getDataForSEOMarkets());
+
+  // Local/self-hosted model endpoint (OpenAI-compatible)
+  const [localModelBaseUrl, setLocalModelBaseUrl] = useState<string>(() => {
+    const config = getLocalModelConfig();
+    return config.enabled ? config.baseUrl : '';
+  });
+  const [localModelName, setLocalModelName] = useState<string>(() => getLocalModelConfig().model);
+  const [localModelApiKey, setLocalModelApiKey] = useState<string>(() => getLocalModelConfig().apiKey || '');
+
+  // Article fetch proxy (built-in /proxy or a standalone server)
+  const [fetchProxyUrl, setFetchProxyUrl] = useState<string>(() => getFetchProxyUrl());
 
   // Ref to track and cancel in-flight requests
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Re-enrichment after a keyword edit (a newer edit or analysis replaces it)
+  const editControllerRef = useRef<AbortController | null>(null);
 
   /**
-   * Calculates a 'content score' for a given HTML element.
-   * The score is based on paragraph length, link density, and other heuristics
-   * to identify the most likely container of the main article content.
+   * Cancels any run in progress and returns a controller for the next one
    */
-  const calculateScore = (element: HTMLElement): number => {
-      let score = 0;
-      const classAndIdString = (element.className + ' ' + element.id).toLowerCase();
-      
-      if (/comment|share|related|ad|footer|header|menu|nav|sidebar|promo|social|widget/.test(classAndIdString)) {
-          return -100;
-      }
+  const startRequest = (): AbortController => {
+    editControllerRef.current?.abort();
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    return abortControllerRef.current;
+  };
 
-      element.querySelectorAll('p, li, blockquote, pre').forEach(p => {
-          if (p.textContent && p.textContent.trim().length > 25) {
-              score += p.textContent.trim().length;
-          }
-      });
+  /**
+   * True when the run was stopped with the Cancel button (not by the fetch timeout)
+   */
+  const wasCancelled = (controller: AbortController): boolean =>
+    controller.signal.aborted && controller.signal.reason?.name !== 'TimeoutError';
 
-      score += (element.textContent?.match(/,/g) || []).length * 10;
+  const handleCancel = () => {
+    editControllerRef.current?.abort();
+    abortControllerRef.current?.abort(new DOMException('Cancelled by user', 'AbortError'));
+  };
 
-      const linkTextLength = Array.from(element.querySelectorAll('a'))
-                                   .reduce((len, a) => len + (a.textContent?.length || 0), 0);
-      const totalTextLength = element.textContent?.length || 1;
-      const linkDensity = linkTextLength / totalTextLength;
-      
-      if (linkDensity > 0.35) {
-          score *= (1 - linkDensity);
-      }
+  /**
+   * Applies a keyword edit right away, then re-enriches edited keywords and
+   * recalculates ranking confidence in the background
+   * Throws (before changing anything) when the edit is invalid
+   */
+  const applyKeywordEdit = (edit: (current: KeywordResult) => KeywordResult) => {
+    if (!result) return;
+    const edited = edit(result);
+    setResult(edited);
 
-      return score;
+    editControllerRef.current?.abort();
+    const controller = new AbortController();
+    editControllerRef.current = controller;
+
+    refreshEditedResult(edited, controller.signal, analyzedArticle?.content)
+      .then(refreshed => {
+        if (!controller.signal.aborted) setResult(refreshed);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Failed to refresh edited keywords:', err);
+      });
   };
 
+  const buildKeywordEditor = (category: EnrichedCategory): KeywordCardEditor => ({
+    category,
+    onAdd: (term) => applyKeywordEdit(current => addKeyword(current, category, term)),
+    onRemove: (term) => applyKeywordEdit(current => removeKeyword(current, category, term)),
+    onToggleLock: (term) => applyKeywordEdit(current => toggleKeywordLock(current, category, term)),
+    onMoveHere: (term, from) => applyKeywordEdit(current => moveKeyword(current, from, category, term))
+  });
+
+  // Keyword occurrences marked in the article text (exact vs inflected)
+  const keywordHighlights = useMemo<TextHighlight[]>(() => {
+    if (!result || !highlightKeywords) return [];
+    return findKeywordOccurrences(articleContent, [...result.primary, ...result.secondary, ...result.longtail])
+      .map(occurrence => ({
+        start: occurrence.start,
+        end: occurrence.end,
+        className: occurrence.kind === 'exact' ? 'bg-green-500/30' : 'bg-yellow-500/30',
+        title: occurrence.term
+      }));
+  }, [articleContent, result, highlightKeywords]);
+
+  // Kept (and told to the AI) when the article is analyzed again
+  const lockedKeywords = result ? getLockedKeywords(result) : undefined;
+  const lockedCount = countLockedKeywords(lockedKeywords);
+
   /**
-   * Extracts text from content-bearing elements within a container.
-   * It iterates through block-level tags to build a clean string representation.
+   * Saves a finished analysis to history (in the background - never blocks the result)
    */
-  const extractCleanText = (element: HTMLElement): string => {
-      let text = '';
-      const walker = document.createTreeWalker(element, NodeFilter.SHOW_ELEMENT, null);
-      let currentNode = walker.nextNode();
-      
-      while (currentNode) {
-          // Ensure it's an Element node before casting
-          if (currentNode.nodeType === Node.ELEMENT_NODE) {
-              const el = currentNode as HTMLElement;
-              const tagName = el.tagName?.toLowerCase();
-              
-              if (tagName && ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'pre'].includes(tagName)) {
-                  const blockText = el.innerText?.trim();
-                  if (blockText) {
-                      text += blockText + '\n\n';
-                  }
-              }
-          }
-          currentNode = walker.nextNode();
-      }
-      return text.trim().replace(/(\n\s*){3,}/g, '\n\n');
+  const recordHistory = (content: string, url: string | undefined, generated: KeywordResult) => {
+    // A cached result is already in history from its original run
+    if (generated.cachedAt) return;
+
+    saveHistoryEntry({
+      articleContent: content,
+      articleUrl: url || undefined,
+      provider: generated.generatedBy?.provider ?? aiProvider,
+      model: generated.generatedBy?.model,
+      useDeepAnalysis,
+      result: generated
+    }).then(saved => {
+      if (saved) setHistoryVersion(version => version + 1);
+    });
   };
 
   const handleFetchAndGenerate = useCallback(async () => {
@@ -108,107 +290,61 @@ const App: React.FC = () => {
       return;
     }
     
-    // Cancel previous request if still in progress
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-    
-    // Create new abort controller for this request
-    abortControllerRef.current = new AbortController();
-    const controller = abortControllerRef.current;
+    const controller = startRequest();
     
+    // The previous result stays on screen until the new one is ready (or the run is cancelled)
     setIsLoading(true);
     setError(null);
-    setResult(null);
-    setArticleContent('');
+    setPartialResult({});
 
     // Setup timeout
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    const timeoutId = setTimeout(() => controller.abort(new DOMException('Article fetch timed out', 'TimeoutError')), 30000); // 30 second timeout
 
     try {
       // --- Start of Fetching Logic ---
-      // Validate URL format
-      try {
-        new URL(articleUrl);
-      } catch (urlError) {
-        throw new Error("Invalid URL format. Please enter a valid web address starting with http:// or https://");
-      }
-      
-      const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(articleUrl)}`;
-      const response = await fetch(proxyUrl, { 
-        signal: controller.signal,
-        headers: {
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
-        }
-      });
-      
+      const article = await fetchArticle(articleUrl, controller.signal);
       clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch article (Status ${response.status}). The URL may be inaccessible or blocked.`);
-      }
-      
-      const html = await response.text();
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(html, 'text/html');
-
-      doc.querySelectorAll('script, style, nav, header, footer, aside, form, noscript, svg, [aria-hidden="true"]').forEach(el => el.remove());
-      
-      const title = (doc.querySelector('h1')?.innerText || doc.title).trim();
-
-      let bestElement: HTMLElement = doc.body;
-      let bestScore = -1;
-
-      const candidates = doc.querySelectorAll('article, main, div[class*="content"], div[class*="post"], div[id*="content"], div[id*="post"]');
-      const elementsToScore: HTMLElement[] = candidates.length > 0 ? Array.from(candidates) as HTMLElement[] : [doc.body];
-
-      elementsToScore.forEach(element => {
-          const score = calculateScore(element);
-          if (score > bestScore) {
-              bestScore = score;
-              bestElement = element;
-          }
-      });
-      
-      let content = extractCleanText(bestElement);
-      
-      if (content.length < 300) {
-          console.warn("Structured text extraction was short, falling back to innerText.");
-          content = bestElement.innerText.trim();
-      }
-
-      const cleanedContent = content.replace(/(\r\n|\n|\r){3,}/gm, '\n\n');
-      const fetchedContent = `${title}\n\n${cleanedContent}`;
-
-      if (fetchedContent.trim().length < 500) {
-        throw new Error("Article content is too short for accurate analysis (minimum 500 characters required). The extraction may have failed.");
-      }
 
+      const fetchedContent = article.content;
       setArticleContent(fetchedContent);
+      setArticleMetadata(article.metadata);
       // --- End of Fetching Logic ---
 
       // --- Start of Generation Logic ---
-      let generatedResult: KeywordResult;
-      
-      if (aiProvider === 'openai') {
-        if (!openaiApiKey || openaiApiKey.trim() === '') {
-          throw new Error('OpenAI API key is required. Please enter your API key in the settings.');
+      const generatedResult = await generateKeywordsWithProvider(
+        getKeywordProvider(aiProvider),
+        fetchedContent,
+        useDeepAnalysis,
+        {
+          retryPolicy,
+          failoverProvider: retryPolicy.failover ? getFailoverProvider(aiProvider) : undefined,
+          onProgress: setPartialResult,
+          signal: controller.signal,
+          metadata: article.metadata,
+          forceRefresh,
+          lockedKeywords
         }
-        generatedResult = await generateKeywordsWithOpenAI(fetchedContent, useDeepAnalysis, openaiApiKey);
-      } else {
-        generatedResult = await generateKeywords(fetchedContent, useDeepAnalysis);
-      }
+      );
       
       setResult(generatedResult);
+      setAnalyzedArticle({ content: fetchedContent, url: articleUrl });
+      recordHistory(fetchedContent, articleUrl, generatedResult);
       // --- End of Generation Logic ---
 
     } catch (err) {
       clearTimeout(timeoutId);
+
+      if (wasCancelled(controller)) {
+        console.log('⏹️ Fetch & analyze cancelled - keeping previous result');
+        return;
+      }
+
       console.error("Error in fetch and generate process:", err);
+      setResult(null);
       
       if (err instanceof Error) {
         // Handle specific error types
-        if (err.name === 'AbortError') {
+        if (controller.signal.aborted) {
           setError('Request timed out after 30 seconds. Please try again or check the URL.');
         } else if (err.message.includes('Failed to fetch') || err.message.includes('NetworkError')) {
           setError('Network error: Unable to reach the article URL. Please check the URL and your internet connection.');
@@ -221,8 +357,51 @@ const App: React.FC = () => {
     } finally {
       clearTimeout(timeoutId);
       setIsLoading(false);
+      setPartialResult({});
     }
-  }, [articleUrl, useDeepAnalysis, aiProvider, openaiApiKey]);
+  }, [articleUrl, useDeepAnalysis, forceRefresh, aiProvider, retryPolicy, result]);
+
+  /**
+   * Batch mode runs the same generation pipeline with the current settings (no streaming)
+   */
+  const generateForBatch = (article: ExtractedArticle, signal: AbortSignal): Promise<KeywordResult> =>
+    generateKeywordsWithProvider(getKeywordProvider(aiProvider), article.content, useDeepAnalysis, {
+      retryPolicy,
+      failoverProvider: retryPolicy.failover ? getFailoverProvider(aiProvider) : undefined,
+      signal,
+      metadata: article.metadata,
+      forceRefresh
+    });
+
+  const handleOpenBatchResult = (item: BatchItem) => {
+    editControllerRef.current?.abort();
+    setError(null);
+    setArticleUrl(item.url);
+    setArticleContent(item.content || '');
+    setArticleMetadata(item.result?.articleMetadata);
+    setResult(item.result || null);
+    setAnalyzedArticle({ content: item.content || '', url: item.url });
+  };
+
+  const handleBatchItemDone = (item: BatchItem) => {
+    if (item.result) recordHistory(item.content || '', item.url, item.result);
+  };
+
+  /**
+   * Restores a saved analysis without calling the AI again
+   */
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    handleCancel();
+    setError(null);
+    if (!isBatchRunning) setInputMode('single');   // A running batch keeps its panel
+    setArticleUrl(entry.articleUrl || '');
+    setArticleContent(entry.articleContent);
+    setArticleMetadata(entry.result.articleMetadata);
+    setUseDeepAnalysis(entry.useDeepAnalysis);
+    setResult(entry.result);
+    setAnalyzedArticle({ content: entry.articleContent, url: entry.articleUrl });
+    setShowHistory(false);
+  };
 
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
@@ -236,25 +415,40 @@ const App: React.FC = () => {
       return;
     }
     
+    const controller = startRequest();
+
+    // The previous result stays on screen until the new one is ready (or the run is cancelled)
     setError(null);
     setIsLoading(true);
-    setResult(null);
+    setPartialResult({});
 
     try {
-      let generatedResult: KeywordResult;
-      
-      if (aiProvider === 'openai') {
-        if (!openaiApiKey || openaiApiKey.trim() === '') {
-          throw new Error('OpenAI API key is required. Please enter your API key in the settings.');
+      const generatedResult = await generateKeywordsWithProvider(
+        getKeywordProvider(aiProvider),
+        articleContent,
+        useDeepAnalysis,
+        {
+          retryPolicy,
+          failoverProvider: retryPolicy.failover ? getFailoverProvider(aiProvider) : undefined,
+          onProgress: setPartialResult,
+          signal: controller.signal,
+          metadata: articleMetadata,
+          forceRefresh,
+          lockedKeywords
         }
-        generatedResult = await generateKeywordsWithOpenAI(articleContent, useDeepAnalysis, openaiApiKey);
-      } else {
-        generatedResult = await generateKeywords(articleContent, useDeepAnalysis);
-      }
+      );
       
       setResult(generatedResult);
+      setAnalyzedArticle({ content: articleContent, url: articleUrl || undefined });
+      recordHistory(articleContent, articleUrl, generatedResult);
     } catch (err) {
+      if (wasCancelled(controller)) {
+        console.log('⏹️ Keyword generation cancelled - keeping previous result');
+        return;
+      }
+
       console.error("Error generating keywords:", err);
+      setResult(null);
       if (err instanceof Error) {
         if (err.message.includes('API_KEY')) {
           setError('API Key not configured. Please set your GEMINI_API_KEY in the .env.local file.');
@@ -270,14 +464,25 @@ const App: React.FC = () => {
       }
     } finally {
       setIsLoading(false);
+      setPartialResult({});
     }
-  }, [articleContent, useDeepAnalysis, aiProvider, openaiApiKey]);
+  }, [articleContent, articleUrl, articleMetadata, useDeepAnalysis, forceRefresh, aiProvider, retryPolicy, result]);
+
+  // Own site in live results (SERP snapshot, competitor gaps)
+  const siteDomain = siteDomainOf(analyzedArticle?.url);
 
   return (
     <div className="min-h-screen bg-brand-bg text-gray-200 font-sans">
       <main className="container mx-auto px-4 py-8 md:py-12">
         {/* Header */}
-        <header className="text-center mb-12">
+        <header className="relative text-center mb-12">
+          <button
+            type="button"
+            onClick={() => setShowHistory(true)}
+            className="absolute top-0 right-0 text-sm bg-brand-card border border-brand-border hover:border-brand-primary text-gray-300 py-2 px-4 rounded-lg transition-colors"
+          >
+            🕘 History
+          </button>
           <div className="flex flex-col items-center justify-center gap-6">
             {/* Logo Container with Professional Background */}
             <div className="relative">
@@ -324,95 +529,123 @@ const App: React.FC = () => {
           {/* Input Section */}
           <div className="bg-brand-card border border-brand-border rounded-xl shadow-2xl p-6 h-fit">
             <form onSubmit={handleSubmit}>
-              {/* URL Input */}
-              <div>
-                <h2 className="text-xl font-bold mb-1">Quick Input</h2>
-                <p className="text-sm text-gray-400 mb-4">
-                  Fetch and analyze an article directly from a public URL.
-                </p>
-                <div className="flex flex-col sm:flex-row gap-2">
-                  <input
-                    type="url"
-                    value={articleUrl}
-                    onChange={(e) => { setArticleUrl(e.target.value); setError(null); }}
-                    placeholder="https://www.thedailystar.net/..."
-                    className="flex-grow p-3 bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all"
-                    disabled={isLoading}
-                  />
+              {/* Input Mode Tabs */}
+              <div className="grid grid-cols-2 gap-2 mb-6 p-1 bg-brand-bg border border-brand-border rounded-lg">
+                {(['single', 'batch'] as const).map(mode => (
                   <button
+                    key={mode}
                     type="button"
-                    onClick={handleFetchAndGenerate}
-                    disabled={isLoading || !articleUrl.trim()}
-                    className="w-full sm:w-auto flex items-center justify-center gap-2 bg-brand-secondary text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-500 transition-all disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    onClick={() => setInputMode(mode)}
+                    disabled={isLoading || isBatchRunning}
+                    title={isBatchRunning ? 'Cancel or finish the batch first' : undefined}
+                    className={`py-2 rounded-md text-sm font-semibold transition-all ${
+                      inputMode === mode ? 'bg-brand-primary text-white' : 'text-gray-400 hover:text-gray-200'
+                    } disabled:opacity-50`}
                   >
-                    {isLoading && (
-                      <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                    )}
-                    {isLoading ? 'Analyzing...' : 'Fetch & Analyze'}
+                    {mode === 'single' ? '📝 Single Article' : '📦 Batch (URLs / RSS / Sitemap)'}
                   </button>
-                </div>
+                ))}
               </div>
 
-              {/* Divider */}
-              <div className="relative my-6">
-                <div className="absolute inset-0 flex items-center" aria-hidden="true">
-                  <div className="w-full border-t border-brand-border"></div>
-                </div>
-                <div className="relative flex justify-center">
-                  <span className="bg-brand-card px-3 text-sm font-semibold uppercase text-gray-500">Or</span>
-                </div>
-              </div>
+              {inputMode === 'batch' ? (
+                <BatchPanel
+                  fetchArticle={fetchArticle}
+                  generate={generateForBatch}
+                  onOpenResult={handleOpenBatchResult}
+                  onItemDone={handleBatchItemDone}
+                  onRunningChange={setIsBatchRunning}
+                />
+              ) : (
+                <>
+                  {/* URL Input */}
+                  <div>
+                    <h2 className="text-xl font-bold mb-1">Quick Input</h2>
+                    <p className="text-sm text-gray-400 mb-4">
+                      Fetch and analyze an article directly from a public URL.
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <input
+                        type="url"
+                        value={articleUrl}
+                        onChange={(e) => { setArticleUrl(e.target.value); setArticleMetadata(undefined); setError(null); }}
+                        placeholder="https://www.thedailystar.net/..."
+                        className="flex-grow p-3 bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all"
+                        disabled={isLoading}
+                      />
+                      <button
+                        type="button"
+                        onClick={handleFetchAndGenerate}
+                        disabled={isLoading || !articleUrl.trim()}
+                        className="w-full sm:w-auto flex items-center justify-center gap-2 bg-brand-secondary text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-500 transition-all disabled:bg-gray-600 disabled:cursor-not-allowed"
+                      >
+                        {isLoading && (
+                          <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                        )}
+                        {isLoading ? 'Analyzing...' : 'Fetch & Analyze'}
+                      </button>
+                    </div>
+                  </div>
 
-              {/* Manual Input */}
-              <div>
-                <h2 className="text-xl font-bold mb-1">Manual Input</h2>
-                <p className="text-sm text-gray-400 mb-4">
-                  Paste your full article draft below.
-                </p>
-                <textarea
-                  value={articleContent}
-                  onChange={(e) => setArticleContent(e.target.value)}
-                  placeholder="Your fetched or pasted article content will appear here..."
-                  className="w-full h-80 p-4 bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all resize-y"
-                  disabled={isLoading}
-                ></textarea>
-              </div>
+                  {/* Divider */}
+                  <div className="relative my-6">
+                    <div className="absolute inset-0 flex items-center" aria-hidden="true">
+                      <div className="w-full border-t border-brand-border"></div>
+                    </div>
+                    <div className="relative flex justify-center">
+                      <span className="bg-brand-card px-3 text-sm font-semibold uppercase text-gray-500">Or</span>
+                    </div>
+                  </div>
+
+                  {/* Manual Input */}
+                  <div>
+                    <h2 className="text-xl font-bold mb-1">Manual Input</h2>
+                    <p className="text-sm text-gray-400 mb-4">
+                      Paste your full article draft below.
+                    </p>
+                    <HighlightedTextarea
+                      value={articleContent}
+                      onChange={setArticleContent}
+                      highlights={keywordHighlights}
+                      placeholder="Your fetched or pasted article content will appear here..."
+                      disabled={isLoading}
+                    />
+                    {result && !isLoading && articleContent.trim() && (
+                      <KeywordCoveragePanel
+                        articleContent={articleContent}
+                        result={result}
+                        highlight={highlightKeywords}
+                        onHighlightChange={setHighlightKeywords}
+                      />
+                    )}
+                  </div>
+                </>
+              )}
 
               {/* AI Provider Selection */}
               <div className="mt-6 p-4 bg-brand-card border border-brand-border rounded-lg">
                 <label className="block text-sm font-medium text-gray-300 mb-3">
                   🤖 AI Provider (Choose for Reliability)
                 </label>
-                <div className="grid grid-cols-2 gap-3">
-                  <button
-                    type="button"
-                    onClick={() => setAiProvider('gemini')}
-                    disabled={isLoading}
-                    className={`p-3 rounded-lg border-2 transition-all ${
-                      aiProvider === 'gemini'
-                        ? 'border-brand-primary bg-brand-primary/20 text-white'
-                        : 'border-brand-border bg-brand-bg text-gray-400 hover:border-gray-500'
-                    } disabled:opacity-50`}
-                  >
-                    <div className="font-bold">Google Gemini</div>
-                    <div className="text-xs mt-1">Free, Fast</div>
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setAiProvider('openai')}
-                    disabled={isLoading}
-                    className={`p-3 rounded-lg border-2 transition-all ${
-                      aiProvider === 'openai'
-                        ? 'border-brand-primary bg-brand-primary/20 text-white'
-                        : 'border-brand-border bg-brand-bg text-gray-400 hover:border-gray-500'
-                    } disabled:opacity-50`}
-                  >
-                    <div className="font-bold">ChatGPT (OpenAI)</div>
-                    <div className="text-xs mt-1">Most Reliable</div>
-                  </button>
+                <div className="grid grid-cols-3 gap-3">
+                  {listKeywordProviders().map(provider => (
+                    <button
+                      key={provider.id}
+                      type="button"
+                      onClick={() => setAiProvider(provider.id)}
+                      disabled={isLoading}
+                      className={`p-3 rounded-lg border-2 transition-all ${
+                        aiProvider === provider.id
+                          ? 'border-brand-primary bg-brand-primary/20 text-white'
+                          : 'border-brand-border bg-brand-bg text-gray-400 hover:border-gray-500'
+                      } disabled:opacity-50`}
+                    >
+                      <div className="font-bold">{provider.label}</div>
+                      <div className="text-xs mt-1">{provider.tagline}</div>
+                    </button>
+                  ))}
                 </div>
                 
                 {/* OpenAI API Key Input */}
@@ -445,6 +678,123 @@ const App: React.FC = () => {
                     </p>
                   </div>
                 )}
+
+                {/* Retry & Failover */}
+                <div className="mt-4 pt-4 border-t border-brand-border flex flex-col sm:flex-row sm:items-center gap-3 text-xs text-gray-300">
+                  <label className="flex items-center gap-2">
+                    🔁 Attempts
+                    <select
+                      value={retryPolicy.maxAttempts}
+                      onChange={(e) => updateRetryPolicy({ maxAttempts: Number(e.target.value) })}
+                      className="p-1 bg-brand-bg border border-brand-border rounded-md"
+                      disabled={isLoading}
+                    >
+                      {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={retryPolicy.failover}
+                      onChange={() => updateRetryPolicy({ failover: !retryPolicy.failover })}
+                      disabled={isLoading}
+                    />
+                    {getFailoverProvider(aiProvider)
+                      ? `Fail over to ${getFailoverProvider(aiProvider)?.label} if ${getKeywordProvider(aiProvider).label} keeps failing`
+                      : 'Fail over to another provider (none configured)'}
+                  </label>
+                </div>
+
+                {/* Local Model Endpoint */}
+                {aiProvider === 'local' && (
+                  <div className="mt-4 space-y-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Server URL (OpenAI-compatible)
+                      </label>
+                      <input
+                        type="url"
+                        value={localModelBaseUrl}
+                        onChange={(e) => setLocalModelBaseUrl(e.target.value)}
+                        placeholder="http://localhost:8080/v1"
+                        className="w-full p-3 bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all"
+                        disabled={isLoading}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-300 mb-1">Model Name</label>
+                        <input
+                          type="text"
+                          value={localModelName}
+                          onChange={(e) => setLocalModelName(e.target.value)}
+                          placeholder="local-model"
+                          className="w-full p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all"
+                          disabled={isLoading}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-300 mb-1">API Key (optional)</label>
+                        <input
+                          type="password"
+                          value={localModelApiKey}
+                          onChange={(e) => setLocalModelApiKey(e.target.value)}
+                          placeholder="Usually not needed"
+                          className="w-full p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all"
+                          disabled={isLoading}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (localModelBaseUrl.trim()) {
+                            saveLocalModelConfig(localModelBaseUrl, localModelName, localModelApiKey);
+                            alert('✅ Local model endpoint saved.');
+                          } else {
+                            alert('⚠️ Please enter the server URL');
+                          }
+                        }}
+                        className="flex-1 text-xs bg-brand-primary hover:bg-blue-600 text-white py-2 px-3 rounded-md transition-colors"
+                        disabled={isLoading}
+                      >
+                        Save Endpoint
+                      </button>
+                      <button
+                        type="button"
+                        onClick={async () => {
+                          const connected = await testLocalModelConnection();
+                          if (connected) {
+                            alert('✅ Local model server reachable! Check console for available models.');
+                          } else {
+                            alert('❌ Connection failed. Check the URL and that the server allows CORS.');
+                          }
+                        }}
+                        className="flex-1 text-xs bg-blue-600 hover:bg-blue-700 text-white py-2 px-3 rounded-md transition-colors"
+                        disabled={isLoading || !getLocalModelConfig().enabled}
+                      >
+                        Test Connection
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          clearLocalModelConfig();
+                          setLocalModelBaseUrl('');
+                          setLocalModelName(getLocalModelConfig().model);
+                          setLocalModelApiKey('');
+                        }}
+                        className="text-xs bg-red-600 hover:bg-red-700 text-white py-2 px-3 rounded-md transition-colors"
+                        disabled={isLoading}
+                      >
+                        Clear
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      🔒 Drafts go only to this server. Works with llama.cpp, vLLM, Ollama or LM Studio.
+                    </p>
+                  </div>
+                )}
               </div>
 
               {/* DataForSEO API Configuration (Optional) */}
@@ -505,12 +855,25 @@ const App: React.FC = () => {
                         disabled={isLoading}
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-300 mb-1">
+                        API URL <span className="text-gray-500">(leave empty for {DEFAULT_DATAFORSEO_API_URL}; a local mock for testing)</span>
+                      </label>
+                      <input
+                        type="url"
+                        value={dataForSEOApiUrl}
+                        onChange={(e) => setDataForSEOApiUrl(e.target.value)}
+                        placeholder="http://localhost:8789"
+                        className="w-full p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none transition-all"
+                        disabled={isLoading}
+                      />
+                    </div>
                     <div className="flex gap-2">
                       <button
                         type="button"
                         onClick={() => {
                           if (dataForSEOLogin && dataForSEOPassword) {
-                            saveDataForSEOConfig(dataForSEOLogin, dataForSEOPassword);
+                            saveDataForSEOConfig(dataForSEOLogin, dataForSEOPassword, dataForSEOApiUrl);
                             alert('✅ DataForSEO credentials saved! Real search volume data will be used.');
                           } else {
                             alert('⚠️ Please enter both login and password');
@@ -542,6 +905,7 @@ const App: React.FC = () => {
                           clearDataForSEOConfig();
                           setDataForSEOLogin('');
                           setDataForSEOPassword('');
+                          setDataForSEOApiUrl('');
                           alert('DataForSEO credentials cleared. Using AI estimates.');
                         }}
                         className="text-xs bg-red-600 hover:bg-red-700 text-white py-2 px-3 rounded-md transition-colors"
@@ -550,6 +914,30 @@ const App: React.FC = () => {
                         Clear
                       </button>
                     </div>
+                    <div>
+                      <p className="block text-xs font-medium text-gray-300 mb-1">
+                        Target markets <span className="text-gray-500">(one lookup per market and language - Bangla terms in bn, English in en)</span>
+                      </p>
+                      <div className="flex flex-wrap gap-3">
+                        {(Object.keys(DATAFORSEO_MARKETS) as DataForSeoMarket[]).map(market => (
+                          <label key={market} className="flex items-center gap-1 text-xs text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={dataForSEOMarkets.includes(market)}
+                              disabled={isLoading || (dataForSEOMarkets.length === 1 && dataForSEOMarkets[0] === market)}
+                              onChange={() => {
+                                const next = dataForSEOMarkets.includes(market)
+                                  ? dataForSEOMarkets.filter(m => m !== market)
+                                  : (Object.keys(DATAFORSEO_MARKETS) as DataForSeoMarket[]).filter(m => m === market || dataForSEOMarkets.includes(m));
+                                setDataForSEOMarkets(next);
+                                saveDataForSEOMarkets(next);
+                              }}
+                            />
+                            {DATAFORSEO_MARKETS[market].flag} {DATAFORSEO_MARKETS[market].label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
                     <p className="text-xs text-gray-500">
                       🔒 Credentials stored locally. Never shared. App works without DataForSEO.
                     </p>
@@ -557,6 +945,55 @@ const App: React.FC = () => {
                 )}
               </div>
 
+              {/* Site-specific extraction profiles */}
+              <ExtractionProfilesPanel disabled={isLoading} />
+
+              {/* Article Fetch Proxy */}
+              <div className="mt-4 p-4 bg-brand-card border border-brand-border rounded-lg">
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  🌐 Fetch Proxy URL
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={fetchProxyUrl}
+                    onChange={(e) => setFetchProxyUrl(e.target.value)}
+                    placeholder={DEFAULT_FETCH_PROXY_URL}
+                    className="flex-grow p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all"
+                    disabled={isLoading}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (fetchProxyUrl.trim()) {
+                        saveFetchProxyUrl(fetchProxyUrl);
+                        alert('✅ Fetch proxy saved. Article URLs will be fetched through it.');
+                      } else {
+                        alert('⚠️ Please enter the proxy URL');
+                      }
+                    }}
+                    className="text-xs bg-brand-primary hover:bg-blue-600 text-white py-2 px-3 rounded-md transition-colors"
+                    disabled={isLoading}
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      clearFetchProxyUrl();
+                      setFetchProxyUrl(DEFAULT_FETCH_PROXY_URL);
+                    }}
+                    className="text-xs bg-red-600 hover:bg-red-700 text-white py-2 px-3 rounded-md transition-colors"
+                    disabled={isLoading}
+                  >
+                    Reset
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  🔒 Default <code>{DEFAULT_FETCH_PROXY_URL}</code> is served by the dev server. For production, run <code>npm run proxy</code> and enter its URL (e.g. http://localhost:8787/proxy).
+                </p>
+              </div>
+
               <div className="mt-6 flex flex-col sm:flex-row items-center justify-between gap-4">
                 <label className="flex items-center cursor-pointer select-none">
                   <span className="mr-3 text-sm font-medium text-gray-300">Deep Analysis</span>
@@ -572,27 +1009,57 @@ const App: React.FC = () => {
                     <div className={`dot absolute left-1 top-1 bg-white w-6 h-6 rounded-full transition-transform ${useDeepAnalysis ? 'transform translate-x-6' : ''}`}></div>
                   </div>
                 </label>
-                <button
-                  type="submit"
-                  disabled={isLoading || !articleContent.trim()}
-                  className="w-full sm:w-auto flex items-center justify-center gap-2 bg-brand-primary text-white font-bold py-3 px-8 rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-300 disabled:bg-gray-500 disabled:cursor-not-allowed"
-                >
-                  <SparklesIcon className="w-5 h-5"/>
-                  {isLoading ? 'Analyzing...' : 'Generate Keywords'}
-                </button>
+                <label className="flex items-center gap-2 cursor-pointer select-none text-sm text-gray-300" title="Unchanged articles are answered from the cache for 7 days">
+                  <input
+                    type="checkbox"
+                    checked={forceRefresh}
+                    onChange={() => setForceRefresh(!forceRefresh)}
+                    className="w-4 h-4"
+                    disabled={isLoading}
+                  />
+                  Force refresh
+                </label>
+                {inputMode === 'single' && (
+                  <button
+                    type="submit"
+                    disabled={isLoading || !articleContent.trim()}
+                    className="w-full sm:w-auto flex items-center justify-center gap-2 bg-brand-primary text-white font-bold py-3 px-8 rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-300 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                  >
+                    <SparklesIcon className="w-5 h-5"/>
+                    {isLoading ? 'Analyzing...' : 'Generate Keywords'}
+                  </button>
+                )}
               </div>
                <p className="text-xs text-gray-500 mt-2 text-center sm:text-left">
-                  {aiProvider === 'gemini' 
-                    ? (useDeepAnalysis ? "Using Gemini 2.5 Pro (Deep thinking, best quality)" : "Using Gemini 2.0 Flash (Fast, efficient)")
-                    : (useDeepAnalysis ? "Using GPT-4 Turbo (Most powerful, best quality)" : "Using GPT-3.5 Turbo (Fast, efficient)")
-                  }
+                  Using {getKeywordProvider(aiProvider).describeModel(useDeepAnalysis)}
                 </p>
+                {inputMode === 'single' && lockedCount > 0 && (
+                  <p className="text-xs text-amber-300 mt-1 text-center sm:text-left">
+                    🔒 {lockedCount} locked keyword{lockedCount > 1 ? 's' : ''} will be kept and the AI will build around {lockedCount > 1 ? 'them' : 'it'}.
+                    <button type="button" onClick={() => applyKeywordEdit(unlockAllKeywords)} className="ml-2 text-sky-400 hover:underline" disabled={isLoading}>
+                      Unlock all
+                    </button>
+                  </p>
+                )}
             </form>
           </div>
 
           {/* Output Section */}
           <div className="mt-10 lg:mt-0">
-            {isLoading && <Loader />}
+            {isLoading && <Loader onCancel={handleCancel} />}
+            {isLoading && KEYWORD_SECTIONS.some(section => partialResult[section.key]?.length) && (
+              <div className="space-y-6 mt-6">
+                {KEYWORD_SECTIONS.map(section => (
+                  <KeywordCard
+                    key={section.key}
+                    title={section.title}
+                    keywords={partialResult[section.key] || []}
+                    color={section.color}
+                    tooltipText={section.tooltipText}
+                  />
+                ))}
+              </div>
+            )}
             {error && <div className="bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-lg">{error}</div>}
             
             {!isLoading && !error && !result && (
@@ -602,7 +1069,7 @@ const App: React.FC = () => {
               </div>
             )}
 
-            {result && (
+            {result && !isLoading && (
               <div className="space-y-6">
                 {/* Language Detection Badge */}
                 {result.detectedLanguage && (
@@ -617,6 +1084,100 @@ const App: React.FC = () => {
                   </div>
                 )}
 
+                {/* Export */}
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="text-gray-400 mr-1">⬇️ Export:</span>
+                  {[
+                    { label: 'CSV (Excel)', extension: 'csv', mime: 'text/csv', build: () => buildKeywordCsv(result, { excel: true }) },
+                    { label: 'CSV', extension: 'csv', mime: 'text/csv', build: () => buildKeywordCsv(result) },
+                    { label: 'JSON', extension: 'json', mime: 'application/json', build: () => buildKeywordJson(result) },
+                    {
+                      label: 'SEO Brief (.md)',
+                      extension: 'md',
+                      mime: 'text/markdown',
+                      build: () => buildSeoBriefMarkdown(result, {
+                        title: analyzedArticle?.content.trim().split('\n')[0].slice(0, 160),
+                        url: analyzedArticle?.url
+                      })
+                    }
+                  ].map(format => (
+                    <button
+                      key={format.label}
+                      type="button"
+                      onClick={() => downloadTextFile(`${exportFileStem(result)}.${format.extension}`, format.build(), format.mime)}
+                      className="bg-brand-secondary hover:bg-gray-500 text-white py-1 px-3 rounded-md transition-colors"
+                    >
+                      {format.label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Publisher metadata from the fetched page */}
+                {result.articleMetadata && (result.articleMetadata.section || result.articleMetadata.publishedTime) && (
+                  <div className="bg-brand-card border border-brand-border rounded-lg p-3 text-xs text-gray-400">
+                    📰 {[
+                      result.articleMetadata.section,
+                      result.articleMetadata.publishedTime && `Published ${new Date(result.articleMetadata.publishedTime).toLocaleString()}`,
+                      result.articleMetadata.author && `By ${result.articleMetadata.author}`
+                    ].filter(Boolean).join(' • ')}
+                  </div>
+                )}
+
+                {/* Served from the result cache */}
+                {result.cachedAt && (
+                  <div className="bg-brand-card border border-cyan-500/50 rounded-lg p-3 text-xs text-cyan-300">
+                    ⚡ Cached result from {new Date(result.cachedAt).toLocaleString()} - no AI call was made. Tick <strong>Force refresh</strong> to regenerate.
+                  </div>
+                )}
+
+                {/* Which provider produced this result */}
+                {result.generatedBy && (result.generatedBy.totalAttempts > 1 || result.generatedBy.failover) && (
+                  <div className="bg-brand-card border border-brand-border rounded-lg p-3 text-xs text-gray-400">
+                    🤖 Generated by <strong className="text-gray-200">{getKeywordProvider(result.generatedBy.provider).label}</strong> ({result.generatedBy.model})
+                    {' '}on attempt {result.generatedBy.attempt}
+                    {result.generatedBy.failover && <span className="ml-1 text-amber-300">after failover ({result.generatedBy.totalAttempts} attempts total)</span>}
+                  </div>
+                )}
+
+                {/* Keyword drift against earlier analyses of the same story */}
+                {analyzedArticle && (
+                  <VersionDiffPanel
+                    articleContent={analyzedArticle.content}
+                    articleUrl={analyzedArticle.url}
+                    result={result}
+                    refreshKey={historyVersion}
+                  />
+                )}
+
+                {/* Ready-to-paste meta tags and JSON-LD */}
+                <MarkupPanel result={result} articleUrl={analyzedArticle?.url} />
+
+                {/* Push meta and tags to the CMS */}
+                <CmsPanel result={result} />
+
+                {/* Schema Validation Report */}
+                {result.validationIssues && result.validationIssues.some(issue => issue.action !== 'warning') && (
+                  <details className="bg-brand-card border border-amber-500/50 rounded-xl shadow-lg p-5">
+                    <summary className="cursor-pointer text-sm font-bold text-amber-300">
+                      ⚠️ AI Output Repaired: {result.validationIssues.filter(issue => issue.action === 'dropped').length} dropped, {result.validationIssues.filter(issue => issue.action === 'coerced').length} fixed
+                    </summary>
+                    <ul className="mt-3 space-y-1 text-xs text-gray-300">
+                      {result.validationIssues.map((issue, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <span className={`font-bold uppercase ${
+                            issue.action === 'dropped' ? 'text-red-400' :
+                            issue.action === 'coerced' ? 'text-yellow-400' :
+                            'text-gray-500'
+                          }`}>{issue.action}</span>
+                          <code className="text-gray-400">{issue.path || 'response'}</code>
+                          <span>{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-gray-500 mt-3">Items the AI returned in an invalid shape were removed or fixed before display.</p>
+                  </details>
+                )}
+
                 {/* Ranking Confidence - NEW */}
                 {result.rankingConfidence && (
                   <div className="bg-gradient-to-r from-purple-900/50 to-pink-900/50 border-2 border-purple-500/50 rounded-xl shadow-2xl p-6">
@@ -662,8 +1223,9 @@ const App: React.FC = () => {
                         <div className="bg-brand-bg p-3 rounded border border-purple-500/30">
                           <div className="text-xs text-gray-400">Data Source</div>
                           <div className="text-xs font-bold text-cyan-300">
-                            {result.dataSourceUsed === 'google-data' ? '🔍 Google Search (FREE)' :
+                            {result.dataSourceUsed === 'google-data' ? '🔍 Google signals (estimated)' :
                              result.dataSourceUsed === 'dataforseo-api' ? '📊 DataForSEO API' :
+                             result.dataSourceUsed === 'heuristic' ? '📐 Heuristic estimates' :
                              '🤖 AI Estimates'}
                           </div>
                         </div>
@@ -781,62 +1343,47 @@ const App: React.FC = () => {
                   </div>
                 )}
 
+                <SerpPreview result={result} articleUrl={analyzedArticle?.url} />
+
                 {/* Content Type */}
                 <div className="bg-brand-card border border-brand-border rounded-xl shadow-lg p-5">
                     <h3 className="text-xs uppercase font-semibold text-gray-400 tracking-wider mb-1">Detected Content Type</h3>
                     <p className="text-lg font-bold text-gray-200">{result.contentType}</p>
                 </div>
 
-                {/* Competitor Insights */}
-                <div className="bg-brand-card border border-brand-border rounded-xl shadow-lg p-5">
-                  <h3 className="text-lg font-bold text-purple-400 mb-2">🔍 Competitor Gap Analysis</h3>
-                  <p className="text-sm text-gray-300">{result.competitorInsights}</p>
-                </div>
-                
-                <KeywordCard 
-                  title="Target Focus Keywords (2-5)" 
-                  keywords={result.primary} 
-                  color="text-blue-400" 
-                  tooltipText="Core topics and primary search intent (any length). What is this article actually about? Captures complete user intent without arbitrary word limits. Each represents a distinct way users would search for this topic."
-                />
-                <KeywordCard 
-                  title="Supporting Topic Keywords (5-12)" 
-                  keywords={result.secondary} 
-                  color="text-green-400" 
-                  tooltipText="Themes and sub-topics covered (any length). Demonstrates topical breadth and expertise. Focus on concepts, trends, and market dynamics - not just entity lists. Shows semantic coverage and subject matter depth."
-                />
-                <KeywordCard 
-                  title="User Query Variations (8-20)" 
-                  keywords={result.longtail} 
-                  color="text-yellow-400" 
-                  tooltipText="How real people search this topic (any length). Verbatim phrases from article matching natural language queries. Includes statistics with context, complete thoughts, and conversational patterns. Featured Snippet opportunities."
+                {/* Competitor gaps from the live results pages (AI notes until run) */}
+                <CompetitorGapPanel
+                  result={result}
+                  articleContent={analyzedArticle?.content}
+                  siteDomain={siteDomain}
+                  onReport={report => setResult(current => current && { ...current, competitorGaps: report })}
                 />
-
-                {/* Advanced SEO Features */}
-                {result.lsiKeywords && result.lsiKeywords.length > 0 && (
-                  <KeywordCard 
-                    title="Semantic Context Keywords (5-8)" 
-                    keywords={result.lsiKeywords} 
-                    color="text-cyan-400" 
-                    tooltipText="Related concepts and terms Google expects to see (any length). Synonyms, industry terminology, and co-occurring phrases. Proves comprehensive topic coverage to BERT/MUM algorithms. Signals content quality and expertise."
+                
+                {KEYWORD_SECTIONS.map(section => (
+                  <KeywordCard
+                    key={section.key}
+                    title={section.title}
+                    keywords={result[section.key] || []}
+                    color={section.color}
+                    tooltipText={section.tooltipText}
+                    editor={isEditableCategory(section.key) ? buildKeywordEditor(section.key) : undefined}
                   />
-                )}
+                ))}
 
-                {result.questionKeywords && result.questionKeywords.length > 0 && (
-                  <KeywordCard 
-                    title="Question-Intent Keywords (5-10)" 
-                    keywords={result.questionKeywords} 
-                    color="text-pink-400" 
-                    tooltipText="Complete, natural questions users ask (any length). Targets People Also Ask (PAA) boxes, Featured Snippets, and voice search. Each question is a position-zero opportunity. Optimized for conversational AI and Google Assistant."
-                  />
-                )}
+                {/* Live top 10 and SERP features for the focus keywords (DataForSEO) */}
+                <SerpSnapshotPanel
+                  keywords={result.primary}
+                  siteDomain={siteDomain}
+                />
 
-                {result.entities && result.entities.length > 0 && (
-                  <KeywordCard 
-                    title="Named Entities (All)" 
-                    keywords={result.entities} 
-                    color="text-orange-400" 
-                    tooltipText="All named entities extracted: People, Organizations, Places, Events, Policies. Connects to Google Knowledge Graph for E-E-A-T signals. Entity-based ranking is how modern Google works. Comprehensive extraction = authority signals."
+                {/* Headline / intro / subhead rewrites for the draft */}
+                {inputMode === 'single' && (
+                  <RewritePanel
+                    articleContent={articleContent}
+                    result={result}
+                    provider={getKeywordProvider(aiProvider)}
+                    useDeepAnalysis={useDeepAnalysis}
+                    onApply={setArticleContent}
                   />
                 )}
 
@@ -855,6 +1402,25 @@ const App: React.FC = () => {
                   </div>
                 )}
 
+                {/* Google Trends rising queries */}
+                {result.risingQueries && result.risingQueries.length > 0 && (
+                  <div className="bg-brand-card border border-cyan-500/50 rounded-xl shadow-lg p-5">
+                    <h3 className="text-lg font-bold text-cyan-400 mb-3">📈 Rising Searches in Bangladesh</h3>
+                    <ul className="space-y-2 text-sm text-gray-300">
+                      {result.risingQueries.map((query, index) => (
+                        <li key={index} className="flex items-center justify-between gap-3">
+                          <span>
+                            {query.query}
+                            <span className="text-xs text-gray-500 ml-2">related to "{query.keyword}"</span>
+                          </span>
+                          <span className="text-xs font-semibold text-cyan-300 whitespace-nowrap">{query.growth}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-gray-400 mt-3">Google Trends queries growing fastest over the last 12 months. Good candidates for follow-up stories or subheads.</p>
+                  </div>
+                )}
+
                 {/* Local SEO Signals */}
                 {result.localSeoSignals && result.localSeoSignals.length > 0 && (
                   <div className="bg-brand-card border border-teal-500/50 rounded-xl shadow-lg p-5">
@@ -917,6 +1483,13 @@ const App: React.FC = () => {
         </div>
       </main>
 
+      <HistorySidebar
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        onOpenEntry={handleOpenHistoryEntry}
+        refreshKey={historyVersion}
+      />
+
       {/* Copyright Footer */}
       <footer className="mt-12 pt-6 border-t border-gray-800/50">
         <p className="text-center text-sm text-gray-500">
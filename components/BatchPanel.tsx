@@ -0,0 +1,257 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { BatchItem, BatchItemStatus, KeywordResult } from '../types';
+import {
+  parseBatchInput,
+  createBatchItems,
+  runBatchQueue,
+  getBatchConcurrency,
+  saveBatchConcurrency,
+  buildBatchJson,
+  buildBatchCsv,
+  MAX_BATCH_SIZE
+} from '../services/batchService';
+import { downloadTextFile } from '../services/exportService';
+import type { ExtractedArticle } from '../services/articleExtractor';
+
+interface BatchPanelProps {
+  fetchArticle: (url: string, signal: AbortSignal) => Promise<ExtractedArticle>;
+  generate: (article: ExtractedArticle, signal: AbortSignal) => Promise<KeywordResult>;
+  onOpenResult: (item: BatchItem) => void;
+  onItemDone?: (item: BatchItem) => void;
+  onRunningChange?: (running: boolean) => void;   // Lets the app lock what would unmount the panel mid-batch
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'text-gray-400',
+  fetching: 'text-cyan-300',
+  generating: 'text-blue-300',
+  done: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-gray-500'
+};
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: '⏳ Queued',
+  fetching: '🌐 Fetching',
+  generating: '🤖 Generating',
+  done: '✅ Done',
+  error: '❌ Error',
+  cancelled: '⏹️ Cancelled'
+};
+
+// 30 seconds per article fetch, same as single-article mode
+const FETCH_TIMEOUT_MS = 30000;
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ fetchArticle, generate, onOpenResult, onItemDone, onRunningChange }) => {
+  const [input, setInput] = useState('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(() => getBatchConcurrency());
+  const [isRunning, setIsRunning] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    onRunningChange?.(isRunning);
+  }, [isRunning]);
+
+  // A batch never outlives the panel showing it
+  useEffect(() => () => {
+    abortControllerRef.current?.abort(new DOMException('Batch panel closed', 'AbortError'));
+    onRunningChange?.(false);
+  }, []);
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(current => current.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const handleStart = async () => {
+    let parsed: ReturnType<typeof parseBatchInput>;
+    try {
+      parsed = parseBatchInput(input);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Could not read the batch input.');
+      return;
+    }
+
+    if (parsed.entries.length === 0) {
+      setNotice('No article URLs found. Paste one URL per line, an RSS/Atom feed or a news sitemap.');
+      return;
+    }
+
+    setNotice(
+      `Found ${parsed.entries.length} article(s) in ${parsed.source === 'urls' ? 'URL list' : parsed.source.toUpperCase()}` +
+      (parsed.skipped > 0 ? ` • ${parsed.skipped} skipped (invalid, duplicate or over the ${MAX_BATCH_SIZE} limit)` : '')
+    );
+
+    const queue = createBatchItems(parsed.entries);
+    setItems(queue);
+    setIsRunning(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    console.log(`📦 Starting batch of ${queue.length} article(s), ${concurrency} at a time`);
+
+    await runBatchQueue(queue, concurrency, async (item, signal) => {
+      updateItem(item.id, { status: 'fetching', startedAt: Date.now() });
+
+      try {
+        const article = await fetchArticle(item.url, AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)]));
+        updateItem(item.id, { status: 'generating', content: article.content, title: item.title || article.title });
+
+        const result = await generate(article, signal);
+        updateItem(item.id, { status: 'done', result, finishedAt: Date.now() });
+        onItemDone?.({ ...item, status: 'done', content: article.content, result });
+      } catch (err) {
+        if (signal.aborted) {
+          updateItem(item.id, { status: 'cancelled', finishedAt: Date.now() });
+          return;
+        }
+        console.error(`Batch item failed (${item.url}):`, err);
+        updateItem(item.id, {
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Unknown error',
+          finishedAt: Date.now()
+        });
+      }
+    }, controller.signal);
+
+    // Items never started stay queued - mark them cancelled
+    if (controller.signal.aborted) {
+      setItems(current => current.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+    }
+
+    console.log('📦 Batch finished');
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort(new DOMException('Batch cancelled by user', 'AbortError'));
+  };
+
+  const finished = items.filter(item => item.status === 'done');
+  const failed = items.filter(item => item.status === 'error');
+  const dateStamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div>
+      <h2 className="text-xl font-bold mb-1">Batch Analysis</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Paste article URLs (one per line), an RSS/Atom feed or a news sitemap XML.
+      </p>
+      <textarea
+        value={input}
+        onChange={(e) => { setInput(e.target.value); setNotice(null); }}
+        placeholder={'https://www.thedailystar.net/news/...\nhttps://www.thedailystar.net/business/...\n\nor <rss>...</rss> / <urlset>...</urlset>'}
+        className="w-full h-40 p-4 bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all resize-y font-mono text-xs"
+        disabled={isRunning}
+      ></textarea>
+
+      <div className="mt-3 flex flex-col sm:flex-row items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          Parallel articles
+          <select
+            value={concurrency}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              setConcurrency(value);
+              saveBatchConcurrency(value);
+            }}
+            className="p-2 bg-brand-bg border border-brand-border rounded-md text-sm"
+            disabled={isRunning}
+          >
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {isRunning ? (
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="w-full sm:w-auto py-3 px-8 font-bold text-red-300 border border-red-700 rounded-lg hover:bg-red-900/50 transition-colors"
+          >
+            Cancel Batch
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={!input.trim()}
+            className="w-full sm:w-auto bg-brand-primary text-white font-bold py-3 px-8 rounded-lg hover:bg-blue-600 transition-all disabled:bg-gray-500 disabled:cursor-not-allowed"
+          >
+            Start Batch
+          </button>
+        )}
+      </div>
+
+      {notice && <p className="mt-3 text-xs text-gray-400">{notice}</p>}
+
+      {items.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-gray-300">
+              {finished.length}/{items.length} done{failed.length > 0 && <span className="text-red-400"> • {failed.length} failed</span>}
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => downloadTextFile(`keywords-batch-${dateStamp}.csv`, buildBatchCsv(items), 'text/csv')}
+                disabled={finished.length === 0}
+                className="text-xs bg-brand-secondary hover:bg-gray-500 text-white py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+              >
+                Export CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => downloadTextFile(`keywords-batch-${dateStamp}.json`, buildBatchJson(items), 'application/json')}
+                disabled={finished.length === 0}
+                className="text-xs bg-brand-secondary hover:bg-gray-500 text-white py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+              >
+                Export JSON
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-brand-border rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-brand-bg text-gray-400">
+                <tr>
+                  <th className="text-left p-2">Article</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Focus Keyword</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => (
+                  <tr key={item.id} className="border-t border-brand-border">
+                    <td className="p-2 max-w-[14rem]">
+                      <div className="truncate text-gray-200" title={item.title || item.url}>{item.title || item.url}</div>
+                      {item.title && <div className="truncate text-gray-500" title={item.url}>{item.url}</div>}
+                    </td>
+                    <td className={`p-2 whitespace-nowrap ${STATUS_STYLES[item.status]}`} title={item.error}>
+                      {STATUS_LABELS[item.status]}
+                    </td>
+                    <td className="p-2 text-gray-300">{item.result?.primary[0]?.term || '—'}</td>
+                    <td className="p-2 text-right">
+                      {item.result && (
+                        <button
+                          type="button"
+                          onClick={() => onOpenResult(item)}
+                          className="text-brand-primary hover:underline"
+                        >
+                          Open
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import type { KeywordResult } from '../types';
+import {
+  CMS_FIELD_LABELS,
+  DEFAULT_CMS_FIELDS,
+  buildCmsFields,
+  pickCmsFields,
+  diffCmsFields,
+  getCmsConfig,
+  saveCmsConfig,
+  clearCmsConfig,
+  type CmsConfig,
+  type CmsField,
+  type CmsFieldDiff,
+  type CmsPushResult
+} from '../services/cmsConnector';
+import { getCmsConnector, listCmsConnectors } from '../services/cmsRegistry';
+
+interface CmsPanelProps {
+  result: KeywordResult;
+}
+
+const STATUS_STYLES: Record<CmsFieldDiff['status'], string> = {
+  unchanged: 'text-gray-500',
+  new: 'text-green-400',
+  conflict: 'text-amber-300',
+  unknown: 'text-gray-400'
+};
+
+const STATUS_LABELS: Record<CmsFieldDiff['status'], string> = {
+  unchanged: 'Same',
+  new: 'New',
+  conflict: '⚠️ Overwrites',
+  unknown: 'Not readable'
+};
+
+const inputClassName = "w-full p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-sky-500 focus:outline-none transition-all";
+
+/**
+ * Push meta tags, focus keyword and tags to the CMS, with a dry-run preview
+ * and a per-field comparison against the post's current values
+ */
+const CmsPanel: React.FC<CmsPanelProps> = ({ result }) => {
+  const [config, setConfig] = useState<CmsConfig>(() => getCmsConfig());
+  const [showSettings, setShowSettings] = useState(false);
+  const [postId, setPostId] = useState('');
+  const [selected, setSelected] = useState<CmsField[]>(DEFAULT_CMS_FIELDS);
+  const [diffs, setDiffs] = useState<CmsFieldDiff[] | null>(null);
+  const [preview, setPreview] = useState<CmsPushResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const connector = getCmsConnector(config.connector);
+  const fields = pickCmsFields(buildCmsFields(result), selected);
+
+  const updateConfig = (changes: Partial<CmsConfig>) => {
+    setConfig(current => ({ ...current, ...changes }));
+    setDiffs(null);
+    setPreview(null);
+  };
+
+  const toggleField = (field: CmsField) => {
+    setSelected(current => current.includes(field) ? current.filter(f => f !== field) : [...current, field]);
+    setDiffs(null);
+    setPreview(null);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    if (!postId.trim()) {
+      setNotice({ type: 'error', text: 'Enter the post ID first.' });
+      return;
+    }
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('CMS request failed:', err);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setNotice({
+        type: 'error',
+        text: message.includes('Failed to fetch')
+          ? 'Could not reach the CMS. Check the URL and that it allows requests from this app (CORS).'
+          : message
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePreview = () => runAction(async () => {
+    const current = await connector.fetchCurrent(config, postId);
+    setDiffs(diffCmsFields(current, fields));
+    setPreview(await connector.push(config, postId, fields, { dryRun: true }));
+  });
+
+  const handlePush = () => runAction(async () => {
+    const current = await connector.fetchCurrent(config, postId);
+    const latest = diffCmsFields(current, fields);
+    setDiffs(latest);
+
+    const conflicts = latest.filter(diff => diff.status === 'conflict');
+    if (conflicts.length > 0 && !confirm(
+      `This overwrites ${conflicts.length} field(s) that already have a value in the CMS:\n\n` +
+      conflicts.map(diff => `• ${CMS_FIELD_LABELS[diff.field]}: "${diff.current}"`).join('\n') +
+      '\n\nContinue?'
+    )) {
+      return;
+    }
+
+    const pushed = await connector.push(config, postId, fields);
+    setPreview(pushed);
+    setNotice({ type: 'success', text: pushed.message });
+    setDiffs(diffCmsFields(await connector.fetchCurrent(config, postId), fields));
+  });
+
+  return (
+    <details className="bg-brand-card border border-sky-500/50 rounded-xl shadow-lg p-5">
+      <summary className="cursor-pointer text-sm font-bold text-sky-300">
+        📤 Push to CMS
+      </summary>
+
+      <div className="mt-4 space-y-4 text-xs">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-400">
+            {connector.label} {connector.isConfigured(config) ? '✓ configured' : '• not configured'}
+          </span>
+          <button type="button" onClick={() => setShowSettings(!showSettings)} className="text-sky-400 hover:underline">
+            {showSettings ? 'Hide settings' : 'Settings'}
+          </button>
+        </div>
+
+        {showSettings && (
+          <div className="space-y-2 p-3 bg-brand-bg border border-brand-border rounded-md">
+            <select
+              value={config.connector}
+              onChange={(e) => updateConfig({ connector: e.target.value as CmsConfig['connector'] })}
+              className={inputClassName}
+            >
+              {listCmsConnectors().map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+            </select>
+
+            {config.connector === 'wordpress' ? (
+              <>
+                <input type="url" value={config.baseUrl || ''} onChange={(e) => updateConfig({ baseUrl: e.target.value })} placeholder="Site URL (e.g. https://cms.thedailystar.net)" className={inputClassName} />
+                <div className="grid grid-cols-2 gap-2">
+                  <input type="text" value={config.username || ''} onChange={(e) => updateConfig({ username: e.target.value })} placeholder="Username" className={inputClassName} />
+                  <input type="password" value={config.appPassword || ''} onChange={(e) => updateConfig({ appPassword: e.target.value })} placeholder="Application password" className={inputClassName} />
+                </div>
+                <select value={config.seoPlugin} onChange={(e) => updateConfig({ seoPlugin: e.target.value as CmsConfig['seoPlugin'] })} className={inputClassName}>
+                  <option value="yoast">Yoast SEO</option>
+                  <option value="rankmath">Rank Math</option>
+                </select>
+                <p className="text-gray-500">
+                  The SEO plugin's meta fields must be registered with <code>show_in_rest</code> on the site.
+                </p>
+              </>
+            ) : (
+              <>
+                <input type="url" value={config.webhookUrl || ''} onChange={(e) => updateConfig({ webhookUrl: e.target.value })} placeholder="Webhook URL" className={inputClassName} />
+                <input type="password" value={config.webhookSecret || ''} onChange={(e) => updateConfig({ webhookSecret: e.target.value })} placeholder="Signing secret (optional)" className={inputClassName} />
+              </>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => { saveCmsConfig(config); setNotice({ type: 'success', text: 'CMS settings saved.' }); }}
+                className="flex-1 bg-sky-600 hover:bg-sky-700 text-white py-2 px-3 rounded-md transition-colors"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => { clearCmsConfig(); setConfig(getCmsConfig()); }}
+                className="bg-brand-secondary hover:bg-gray-500 text-white py-2 px-3 rounded-md transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+            <p className="text-gray-500">🔒 Stored only in your browser. Try it locally with <code>npm run mock-cms</code>.</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {(Object.keys(CMS_FIELD_LABELS) as CmsField[]).map(field => (
+            <label key={field} className="flex items-center gap-1 text-gray-300">
+              <input type="checkbox" checked={selected.includes(field)} onChange={() => toggleField(field)} />
+              {CMS_FIELD_LABELS[field]}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={postId}
+            onChange={(e) => { setPostId(e.target.value); setDiffs(null); setPreview(null); }}
+            placeholder={config.connector === 'wordpress' ? 'Post ID' : 'Post ID / slug'}
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={isBusy || !connector.isConfigured(config)}
+            className="whitespace-nowrap bg-brand-secondary hover:bg-gray-500 text-white py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+          >
+            Preview (dry run)
+          </button>
+          <button
+            type="button"
+            onClick={handlePush}
+            disabled={isBusy || !connector.isConfigured(config) || Object.keys(fields).length === 0}
+            className="whitespace-nowrap bg-sky-600 hover:bg-sky-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+          >
+            {isBusy ? 'Working...' : 'Push'}
+          </button>
+        </div>
+
+        {notice && (
+          <p className={notice.type === 'error' ? 'text-red-400' : 'text-green-400'}>{notice.text}</p>
+        )}
+
+        {diffs && (
+          <div className="overflow-x-auto border border-brand-border rounded-lg">
+            <table className="w-full">
+              <thead className="bg-brand-bg text-gray-400">
+                <tr>
+                  <th className="text-left p-2">Field</th>
+                  <th className="text-left p-2">In CMS now</th>
+                  <th className="text-left p-2">From this analysis</th>
+                  <th className="text-left p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {diffs.map(diff => (
+                  <tr key={diff.field} className="border-t border-brand-border align-top">
+                    <td className="p-2 text-gray-300 whitespace-nowrap">{CMS_FIELD_LABELS[diff.field]}</td>
+                    <td className="p-2 text-gray-500">{diff.current || '—'}</td>
+                    <td className="p-2 text-gray-200">{diff.proposed}</td>
+                    <td className={`p-2 whitespace-nowrap ${STATUS_STYLES[diff.status]}`}>{STATUS_LABELS[diff.status]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {preview && (
+          <details>
+            <summary className="cursor-pointer text-gray-400">
+              {preview.sent ? 'Request sent' : 'Request that would be sent'}: {preview.request.method} {preview.request.url}
+            </summary>
+            <pre className="mt-2 p-3 bg-brand-bg border border-brand-border rounded-md overflow-x-auto text-gray-300 font-mono">
+              {JSON.stringify(preview.request.body, null, 2)}
+            </pre>
+          </details>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default CmsPanel;
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { KeywordResult, CompetitorGapReport, CompetitorPage } from '../types';
+import { analyzeCompetitorGaps } from '../services/competitorGapService';
+
+interface CompetitorGapPanelProps {
+  result: KeywordResult;
+  articleContent?: string;     // Analyzed article - what competitor terms are checked against
+  siteDomain?: string;         // Own site, left out of the competitors
+  onReport: (report: CompetitorGapReport) => void;
+}
+
+const STATUS_LABELS: Record<CompetitorPage['status'], string> = {
+  analyzed: '✓ read',
+  blocked: '🚫 not on proxy allowlist',
+  failed: '⚠️ could not be fetched'
+};
+
+/**
+ * Competitor gap table from the live results pages of the focus keywords,
+ * with the model's own competitor notes as fallback
+ */
+const CompetitorGapPanel: React.FC<CompetitorGapPanelProps> = ({ result, articleContent, siteDomain, onReport }) => {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // A new analysis starts over (keyword edits don't)
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setProgress(null);
+    setError(null);
+    setIsBusy(false);
+  }, [result.questionKeywords, result.metaTitle]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleAnalyze = async () => {
+    if (!articleContent) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsBusy(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const report = await analyzeCompetitorGaps(result.primary, articleContent, {
+        siteDomain,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      onReport(report);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Competitor gap analysis failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not analyze the ranking pages.');
+    } finally {
+      if (!controller.signal.aborted) setIsBusy(false);
+    }
+  };
+
+  const report = result.competitorGaps;
+  const analyzedCount = report?.pages.filter(page => page.status === 'analyzed').length ?? 0;
+
+  return (
+    <div className="bg-brand-card border border-brand-border rounded-xl shadow-lg p-5 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-lg font-bold text-purple-400">🔍 Competitor Gap Analysis</h3>
+        <button
+          type="button"
+          onClick={handleAnalyze}
+          disabled={isBusy || !articleContent}
+          className="whitespace-nowrap text-xs bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+        >
+          {isBusy
+            ? progress ? `Reading ${progress.done}/${progress.total} pages...` : 'Finding pages...'
+            : report ? 'Check again' : 'Analyze live SERP'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {!report ? (
+        <>
+          <p className="text-sm text-gray-300">{result.competitorInsights}</p>
+          <p className="text-xs text-gray-500">
+            AI notes, not checked against Google. Analyze live SERP to compare the article with the titles and headings of the pages ranking for the focus keywords.
+          </p>
+        </>
+      ) : (
+        <div className="space-y-3 text-xs">
+          <p className="text-gray-400">
+            {analyzedCount} of {report.pages.length} ranking pages read · checked {new Date(report.checkedAt).toLocaleString()}
+          </p>
+
+          {analyzedCount === 0 ? (
+            <p className="text-yellow-400">
+              None of the ranking pages could be read. Add their domains to FETCH_PROXY_ALLOWLIST and check again.
+            </p>
+          ) : report.gaps.length === 0 ? (
+            <p className="text-green-400">No term used by several competitors is missing from the article.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="text-gray-400 border-b border-brand-border">
+                  <tr>
+                    <th className="py-1 pr-3 font-semibold">Missing term</th>
+                    <th className="py-1 pr-3 font-semibold">Pages</th>
+                    <th className="py-1 pr-3 font-semibold">Sites</th>
+                    <th className="py-1 font-semibold">Example</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.gaps.map(gap => (
+                    <tr key={gap.term} className="border-b border-brand-border/50 align-top">
+                      <td className="py-1 pr-3 font-semibold text-purple-300">{gap.term}</td>
+                      <td className="py-1 pr-3 text-gray-300">{gap.pageCount}/{analyzedCount}</td>
+                      <td className="py-1 pr-3 text-gray-400">{gap.domains.join(', ')}</td>
+                      <td className="py-1 text-gray-400" title={`Focus keywords: ${gap.keywords.join(', ')}`}>{gap.example}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {report.coveredTerms.length > 0 && (
+            <p className="text-gray-400">
+              <strong>Already covered:</strong> {report.coveredTerms.join(', ')}
+            </p>
+          )}
+
+          <details>
+            <summary className="cursor-pointer text-gray-400">Pages read ({report.pages.length})</summary>
+            <ul className="mt-2 space-y-1">
+              {report.pages.map(page => (
+                <li key={page.url} className="flex gap-2">
+                  <span className="w-6 text-right text-gray-500">{page.rank}.</span>
+                  <a href={page.url} target="_blank" rel="noopener noreferrer" className="truncate text-gray-300 hover:underline" title={page.headings.join('\n')}>
+                    {page.title || page.url}
+                  </a>
+                  <span className="text-gray-500 whitespace-nowrap">{page.domain} · {STATUS_LABELS[page.status]}</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+
+          <details>
+            <summary className="cursor-pointer text-gray-400">AI notes</summary>
+            <p className="mt-2 text-sm text-gray-300">{result.competitorInsights}</p>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompetitorGapPanel;
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import {
+  BUILT_IN_PROFILES,
+  getCustomExtractionProfiles,
+  saveExtractionProfile,
+  deleteExtractionProfile,
+  type ExtractionProfile
+} from '../services/extractionProfiles';
+
+interface ExtractionProfilesPanelProps {
+  disabled?: boolean;
+}
+
+const EMPTY_FORM = {
+  label: '',
+  hostnames: '',
+  bodySelector: '',
+  stripSelectors: '',
+  titleSelector: '',
+  dateSelector: ''
+};
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const inputClassName = "w-full p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-emerald-500 focus:outline-none transition-all";
+
+/**
+ * Settings panel: lists built-in site profiles and lets the desk add their own
+ */
+const ExtractionProfilesPanel: React.FC<ExtractionProfilesPanelProps> = ({ disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [customProfiles, setCustomProfiles] = useState<ExtractionProfile[]>(() => getCustomExtractionProfiles());
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const updateForm = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = () => {
+    const hostnames = splitList(form.hostnames).map(host => host.replace(/^https?:\/\//, '').replace(/\/.*$/, ''));
+
+    if (!form.label.trim() || hostnames.length === 0 || !form.bodySelector.trim()) {
+      alert('⚠️ Please enter a name, at least one hostname and a body selector');
+      return;
+    }
+
+    try {
+      document.createDocumentFragment().querySelector(form.bodySelector);
+    } catch {
+      alert(`⚠️ "${form.bodySelector}" is not a valid CSS selector`);
+      return;
+    }
+
+    saveExtractionProfile({
+      id: `custom-${hostnames[0]}`,
+      label: form.label.trim(),
+      hostnames,
+      bodySelector: form.bodySelector.trim(),
+      stripSelectors: splitList(form.stripSelectors),
+      titleSelector: form.titleSelector.trim() || undefined,
+      dateSelector: form.dateSelector.trim() || undefined
+    });
+    setCustomProfiles(getCustomExtractionProfiles());
+    setForm(EMPTY_FORM);
+  };
+
+  const handleEdit = (profile: ExtractionProfile) => {
+    setForm({
+      label: profile.label,
+      hostnames: profile.hostnames.join(', '),
+      bodySelector: profile.bodySelector,
+      stripSelectors: profile.stripSelectors.join(', '),
+      titleSelector: profile.titleSelector || '',
+      dateSelector: profile.dateSelector || ''
+    });
+  };
+
+  const handleDelete = (profile: ExtractionProfile) => {
+    deleteExtractionProfile(profile.id);
+    setCustomProfiles(getCustomExtractionProfiles());
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-brand-card border border-emerald-500/50 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-sm font-medium text-emerald-300">
+          🧭 Site Extraction Profiles
+        </label>
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-xs text-emerald-400 hover:underline"
+        >
+          {isOpen ? 'Hide' : 'Configure'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-2">
+        Per-site CSS selectors used before the generic extractor, so "related stories" blocks stay out of the analysis.
+        <span className="ml-2 text-gray-500">{BUILT_IN_PROFILES.length} built-in, {customProfiles.length} custom</span>
+      </p>
+
+      {isOpen && (
+        <div className="space-y-3 mt-3">
+          <ul className="space-y-1 text-xs">
+            {[...customProfiles, ...BUILT_IN_PROFILES].map(profile => (
+              <li key={profile.id} className="flex items-center justify-between gap-2 p-2 bg-brand-bg border border-brand-border rounded-md">
+                <div className="min-w-0">
+                  <span className="font-semibold text-gray-200">{profile.label}</span>
+                  <span className="ml-2 text-gray-500">{profile.hostnames.join(', ')}</span>
+                  <div className="truncate text-gray-500 font-mono" title={profile.bodySelector}>{profile.bodySelector}</div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(profile)}
+                    className="text-emerald-400 hover:underline"
+                    disabled={disabled}
+                  >
+                    {profile.builtIn ? 'Copy' : 'Edit'}
+                  </button>
+                  {!profile.builtIn && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(profile)}
+                      className="text-red-400 hover:underline"
+                      disabled={disabled}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => updateForm('label', e.target.value)}
+              placeholder="Site name (e.g. Dhaka Tribune)"
+              className={inputClassName}
+              disabled={disabled}
+            />
+            <input
+              type="text"
+              value={form.hostnames}
+              onChange={(e) => updateForm('hostnames', e.target.value)}
+              placeholder="Hostnames (e.g. dhakatribune.com)"
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </div>
+          <input
+            type="text"
+            value={form.bodySelector}
+            onChange={(e) => updateForm('bodySelector', e.target.value)}
+            placeholder="Body selector (e.g. article .story-body)"
+            className={`${inputClassName} font-mono`}
+            disabled={disabled}
+          />
+          <input
+            type="text"
+            value={form.stripSelectors}
+            onChange={(e) => updateForm('stripSelectors', e.target.value)}
+            placeholder="Selectors to strip, comma-separated (e.g. .related, .ad)"
+            className={`${inputClassName} font-mono`}
+            disabled={disabled}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={form.titleSelector}
+              onChange={(e) => updateForm('titleSelector', e.target.value)}
+              placeholder="Title selector (optional)"
+              className={`${inputClassName} font-mono`}
+              disabled={disabled}
+            />
+            <input
+              type="text"
+              value={form.dateSelector}
+              onChange={(e) => updateForm('dateSelector', e.target.value)}
+              placeholder="Date selector (optional)"
+              className={`${inputClassName} font-mono`}
+              disabled={disabled}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="w-full text-xs bg-emerald-600 hover:bg-emerald-700 text-white py-2 px-3 rounded-md transition-colors"
+            disabled={disabled}
+          >
+            Save Profile
+          </button>
+          <p className="text-xs text-gray-500">
+            Custom profiles are stored locally and take priority over built-in ones for the same site.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionProfilesPanel;
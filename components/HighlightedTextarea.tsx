@@ -0,0 +1,66 @@
+import React, { useRef } from 'react';
+
+export interface TextHighlight {
+  start: number;
+  end: number;
+  className: string;
+  title?: string;
+}
+
+interface HighlightedTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  highlights: TextHighlight[];   // Sorted, non-overlapping character ranges
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// Shared by the textarea and the backdrop so wrapped lines line up exactly
+const TEXT_LAYOUT = "p-4 text-base leading-normal font-sans whitespace-pre-wrap break-words";
+
+/**
+ * Textarea with highlighted ranges - a backdrop with <mark>s is kept in sync
+ * behind a transparent textarea (textareas can't style parts of their text)
+ */
+const HighlightedTextarea: React.FC<HighlightedTextareaProps> = ({ value, onChange, highlights, placeholder, disabled }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach((highlight, index) => {
+    if (highlight.start < cursor || highlight.end > value.length) return;
+    parts.push(value.slice(cursor, highlight.start));
+    parts.push(
+      <mark key={index} className={`${highlight.className} text-transparent rounded-sm`}>
+        {value.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    cursor = highlight.end;
+  });
+  // Trailing newline keeps the last (empty) line the same height as in the textarea
+  parts.push(`${value.slice(cursor)}\n`);
+
+  return (
+    <div className="relative w-full bg-brand-bg border border-brand-border rounded-md focus-within:ring-2 focus-within:ring-brand-primary transition-all">
+      <div
+        ref={backdropRef}
+        aria-hidden="true"
+        className={`absolute inset-0 overflow-hidden text-transparent pointer-events-none ${TEXT_LAYOUT}`}
+      >
+        {parts}
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={`relative block w-full h-80 bg-transparent focus:outline-none resize-y ${TEXT_LAYOUT}`}
+      ></textarea>
+    </div>
+  );
+};
+
+export default HighlightedTextarea;
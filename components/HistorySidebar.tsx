@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import type { HistoryEntry } from '../types';
+import {
+  listHistoryEntries,
+  deleteHistoryEntry,
+  clearHistory,
+  searchHistoryEntries,
+  exportHistoryJson
+} from '../services/historyService';
+import { downloadTextFile } from '../services/exportService';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+  refreshKey: number;   // Bumped by the app after each saved analysis
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Slide-over panel listing saved analyses (newest first)
+ */
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose, onOpenEntry, refreshKey }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let active = true;
+    listHistoryEntries().then(loaded => {
+      if (active) setEntries(loaded);
+    });
+    return () => { active = false; };
+  }, [isOpen, refreshKey]);
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    await deleteHistoryEntry(entry.id);
+    setEntries(current => current.filter(existing => existing.id !== entry.id));
+  };
+
+  const handleClear = async () => {
+    if (!confirm(`Delete all ${entries.length} saved analyses? This cannot be undone.`)) return;
+    await clearHistory();
+    setEntries([]);
+  };
+
+  const handleExport = (selected: HistoryEntry[], filename: string) => {
+    downloadTextFile(filename, exportHistoryJson(selected), 'application/json');
+  };
+
+  if (!isOpen) return null;
+
+  const visible = searchHistoryEntries(entries, query);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose}></div>
+      <aside className="relative w-full max-w-md h-full bg-brand-card border-l border-brand-border shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-brand-border">
+          <h2 className="text-lg font-bold">🕘 History</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-sm"
+          >
+            Close ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-brand-border">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search title, URL or keyword..."
+            className="w-full p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all"
+          />
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-gray-400">
+              {visible.length === entries.length ? `${entries.length} saved` : `${visible.length} of ${entries.length}`}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => handleExport(visible, `keyword-history-${new Date().toISOString().slice(0, 10)}.json`)}
+                disabled={visible.length === 0}
+                className="bg-brand-secondary hover:bg-gray-500 text-white py-1 px-3 rounded-md transition-colors disabled:opacity-50"
+              >
+                Export JSON
+              </button>
+              <button
+                type="button"
+                onClick={handleClear}
+                disabled={entries.length === 0}
+                className="text-red-300 border border-red-700 hover:bg-red-900/50 py-1 px-3 rounded-md transition-colors disabled:opacity-50"
+              >
+                Clear All
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-4 space-y-2">
+          {visible.length === 0 && (
+            <li className="text-sm text-gray-500 text-center py-8">
+              {entries.length === 0 ? 'No saved analyses yet. Results are saved here automatically.' : 'No analyses match your search.'}
+            </li>
+          )}
+          {visible.map(entry => (
+            <li key={entry.id} className="p-3 bg-brand-bg border border-brand-border rounded-md text-xs">
+              <button
+                type="button"
+                onClick={() => onOpenEntry(entry)}
+                className="block w-full text-left"
+              >
+                <div className="font-semibold text-sm text-gray-200 truncate" title={entry.articleTitle}>{entry.articleTitle}</div>
+                {entry.articleUrl && <div className="truncate text-gray-500" title={entry.articleUrl}>{entry.articleUrl}</div>}
+                <div className="mt-1 text-gray-400">
+                  🎯 {entry.result.primary[0]?.term || '—'}
+                </div>
+              </button>
+              <div className="mt-2 flex items-center justify-between text-gray-500">
+                <span title={entry.model}>
+                  {formatDate(entry.createdAt)} • {entry.provider}{entry.useDeepAnalysis && ' • Deep'}
+                </span>
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() => handleExport([entry], `keyword-analysis-${entry.id}.json`)}
+                    className="text-brand-primary hover:underline"
+                  >
+                    Export
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(entry)}
+                    className="text-red-400 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -1,14 +1,32 @@
 import React, { useState, useCallback } from 'react';
 import type { Keyword } from '../types';
+import type { EnrichedCategory } from '../services/keywordPipeline';
+import { DATAFORSEO_MARKETS } from '../services/dataForSeoService';
 import { CopyIcon, CheckIcon, InfoIcon } from './icons';
 
+/**
+ * Edit callbacks - without them the card is read-only
+ * onAdd may throw (empty or duplicate term); the message is shown under the input
+ */
+export interface KeywordCardEditor {
+  category: EnrichedCategory;
+  onAdd: (term: string) => void;
+  onRemove: (term: string) => void;
+  onToggleLock: (term: string) => void;
+  onMoveHere: (term: string, from: EnrichedCategory) => void;
+}
+
 interface KeywordCardProps {
   title: string;
   keywords: Keyword[];
   color: string;
   tooltipText?: string;
+  editor?: KeywordCardEditor;
 }
 
+// Drag payload between cards: { term, from }
+const KEYWORD_DRAG_TYPE = 'application/x-keyword';
+
 const InfoTooltip: React.FC<{ text: string }> = ({ text }) => {
   return (
     <div className="group relative flex items-center">
@@ -21,7 +39,7 @@ const InfoTooltip: React.FC<{ text: string }> = ({ text }) => {
   );
 };
 
-const KeywordPill: React.FC<{ keyword: Keyword }> = ({ keyword }) => {
+const KeywordPill: React.FC<{ keyword: Keyword; editor?: KeywordCardEditor }> = ({ keyword, editor }) => {
   const [copied, setCopied] = useState(false);
   const MAX_LENGTH = 50;
   const isBilingual = keyword.termBangla && keyword.termEnglish;
@@ -39,13 +57,45 @@ const KeywordPill: React.FC<{ keyword: Keyword }> = ({ keyword }) => {
     setTimeout(() => setCopied(false), 2000);
   }, [keyword.term, keyword.termBangla, keyword.termEnglish, isBilingual]);
 
+  const handleDragStart = (e: React.DragEvent) => {
+    if (!editor) return;
+    e.dataTransfer.setData(KEYWORD_DRAG_TYPE, JSON.stringify({ term: keyword.term, from: editor.category }));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
   return (
-    <div className={`group relative flex items-center bg-brand-bg border ${isBilingual ? 'border-green-500/50' : 'border-brand-border'} rounded-full py-1.5 px-4 text-sm hover:border-brand-primary transition-colors duration-200`}>
+    <div
+      draggable={!!editor}
+      onDragStart={handleDragStart}
+      className={`group relative flex items-center bg-brand-bg border ${keyword.locked ? 'border-amber-400/70' : isBilingual ? 'border-green-500/50' : 'border-brand-border'} rounded-full py-1.5 px-4 text-sm hover:border-brand-primary transition-colors duration-200 ${editor ? 'cursor-grab' : ''}`}
+    >
+      {editor && (
+        <button
+          type="button"
+          onClick={() => editor.onToggleLock(keyword.term)}
+          className={`mr-2 text-xs ${keyword.locked ? 'opacity-100' : 'opacity-40 group-hover:opacity-100'} transition-opacity`}
+          title={keyword.locked ? 'Locked - kept when analyzing again (click to unlock)' : 'Lock - keep when analyzing again'}
+        >
+          {keyword.locked ? '🔒' : '🔓'}
+        </button>
+      )}
       <span style={isBilingual ? {fontFamily: "'SolaimanLipi', 'Kalpurush', 'Noto Sans Bengali', sans-serif"} : {}}>{displayText}</span>
       {isBilingual && <span className="ml-1 text-xs text-green-400">🇧🇩</span>}
+      {keyword.addedByEditor && <span className="ml-1 text-xs text-amber-300" title="Added by editor">✎</span>}
       <button onClick={handleCopy} className="ml-2 opacity-50 group-hover:opacity-100 transition-opacity">
         {copied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <CopyIcon className="w-4 h-4" />}
       </button>
+      {editor && (
+        <button
+          type="button"
+          onClick={() => editor.onRemove(keyword.term)}
+          className="ml-1 text-gray-500 hover:text-red-400 opacity-50 group-hover:opacity-100 transition-opacity"
+          title="Remove keyword"
+          aria-label={`Remove ${keyword.term}`}
+        >
+          ✕
+        </button>
+      )}
       <div className="absolute bottom-full mb-2 w-80 left-1/2 -translate-x-1/2 bg-brand-dark p-3 rounded-lg text-xs text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none shadow-lg z-10">
         {isBilingual && (
           <div className="mb-2 border-b border-green-500/30 pb-2">
@@ -67,11 +117,49 @@ const KeywordPill: React.FC<{ keyword: Keyword }> = ({ keyword }) => {
           {keyword.searchIntent && (
             <p className="text-xs"><strong>Search Intent:</strong> {keyword.searchIntent}</p>
           )}
-          {keyword.searchVolumeNumeric && (
-            <p className="text-xs"><strong>Search Volume:</strong> {keyword.searchVolumeNumeric.toLocaleString()}/month (Real Data 📊)</p>
+          {keyword.searchVolumeNumeric !== undefined && keyword.volumeSource === 'dataforseo' && (
+            <div className="text-xs">
+              <p><strong>Search Volume:</strong> {keyword.searchVolumeNumeric.toLocaleString()}/month (Real Data 📊)</p>
+              {keyword.marketVolumes && keyword.marketVolumes.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {keyword.marketVolumes.map(volume => (
+                    <li key={volume.market}>
+                      {DATAFORSEO_MARKETS[volume.market].flag} {DATAFORSEO_MARKETS[volume.market].label}: {volume.searchVolume.toLocaleString()}
+                      <span className="text-gray-500">
+                        {' '}({volume.lookups.map(lookup => `${lookup.language} ${lookup.searchVolume.toLocaleString()}`).join(' + ')}
+                        {volume.difficulty !== undefined && `, KD ${volume.difficulty}`}, ads competition {volume.competition})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          {keyword.searchVolumeNumeric !== undefined && keyword.volumeSource !== 'dataforseo' && (
+            <div className="text-xs">
+              <p>
+                <strong>Search Volume:</strong>{' '}
+                {keyword.searchVolumeRange
+                  ? `${keyword.searchVolumeRange.low.toLocaleString()}–${keyword.searchVolumeRange.high.toLocaleString()}`
+                  : `~${keyword.searchVolumeNumeric.toLocaleString()}`}
+                /month ({keyword.volumeSource === 'google-trends' ? 'Calibrated Google Trends estimate' : 'Heuristic estimate'})
+              </p>
+              {keyword.volumeInputs && keyword.volumeInputs.length > 0 && (
+                <p className="text-gray-500">Based on: {keyword.volumeInputs.join('; ')}</p>
+              )}
+            </div>
+          )}
+          {keyword.searchVolumeNumeric === undefined && keyword.searchVolume && (
+            <p className="text-xs"><strong>Search Volume:</strong> {keyword.searchVolume} ({keyword.volumeSource === 'ai-estimate' ? 'AI estimate' : 'Estimated'})</p>
           )}
-          {!keyword.searchVolumeNumeric && keyword.searchVolume && (
-            <p className="text-xs"><strong>Search Volume:</strong> {keyword.searchVolume} (Estimated)</p>
+          {keyword.trendsIndex && (
+            <p className="text-xs">
+              <strong>Google Trends index:</strong> {keyword.trendsIndex.score}
+              <span className="text-gray-500">
+                {' '}({keyword.trendsIndex.low}–{keyword.trendsIndex.high}, relative interest in Bangladesh
+                {keyword.trendsIndex.anchor && ` compared via "${keyword.trendsIndex.anchor}"`}, not a search count)
+              </span>
+            </p>
           )}
           {keyword.difficultyScore !== undefined && (
             <p className="text-xs">
@@ -98,8 +186,11 @@ const KeywordPill: React.FC<{ keyword: Keyword }> = ({ keyword }) => {
   );
 };
 
-export const KeywordCard: React.FC<KeywordCardProps> = ({ title, keywords, color, tooltipText }) => {
+export const KeywordCard: React.FC<KeywordCardProps> = ({ title, keywords, color, tooltipText, editor }) => {
   const [allCopied, setAllCopied] = useState(false);
+  const [newTerm, setNewTerm] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
   
   const handleCopyAll = useCallback(() => {
     const allTerms = keywords.map(k => k.term).join(', ');
@@ -108,12 +199,45 @@ export const KeywordCard: React.FC<KeywordCardProps> = ({ title, keywords, color
     setTimeout(() => setAllCopied(false), 2000);
   }, [keywords]);
 
-  if (!keywords || keywords.length === 0) {
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      editor!.onAdd(newTerm);
+      setNewTerm('');
+      setAddError(null);
+    } catch (err) {
+      setAddError(err instanceof Error ? err.message : 'Could not add keyword.');
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!editor || !e.dataTransfer.types.includes(KEYWORD_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragOver(false);
+    const payload = e.dataTransfer.getData(KEYWORD_DRAG_TYPE);
+    if (!editor || !payload) return;
+    e.preventDefault();
+    const { term, from } = JSON.parse(payload) as { term: string; from: EnrichedCategory };
+    if (from !== editor.category) editor.onMoveHere(term, from);
+  };
+
+  // Editable cards stay visible when empty so keywords can be added or dropped in
+  if (!editor && (!keywords || keywords.length === 0)) {
     return null;
   }
 
   return (
-    <div className="bg-brand-card border border-brand-border rounded-xl shadow-lg">
+    <div
+      className={`bg-brand-card border ${isDragOver ? 'border-brand-primary' : 'border-brand-border'} rounded-xl shadow-lg transition-colors`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
       <div className={`p-4 border-b border-brand-border flex justify-between items-center bg-brand-card`}>
         <div className="flex items-center gap-2">
           <h3 className={`text-lg font-bold ${color}`}>{title}</h3>
@@ -130,9 +254,32 @@ export const KeywordCard: React.FC<KeywordCardProps> = ({ title, keywords, color
       <div className="p-4">
         <div className="flex flex-wrap gap-3">
           {keywords.map((keyword, index) => (
-            <KeywordPill key={index} keyword={keyword} />
+            <KeywordPill key={`${keyword.term}-${index}`} keyword={keyword} editor={editor} />
           ))}
+          {editor && keywords.length === 0 && (
+            <p className="text-sm text-gray-500">No keywords - add one or drag one here.</p>
+          )}
         </div>
+        {editor && (
+          <form onSubmit={handleAdd} className="mt-4">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newTerm}
+                onChange={(e) => { setNewTerm(e.target.value); setAddError(null); }}
+                placeholder="Add a keyword..."
+                className="flex-1 p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none transition-all"
+              />
+              <button
+                type="submit"
+                className="text-xs font-semibold bg-brand-border hover:bg-gray-600 text-gray-300 py-1 px-3 rounded-md transition-colors"
+              >
+                + Add
+              </button>
+            </div>
+            {addError && <p className="mt-1 text-xs text-red-400">{addError}</p>}
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import type { KeywordResult } from '../types';
+import { analyzeKeywordCoverage, parseArticleStructure } from '../services/keywordCoverage';
+
+interface KeywordCoveragePanelProps {
+  articleContent: string;
+  result: KeywordResult;
+  highlight: boolean;
+  onHighlightChange: (highlight: boolean) => void;
+}
+
+const CATEGORIES = [
+  { key: 'primary', label: 'Focus' },
+  { key: 'secondary', label: 'Supporting' },
+  { key: 'longtail', label: 'Query' }
+] as const;
+
+const scoreColor = (score: number): string =>
+  score >= 70 ? 'text-green-400' : score >= 40 ? 'text-yellow-400' : 'text-red-400';
+
+const Tick: React.FC<{ on: boolean }> = ({ on }) => (
+  <span className={on ? 'text-green-400' : 'text-gray-600'}>{on ? '✓' : '✗'}</span>
+);
+
+/**
+ * Where each keyword appears in the draft (live - follows edits to the text)
+ */
+const KeywordCoveragePanel: React.FC<KeywordCoveragePanelProps> = ({ articleContent, result, highlight, onHighlightChange }) => {
+  const rows = useMemo(() => {
+    const article = parseArticleStructure(articleContent);
+    return CATEGORIES.flatMap(({ key, label }) =>
+      result[key].map(keyword => ({ label, coverage: analyzeKeywordCoverage(keyword, article) }))
+    );
+  }, [articleContent, result]);
+
+  const missing = rows.filter(row => row.coverage.exactCount + row.coverage.partialCount === 0).length;
+
+  return (
+    <details className="mt-3 bg-brand-card border border-brand-border rounded-lg p-3 text-xs">
+      <summary className="cursor-pointer font-semibold text-gray-300">
+        📍 Keyword coverage in this draft
+        {missing > 0 && <span className="ml-2 text-red-400">{missing} missing</span>}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <label className="flex items-center gap-2 text-gray-400">
+          <input type="checkbox" checked={highlight} onChange={() => onHighlightChange(!highlight)} />
+          Highlight keywords in the text
+          <span className="ml-2"><mark className="bg-green-500/30 text-gray-300 px-1 rounded-sm">exact</mark></span>
+          <span><mark className="bg-yellow-500/30 text-gray-300 px-1 rounded-sm">inflected</mark></span>
+        </label>
+
+        <div className="overflow-x-auto border border-brand-border rounded-lg">
+          <table className="w-full">
+            <thead className="bg-brand-bg text-gray-400">
+              <tr>
+                <th className="text-left p-2">Keyword</th>
+                <th className="p-2" title="Exact / inflected matches">Uses</th>
+                <th className="p-2">Title</th>
+                <th className="p-2" title="First paragraph">Intro</th>
+                <th className="p-2">Subheads</th>
+                <th className="p-2">Density</th>
+                <th className="p-2">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ label, coverage }, index) => (
+                <tr key={`${coverage.term}-${index}`} className="border-t border-brand-border text-center">
+                  <td className="p-2 text-left text-gray-200">
+                    <span className="text-gray-500 mr-1">{label}</span>{coverage.term}
+                  </td>
+                  <td className="p-2 text-gray-300">{coverage.exactCount} / {coverage.partialCount}</td>
+                  <td className="p-2"><Tick on={coverage.inTitle} /></td>
+                  <td className="p-2"><Tick on={coverage.inFirstParagraph} /></td>
+                  <td className="p-2"><Tick on={coverage.inSubheads} /></td>
+                  <td className="p-2 text-gray-300">{coverage.density}%</td>
+                  <td className={`p-2 font-semibold ${scoreColor(coverage.score)}`}>{coverage.score}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-gray-500">
+          Scores feed the article relevance factor of ranking confidence. Inflected forms (e.g. "বাজেটে" for "বাজেট") count as partial matches.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default KeywordCoveragePanel;
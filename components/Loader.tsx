@@ -9,7 +9,11 @@ const messages = [
   "Consulting SEO best practices...",
 ];
 
-const Loader: React.FC = () => {
+interface LoaderProps {
+  onCancel?: () => void;
+}
+
+const Loader: React.FC<LoaderProps> = ({ onCancel }) => {
   const [message, setMessage] = React.useState(messages[0]);
 
   React.useEffect(() => {
@@ -27,6 +31,15 @@ const Loader: React.FC = () => {
       <div className="w-12 h-12 border-4 border-brand-primary border-t-transparent rounded-full animate-spin"></div>
       <p className="text-lg font-semibold text-brand-light">Generating Insights</p>
       <p className="text-sm text-gray-400 transition-opacity duration-500">{message}</p>
+      {onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="mt-2 py-2 px-6 text-sm font-semibold text-red-300 border border-red-700 rounded-lg hover:bg-red-900/50 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { KeywordResult } from '../types';
+import { buildMarkupBundle, FAQ_ANSWER_PLACEHOLDER } from '../services/markupGenerator';
+import { CopyIcon, CheckIcon } from './icons';
+
+interface MarkupPanelProps {
+  result: KeywordResult;
+  articleUrl?: string;
+}
+
+const CodeBlock: React.FC<{ title: string; code: string }> = ({ title, code }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = useCallback(() => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [code]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-gray-400">{title}</p>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center gap-2 font-semibold bg-brand-border hover:bg-gray-600 text-gray-300 py-1 px-3 rounded-md transition-colors"
+        >
+          {copied ? <CheckIcon className="w-3.5 h-3.5" /> : <CopyIcon className="w-3.5 h-3.5" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 bg-brand-bg border border-brand-border rounded-md overflow-x-auto max-h-72 text-gray-300 font-mono whitespace-pre">
+        {code}
+      </pre>
+    </div>
+  );
+};
+
+/**
+ * Copyable <head> markup: meta/OG/Twitter/hreflang tags and JSON-LD
+ */
+const MarkupPanel: React.FC<MarkupPanelProps> = ({ result, articleUrl }) => {
+  const isBangla = result.detectedLanguage === 'bangla';
+  const pageUrl = result.articleMetadata?.canonicalUrl || articleUrl || '';
+  const [bnUrl, setBnUrl] = useState(isBangla ? pageUrl : '');
+  const [enUrl, setEnUrl] = useState(isBangla ? '' : pageUrl);
+
+  // A new result starts from its own URL again
+  useEffect(() => {
+    setBnUrl(isBangla ? pageUrl : '');
+    setEnUrl(isBangla ? '' : pageUrl);
+  }, [isBangla, pageUrl]);
+
+  const bundle = useMemo(
+    () => buildMarkupBundle(result, {
+      url: pageUrl || undefined,
+      bnUrl: bnUrl.trim() || undefined,
+      enUrl: enUrl.trim() || undefined
+    }),
+    [result, pageUrl, bnUrl, enUrl]
+  );
+
+  const allMarkup = [bundle.metaTagsHtml, bundle.newsArticleJsonLd, bundle.faqPageJsonLd].filter(Boolean).join('\n\n');
+
+  return (
+    <details className="bg-brand-card border border-teal-500/50 rounded-xl shadow-lg p-5">
+      <summary className="cursor-pointer text-sm font-bold text-teal-300">
+        🏷️ Meta Tags &amp; Structured Data (ready to paste)
+      </summary>
+
+      <div className="mt-4 space-y-4 text-xs">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            type="url"
+            value={bnUrl}
+            onChange={(e) => setBnUrl(e.target.value)}
+            placeholder="Bangla edition URL (hreflang bn)"
+            className="w-full p-2 bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none"
+          />
+          <input
+            type="url"
+            value={enUrl}
+            onChange={(e) => setEnUrl(e.target.value)}
+            placeholder="English edition URL (hreflang en)"
+            className="w-full p-2 bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none"
+          />
+        </div>
+
+        <CodeBlock title="Everything" code={allMarkup} />
+        <CodeBlock title="Meta, Open Graph, Twitter & hreflang tags" code={bundle.metaTagsHtml} />
+        <CodeBlock title="NewsArticle JSON-LD" code={bundle.newsArticleJsonLd} />
+        {bundle.faqPageJsonLd && (
+          <>
+            <CodeBlock title="FAQPage JSON-LD" code={bundle.faqPageJsonLd} />
+            <p className="text-amber-300">
+              ⚠️ Replace each "{FAQ_ANSWER_PLACEHOLDER}" with the answer as it appears in the article - Google ignores FAQ markup whose answers are not on the page.
+            </p>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default MarkupPanel;
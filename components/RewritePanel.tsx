@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { KeywordResult } from '../types';
+import type { KeywordProvider } from '../services/keywordProvider';
+import {
+  generateRewriteSuggestions,
+  getRewriteTargets,
+  applyRewrite,
+  type RewriteChange,
+  type RewriteSuggestions
+} from '../services/rewriteService';
+import { diffWords } from '../services/versionDiff';
+
+interface RewritePanelProps {
+  articleContent: string;          // Current draft - accepted suggestions are applied to it
+  result: KeywordResult;
+  provider: KeywordProvider;
+  useDeepAnalysis: boolean;
+  onApply: (updatedContent: string) => void;
+}
+
+const InlineDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="p-2 bg-brand-bg border border-brand-border rounded-md leading-relaxed">
+    {diffWords(before, after).map((part, index) => (
+      <span
+        key={index}
+        className={
+          part.type === 'added' ? 'bg-green-900/60 text-green-300' :
+          part.type === 'removed' ? 'bg-red-900/60 text-red-300 line-through' :
+          'text-gray-300'
+        }
+      >
+        {part.text}{' '}
+      </span>
+    ))}
+  </p>
+);
+
+const AcceptButton: React.FC<{ accepted: boolean; onClick: () => void }> = ({ accepted, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={accepted}
+    className="whitespace-nowrap font-semibold bg-emerald-600 hover:bg-emerald-700 text-white py-1 px-3 rounded-md transition-colors disabled:bg-brand-border disabled:text-green-400"
+  >
+    {accepted ? '✓ Applied' : 'Accept'}
+  </button>
+);
+
+/**
+ * Headline, intro and subhead rewrites for the draft, accepted one piece at a time
+ */
+const RewritePanel: React.FC<RewritePanelProps> = ({ articleContent, result, provider, useDeepAnalysis, onApply }) => {
+  const [suggestions, setSuggestions] = useState<RewriteSuggestions | null>(null);
+  const [accepted, setAccepted] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Suggestions belong to one analysis; a new one starts over (keyword edits don't)
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setSuggestions(null);
+    setAccepted([]);
+    setError(null);
+    setIsBusy(false);
+  }, [result.questionKeywords, result.metaTitle]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleGenerate = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const generated = await generateRewriteSuggestions(provider, articleContent, result, useDeepAnalysis, controller.signal);
+      setSuggestions(generated);
+      setAccepted([]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Rewrite suggestions failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not generate rewrite suggestions.');
+    } finally {
+      if (!controller.signal.aborted) setIsBusy(false);
+    }
+  };
+
+  const accept = (key: string, change: RewriteChange) => {
+    onApply(applyRewrite(articleContent, change));
+    // Only one headline can be in the draft at a time
+    setAccepted(current => [...current.filter(k => !(change.kind === 'headline' && k.startsWith('headline:'))), key]);
+  };
+
+  const current = getRewriteTargets(articleContent);
+
+  return (
+    <details className="bg-brand-card border border-emerald-500/50 rounded-xl shadow-lg p-5">
+      <summary className="cursor-pointer text-sm font-bold text-emerald-300">
+        ✍️ Rewrite Suggestions (headline, intro, subheads)
+      </summary>
+
+      <div className="mt-4 space-y-5 text-xs">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-gray-400">
+            A second {provider.label} call rewrites the draft around the focus keyword. Accepted pieces replace the text in the article box.
+          </p>
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={isBusy || !articleContent.trim()}
+            className="whitespace-nowrap bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+          >
+            {isBusy ? 'Writing...' : suggestions ? 'Regenerate' : 'Suggest rewrites'}
+          </button>
+        </div>
+
+        {error && <p className="text-red-400">{error}</p>}
+
+        {suggestions && (
+          <>
+            {suggestions.headlines.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-semibold text-gray-300">Headlines (scored as meta titles)</p>
+                {suggestions.headlines.map((headline, index) => (
+                  <div key={index} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`font-bold ${headline.score >= 80 ? 'text-green-400' : headline.score >= 50 ? 'text-yellow-400' : 'text-red-400'}`}>
+                        {headline.score}
+                      </span>
+                      <span className="text-gray-500">{headline.lint.width}/{headline.lint.maxWidth}px</span>
+                      <span className="flex-1 text-gray-500 truncate" title={headline.lint.issues.map(issue => issue.message).join('\n')}>
+                        {headline.lint.issues.map(issue => issue.message).join(' ')}
+                      </span>
+                      <AcceptButton
+                        accepted={accepted.includes(`headline:${index}`)}
+                        onClick={() => accept(`headline:${index}`, { kind: 'headline', text: headline.text })}
+                      />
+                    </div>
+                    <InlineDiff before={current.headline} after={headline.text} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {suggestions.intro && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="font-semibold text-gray-300">First paragraph</p>
+                  <AcceptButton accepted={accepted.includes('intro')} onClick={() => accept('intro', { kind: 'intro', text: suggestions.intro })} />
+                </div>
+                <InlineDiff before={current.intro} after={suggestions.intro} />
+              </div>
+            )}
+
+            {suggestions.subheads.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-semibold text-gray-300">Subheads (H2) from reader questions</p>
+                {suggestions.subheads.map((subhead, index) => (
+                  <div key={index} className="flex items-start justify-between gap-3 p-2 bg-brand-bg border border-brand-border rounded-md">
+                    <div>
+                      <p className="text-green-300 font-semibold">{subhead.heading}</p>
+                      <p className="text-gray-500">
+                        {subhead.question && <>Targets "{subhead.question}" · </>}before paragraph {subhead.beforeParagraph}
+                      </p>
+                    </div>
+                    <AcceptButton
+                      accepted={accepted.includes(`subhead:${index}`)}
+                      onClick={() => accept(`subhead:${index}`, { kind: 'subhead', subhead })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default RewritePanel;
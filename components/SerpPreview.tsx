@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { KeywordResult } from '../types';
+import { lintMetaText, SERP_LIMITS, type MetaLintResult } from '../services/metaLinter';
+
+interface SerpPreviewProps {
+  result: KeywordResult;
+  articleUrl?: string;
+}
+
+type Device = 'desktop' | 'mobile';
+
+interface Variant {
+  id: 'bn' | 'en';
+  label: string;
+  title: string;
+  description: string;
+}
+
+const BANGLA_FONT = "'SolaimanLipi', 'Kalpurush', 'Noto Sans Bengali', sans-serif";
+
+const SEVERITY_STYLES: Record<MetaLintResult['issues'][number]['severity'], string> = {
+  error: 'text-red-400',
+  warning: 'text-amber-300',
+  info: 'text-sky-300'
+};
+
+const SEVERITY_ICONS: Record<MetaLintResult['issues'][number]['severity'], string> = {
+  error: '⛔',
+  warning: '⚠️',
+  info: 'ℹ️'
+};
+
+const inputClassName = "w-full p-2 text-sm bg-brand-bg border border-brand-border rounded-md focus:ring-2 focus:ring-green-500 focus:outline-none transition-all";
+
+const buildVariants = (result: KeywordResult): Variant[] => {
+  const variants: Variant[] = [];
+  if (result.metaTitleBangla || result.metaDescriptionBangla) {
+    variants.push({ id: 'bn', label: '🇧🇩 Bangla', title: result.metaTitleBangla || '', description: result.metaDescriptionBangla || '' });
+  }
+  if (result.metaTitle || result.metaDescription) {
+    variants.push({ id: 'en', label: variants.length ? '🇬🇧 English' : 'Meta tags', title: result.metaTitle || '', description: result.metaDescription || '' });
+  }
+  return variants;
+};
+
+const breadcrumb = (url: string): { host: string; path: string } => {
+  try {
+    const parsed = new URL(url);
+    const segments = parsed.pathname.split('/').filter(Boolean).slice(0, 2);
+    return { host: parsed.hostname.replace(/^www\./, ''), path: segments.length ? ` › ${segments.join(' › ')}` : '' };
+  } catch {
+    return { host: 'thedailystar.net', path: '' };
+  }
+};
+
+const WidthBar: React.FC<{ lint: MetaLintResult }> = ({ lint }) => {
+  const percent = Math.min(100, Math.round((lint.width / lint.maxWidth) * 100));
+  const color = lint.truncated ? 'bg-red-500' : percent < 45 ? 'bg-amber-400' : 'bg-green-500';
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 h-1.5 bg-brand-bg rounded">
+        <div className={`h-1.5 rounded ${color}`} style={{ width: `${percent}%` }} />
+      </div>
+      <span className={`whitespace-nowrap ${lint.truncated ? 'text-red-400' : 'text-gray-400'}`}>
+        {lint.width} / {lint.maxWidth}px · {lint.text.length} chars
+      </span>
+    </div>
+  );
+};
+
+const IssueList: React.FC<{ lint: MetaLintResult }> = ({ lint }) => (
+  lint.issues.length === 0
+    ? <p className="text-green-400">✓ No issues</p>
+    : (
+      <ul className="space-y-0.5">
+        {lint.issues.map((issue, index) => (
+          <li key={index} className={SEVERITY_STYLES[issue.severity]}>{SEVERITY_ICONS[issue.severity]} {issue.message}</li>
+        ))}
+      </ul>
+    )
+);
+
+/**
+ * Google snippet preview with pixel-width linting of the meta title/description.
+ * Edits here are only for trying variants; copy the result into the CMS.
+ */
+const SerpPreview: React.FC<SerpPreviewProps> = ({ result, articleUrl }) => {
+  const [variants, setVariants] = useState<Variant[]>(() => buildVariants(result));
+  const [device, setDevice] = useState<Device>('desktop');
+
+  // New meta tags (a new result) start the preview over; keyword edits don't
+  useEffect(() => {
+    setVariants(buildVariants(result));
+  }, [result.metaTitle, result.metaDescription, result.metaTitleBangla, result.metaDescriptionBangla]);
+
+  const keyword = result.primary[0];
+  const keywords = useMemo(
+    () => [keyword?.term, keyword?.termBangla].filter((term): term is string => !!term),
+    [keyword]
+  );
+
+  const { host, path } = breadcrumb(result.articleMetadata?.canonicalUrl || articleUrl || '');
+  const siteName = result.articleMetadata?.siteName || 'The Daily Star';
+
+  const updateVariant = (id: Variant['id'], changes: Partial<Variant>) => {
+    setVariants(current => current.map(v => v.id === id ? { ...v, ...changes } : v));
+  };
+
+  if (variants.length === 0) return null;
+
+  return (
+    <details className="bg-brand-card border border-green-500/50 rounded-xl shadow-lg p-5" open>
+      <summary className="cursor-pointer text-sm font-bold text-green-400">
+        🔎 SERP Preview & Meta Lint
+      </summary>
+
+      <div className="mt-4 space-y-5 text-xs">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-400">
+            Focus keyword: <span className="text-gray-200">{keywords.join(' / ') || '—'}</span>
+          </span>
+          <div className="flex rounded-md overflow-hidden border border-brand-border">
+            {(['desktop', 'mobile'] as Device[]).map(d => (
+              <button
+                key={d}
+                type="button"
+                onClick={() => setDevice(d)}
+                className={`px-3 py-1 transition-colors ${device === d ? 'bg-green-600 text-white' : 'bg-brand-bg text-gray-400 hover:text-gray-200'}`}
+              >
+                {d === 'desktop' ? '🖥️ Desktop' : '📱 Mobile'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {variants.map(variant => {
+          const titleLint = lintMetaText('title', variant.title, keywords);
+          const descriptionLint = lintMetaText('description', variant.description, keywords);
+          const fontFamily = variant.id === 'bn' ? `Arial, ${BANGLA_FONT}` : 'Arial, sans-serif';
+
+          return (
+            <div key={variant.id} className="space-y-3">
+              <p className="font-semibold text-gray-300">{variant.label}</p>
+
+              {/* Google-style snippet */}
+              <div
+                className="bg-white rounded-lg p-4"
+                style={{ maxWidth: device === 'desktop' ? 652 : 360, fontFamily }}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="w-7 h-7 rounded-full bg-gray-200 flex items-center justify-center text-[10px] text-gray-600 font-bold">DS</span>
+                  <div className="leading-tight">
+                    <div className="text-[14px] text-[#202124]">{siteName}</div>
+                    <div className="text-[12px] text-[#4d5156]">{host}{path}</div>
+                  </div>
+                </div>
+                <div
+                  className="text-[#1a0dab] leading-snug"
+                  style={device === 'desktop'
+                    ? { fontSize: SERP_LIMITS.title.fontSize, whiteSpace: 'nowrap', overflow: 'hidden', maxWidth: SERP_LIMITS.title.maxWidth }
+                    : { fontSize: 18, display: '-webkit-box', WebkitLineClamp: 2, WebkitBoxOrient: 'vertical', overflow: 'hidden' }}
+                >
+                  {(device === 'desktop' ? titleLint.displayText : titleLint.text) || 'Untitled'}
+                </div>
+                <div
+                  className="text-[#4d5156] mt-1 leading-normal"
+                  style={device === 'desktop'
+                    ? { fontSize: SERP_LIMITS.description.fontSize }
+                    : { fontSize: 14, display: '-webkit-box', WebkitLineClamp: 3, WebkitBoxOrient: 'vertical', overflow: 'hidden' }}
+                >
+                  {device === 'desktop' ? descriptionLint.displayText : descriptionLint.text}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <input
+                  type="text"
+                  value={variant.title}
+                  onChange={(e) => updateVariant(variant.id, { title: e.target.value })}
+                  className={inputClassName}
+                  style={variant.id === 'bn' ? { fontFamily: BANGLA_FONT } : undefined}
+                  aria-label={`${variant.label} meta title`}
+                />
+                <WidthBar lint={titleLint} />
+                <IssueList lint={titleLint} />
+              </div>
+
+              <div className="space-y-1">
+                <textarea
+                  value={variant.description}
+                  onChange={(e) => updateVariant(variant.id, { description: e.target.value })}
+                  rows={2}
+                  className={inputClassName}
+                  style={variant.id === 'bn' ? { fontFamily: BANGLA_FONT } : undefined}
+                  aria-label={`${variant.label} meta description`}
+                />
+                <WidthBar lint={descriptionLint} />
+                <IssueList lint={descriptionLint} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
+
+export default SerpPreview;
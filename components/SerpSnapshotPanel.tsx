@@ -0,0 +1,99 @@
+import React from 'react';
+import type { Keyword } from '../types';
+import { DATAFORSEO_MARKETS } from '../services/dataForSeoService';
+
+interface SerpSnapshotPanelProps {
+  keywords: Keyword[];      // Focus keywords - only those with a snapshot are shown
+  siteDomain?: string;      // Highlighted in the results (e.g. thedailystar.net)
+}
+
+// Features a news article can win; other result types are listed as-is
+const FEATURE_LABELS: Record<string, string> = {
+  top_stories: '📰 Top Stories',
+  people_also_ask: '❓ People Also Ask',
+  featured_snippet: '⭐ Featured snippet',
+  video: '🎬 Video',
+  images: '🖼️ Images',
+  knowledge_graph: '📚 Knowledge panel',
+  twitter: '🐦 X/Twitter'
+};
+
+const isOwnDomain = (domain: string, siteDomain?: string): boolean =>
+  !!siteDomain && (domain === siteDomain || domain.endsWith(`.${siteDomain}`));
+
+/**
+ * Live Google results for the focus keywords: top 10 and SERP features (DataForSEO)
+ */
+const SerpSnapshotPanel: React.FC<SerpSnapshotPanelProps> = ({ keywords, siteDomain }) => {
+  const checked = keywords.filter(keyword => keyword.serp);
+  if (checked.length === 0) return null;
+
+  return (
+    <details className="bg-brand-card border border-cyan-500/50 rounded-xl shadow-lg p-5">
+      <summary className="cursor-pointer text-sm font-bold text-cyan-300">
+        🔎 Live SERP for focus keywords ({checked.length})
+      </summary>
+
+      <div className="mt-4 space-y-5 text-xs">
+        {checked.map(keyword => {
+          const serp = keyword.serp!;
+          const ownRank = serp.topResults.find(result => isOwnDomain(result.domain, siteDomain))?.rank;
+          return (
+            <div key={keyword.term} className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-gray-200">{keyword.term}</span>
+                <span className="text-gray-500">
+                  {DATAFORSEO_MARKETS[serp.market].flag} checked {new Date(serp.checkedAt).toLocaleString()}
+                </span>
+                <span className={ownRank ? 'text-green-400' : 'text-gray-500'}>
+                  {ownRank ? `Ranking #${ownRank}` : 'Not in top 10'}
+                </span>
+              </div>
+
+              {serp.features.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {serp.features.map(feature => (
+                    <span key={feature} className="bg-cyan-900/30 text-cyan-300 px-2 py-0.5 rounded-full border border-cyan-500/40">
+                      {FEATURE_LABELS[feature] || feature.replace(/_/g, ' ')}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <ol className="space-y-1">
+                {serp.topResults.map(result => (
+                  <li key={`${result.rank}-${result.url}`} className="flex gap-2">
+                    <span className="w-6 text-right text-gray-500">{result.rank}.</span>
+                    <a
+                      href={result.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={`truncate hover:underline ${isOwnDomain(result.domain, siteDomain) ? 'text-green-400 font-semibold' : 'text-gray-300'}`}
+                      title={result.url}
+                    >
+                      {result.title || result.url}
+                    </a>
+                    <span className="text-gray-500 whitespace-nowrap">{result.domain}</span>
+                  </li>
+                ))}
+              </ol>
+
+              {serp.topStories.length > 0 && (
+                <p className="text-gray-400">
+                  <strong>Top Stories:</strong> {serp.topStories.map(story => story.domain || story.title).join(', ')}
+                </p>
+              )}
+              {serp.peopleAlsoAsk.length > 0 && (
+                <p className="text-gray-400">
+                  <strong>People also ask:</strong> {serp.peopleAlsoAsk.join(' · ')}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
+
+export default SerpSnapshotPanel;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { HistoryEntry, KeywordResult } from '../types';
+import { listHistoryEntries } from '../services/historyService';
+import {
+  findRelatedVersions,
+  buildKeywordDriftReport,
+  type MetricChange,
+  type TextDiff
+} from '../services/versionDiff';
+
+interface VersionDiffPanelProps {
+  articleContent: string;
+  articleUrl?: string;
+  result: KeywordResult;
+  refreshKey: number;   // Bumped by the app after each saved analysis
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  primary: 'Focus',
+  secondary: 'Supporting',
+  longtail: 'Query Variations',
+  lsiKeywords: 'Semantic',
+  questionKeywords: 'Questions',
+  entities: 'Entities'
+};
+
+/**
+ * "+5" / "-3" with a colour; `higherIsBetter` flips the colours (e.g. difficulty)
+ */
+const Delta: React.FC<{ change: MetricChange; higherIsBetter?: boolean; suffix?: string }> = ({ change, higherIsBetter = true, suffix = '' }) => {
+  if (change.delta === undefined || change.delta === 0) return null;
+  const good = higherIsBetter ? change.delta > 0 : change.delta < 0;
+  return (
+    <span className={good ? 'text-green-400' : 'text-red-400'}>
+      {change.delta > 0 ? '+' : ''}{change.delta.toLocaleString()}{suffix}
+    </span>
+  );
+};
+
+const TextDiffView: React.FC<{ label: string; diff: TextDiff }> = ({ label, diff }) => (
+  <div>
+    <p className="text-gray-400 mb-1">{label} {!diff.changed && <span className="text-gray-500">(unchanged)</span>}</p>
+    {diff.changed && (
+      <p className="p-2 bg-brand-bg border border-brand-border rounded-md leading-relaxed">
+        {diff.parts.map((part, index) => (
+          <span
+            key={index}
+            className={
+              part.type === 'added' ? 'bg-green-900/60 text-green-300' :
+              part.type === 'removed' ? 'bg-red-900/60 text-red-300 line-through' :
+              'text-gray-300'
+            }
+          >
+            {part.text}{' '}
+          </span>
+        ))}
+      </p>
+    )}
+  </div>
+);
+
+/**
+ * Keyword drift between the result on screen and an earlier analysis of the same story
+ * Hidden when history has no other version of the article
+ */
+const VersionDiffPanel: React.FC<VersionDiffPanelProps> = ({ articleContent, articleUrl, result, refreshKey }) => {
+  const [versions, setVersions] = useState<HistoryEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+
+  useEffect(() => {
+    let active = true;
+    listHistoryEntries().then(entries => {
+      if (!active) return;
+      const related = findRelatedVersions({ articleContent, articleUrl, result }, entries);
+      setVersions(related);
+      setSelectedId(current => related.some(entry => entry.id === current) ? current : related[0]?.id || '');
+    });
+    return () => { active = false; };
+  }, [articleContent, articleUrl, result, refreshKey]);
+
+  const selected = versions.find(entry => entry.id === selectedId);
+  const report = useMemo(
+    () => selected ? buildKeywordDriftReport(selected, { articleContent, result }) : null,
+    [selected, articleContent, result]
+  );
+
+  if (!selected || !report) return null;
+
+  const totalAdded = report.categories.reduce((sum, category) => sum + category.added.length, 0);
+  const totalRemoved = report.categories.reduce((sum, category) => sum + category.removed.length, 0);
+
+  return (
+    <details className="bg-brand-card border border-indigo-500/50 rounded-xl shadow-lg p-5">
+      <summary className="cursor-pointer text-sm font-bold text-indigo-300">
+        🔀 Changes Since Previous Version: +{totalAdded} / -{totalRemoved} keywords
+        {report.overallConfidence.delta !== undefined && (
+          <span className="ml-2 font-normal">• Confidence <Delta change={report.overallConfidence} suffix="%" />{report.overallConfidence.delta === 0 && '±0%'}</span>
+        )}
+      </summary>
+
+      <div className="mt-4 space-y-4 text-xs">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <label className="text-gray-400">Compare with</label>
+          <select
+            value={selectedId}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="flex-1 p-2 bg-brand-bg border border-brand-border rounded-md"
+          >
+            {versions.map(entry => (
+              <option key={entry.id} value={entry.id}>
+                {new Date(entry.createdAt).toLocaleString()} • {entry.provider}{entry.useDeepAnalysis ? ' • Deep' : ''}
+              </option>
+            ))}
+          </select>
+          <span className="text-gray-500">Article text {Math.round(report.contentSimilarity * 100)}% the same</span>
+        </div>
+
+        <p className="text-gray-300">
+          Ranking confidence: {report.overallConfidence.before ?? '—'}% → {report.overallConfidence.after ?? '—'}%
+        </p>
+
+        <TextDiffView label="Meta title" diff={report.metaTitle} />
+        <TextDiffView label="Meta description" diff={report.metaDescription} />
+
+        {report.categories
+          .filter(category => category.added.length || category.removed.length || category.changed.length)
+          .map(category => (
+            <div key={category.category} className="border-t border-brand-border pt-3">
+              <p className="font-semibold text-gray-200 mb-2">
+                {CATEGORY_LABELS[category.category] || category.category}
+                <span className="ml-2 font-normal text-gray-500">{category.unchanged} unchanged</span>
+              </p>
+              <ul className="space-y-1">
+                {category.added.map(keyword => (
+                  <li key={`added-${keyword.term}`} className="text-green-300">+ {keyword.term}</li>
+                ))}
+                {category.removed.map(keyword => (
+                  <li key={`removed-${keyword.term}`} className="text-red-300 line-through">- {keyword.term}</li>
+                ))}
+                {category.changed.map(change => (
+                  <li key={`changed-${change.term}`} className="text-gray-300">
+                    ~ {change.previousTerm && <span className="text-gray-500">{change.previousTerm} → </span>}{change.term}
+                    <span className="ml-2 space-x-2">
+                      {change.difficulty.delta !== undefined && change.difficulty.delta !== 0 && (
+                        <span>difficulty <Delta change={change.difficulty} higherIsBetter={false} /></span>
+                      )}
+                      {change.volume.delta !== undefined && change.volume.delta !== 0 && (
+                        <span>volume <Delta change={change.volume} /></span>
+                      )}
+                      {change.confidence.delta !== undefined && change.confidence.delta !== 0 && (
+                        <span>confidence <Delta change={change.confidence} suffix="%" /></span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+      </div>
+    </details>
+  );
+};
+
+export default VersionDiffPanel;
@@ -0,0 +1,279 @@
+/**
+ * Article Fetch Proxy (self-hosted replacement for api.allorigins.win)
+ * - Domain allowlist (checked on every redirect hop)
+ * - Manual redirect handling
+ * - Charset decoding: always answers UTF-8, repairs pages that claim
+ *   windows-1252 / ISO-8859-1 but are really UTF-8 (common on Bangla sites)
+ * - In-memory response cache with TTL
+ *
+ * Plain ESM JavaScript so it runs both inside the Vite dev server
+ * (vite.config.ts) and standalone with `node server/proxyServer.js`.
+ *
+ * Request: GET <mount path>?url=<encoded article URL>
+ */
+
+export const DEFAULT_ALLOWLIST = [
+  'thedailystar.net',
+  'prothomalo.com',
+  'bdnews24.com',
+  'dhakatribune.com',
+  'tbsnews.net',
+  'banglanews24.com',
+  'jugantor.com',
+  'kalerkantho.com',
+  'samakal.com',
+  'newagebd.net',
+  'trends.google.com'   // Keyword popularity (services/googleTrendsService.ts)
+];
+
+const MAX_REDIRECTS = 5;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;   // 5 MB - article pages are far smaller
+const UPSTREAM_TIMEOUT_MS = 15000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; DailyStarKeywordStrategist/1.0; +https://www.thedailystar.net)';
+
+// Labels that are often sent for pages that are actually UTF-8
+const MISLABELED_CHARSETS = ['windows-1252', 'iso-8859-1', 'latin1', 'us-ascii', 'ascii', 'cp1252'];
+
+/**
+ * @typedef {Object} FetchProxyOptions
+ * @property {string[]} [allowlist]     Allowed domains (subdomains included)
+ * @property {number} [cacheTtlMs]      How long a response stays cached (default 10 minutes)
+ * @property {number} [maxCacheEntries] Oldest entries are evicted first (default 200)
+ * @property {string} [allowOrigin]     Access-Control-Allow-Origin value (default '*')
+ */
+
+/**
+ * Reads proxy options from environment variables
+ * FETCH_PROXY_ALLOWLIST (comma-separated), FETCH_PROXY_CACHE_TTL (seconds), FETCH_PROXY_ALLOW_ORIGIN
+ *
+ * @param {Record<string, string | undefined>} env
+ * @returns {FetchProxyOptions}
+ */
+export const readProxyOptionsFromEnv = (env) => ({
+  allowlist: env.FETCH_PROXY_ALLOWLIST
+    ? env.FETCH_PROXY_ALLOWLIST.split(',').map(domain => domain.trim()).filter(Boolean)
+    : DEFAULT_ALLOWLIST,
+  cacheTtlMs: env.FETCH_PROXY_CACHE_TTL ? Number(env.FETCH_PROXY_CACHE_TTL) * 1000 : undefined,
+  allowOrigin: env.FETCH_PROXY_ALLOW_ORIGIN || undefined
+});
+
+/**
+ * True when the URL is http(s) and its host is on the allowlist
+ *
+ * @param {URL} url
+ * @param {string[]} allowlist
+ */
+export const isAllowedUrl = (url, allowlist) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+  const host = url.hostname.toLowerCase();
+  return allowlist.some(domain => {
+    const target = domain.toLowerCase().replace(/^www\./, '');
+    return host === target || host.endsWith(`.${target}`);
+  });
+};
+
+/**
+ * Finds the charset declared in <meta charset> or <meta http-equiv="Content-Type">
+ *
+ * @param {Uint8Array} bytes
+ */
+const sniffMetaCharset = (bytes) => {
+  // Charset declarations must appear in the first 1024 bytes (HTML spec); read a bit more
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 4096));
+  const match = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w-]+)/i);
+  return match ? match[1].toLowerCase() : undefined;
+};
+
+/**
+ * Decodes an HTML body to a string, repairing mislabeled UTF-8
+ *
+ * @param {Uint8Array} bytes
+ * @param {string | null} contentType - Upstream Content-Type header
+ * @returns {{ text: string, charset: string }}
+ */
+export const decodeHtml = (bytes, contentType) => {
+  const headerCharset = contentType?.match(/charset\s*=\s*["']?([\w-]+)/i)?.[1]?.toLowerCase();
+  const declared = sniffMetaCharset(bytes) || headerCharset || 'utf-8';
+
+  if (MISLABELED_CHARSETS.includes(declared) || (headerCharset && MISLABELED_CHARSETS.includes(headerCharset))) {
+    try {
+      // Valid multi-byte UTF-8 almost never occurs in real Latin-1 text
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), charset: 'utf-8' };
+    } catch {
+      // Really is a single-byte page
+    }
+  }
+
+  try {
+    return { text: new TextDecoder(declared).decode(bytes), charset: declared };
+  } catch {
+    console.warn(`[fetch-proxy] Unknown charset "${declared}", decoding as UTF-8`);
+    return { text: new TextDecoder('utf-8').decode(bytes), charset: 'utf-8' };
+  }
+};
+
+/**
+ * Fetches a URL, following redirects manually so every hop is allowlist-checked
+ * Returns the controller of the final request so the body read can abort it
+ *
+ * @param {URL} url
+ * @param {string[]} allowlist
+ */
+const fetchUpstream = async (url, allowlist) => {
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const controller = new AbortController();
+    const response = await fetch(current, {
+      redirect: 'manual',
+      signal: AbortSignal.any([controller.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)]),
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'bn-BD,bn;q=0.9,en;q=0.8'
+      }
+    });
+
+    if (response.status >= 300 && response.status < 400 && response.headers.get('location')) {
+      const next = new URL(response.headers.get('location'), current);
+      if (!isAllowedUrl(next, allowlist)) {
+        throw Object.assign(new Error(`Redirect to ${next.hostname} is not on the allowlist`), { status: 403 });
+      }
+      current = next;
+      continue;
+    }
+
+    return { response, finalUrl: current, controller };
+  }
+
+  throw Object.assign(new Error(`Too many redirects (more than ${MAX_REDIRECTS})`), { status: 508 });
+};
+
+const tooLarge = () => Object.assign(new Error(`Upstream response is larger than ${MAX_BODY_BYTES} bytes`), { status: 413 });
+
+/**
+ * Reads the body with a size limit: a declared Content-Length over the limit is refused
+ * before reading, and the stream is aborted as soon as the bytes read pass it
+ *
+ * @param {Response} response
+ * @param {AbortController} controller  Controller of the upstream request
+ */
+const readBody = async (response, controller) => {
+  if (Number(response.headers.get('content-length')) > MAX_BODY_BYTES) {
+    controller.abort();
+    throw tooLarge();
+  }
+  if (!response.body) return new Uint8Array(0);
+
+  /** @type {Uint8Array[]} */
+  const chunks = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_BODY_BYTES) {
+      controller.abort();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const buffer = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer;
+};
+
+/**
+ * Creates a Connect/Node request handler for the proxy
+ *
+ * @param {FetchProxyOptions} [options]
+ * @returns {(req: import('http').IncomingMessage, res: import('http').ServerResponse) => Promise<void>}
+ */
+export const createFetchProxyHandler = (options = {}) => {
+  const allowlist = options.allowlist || DEFAULT_ALLOWLIST;
+  const cacheTtlMs = options.cacheTtlMs ?? 10 * 60 * 1000;
+  const maxCacheEntries = options.maxCacheEntries ?? 200;
+  const allowOrigin = options.allowOrigin || '*';
+
+  /** @type {Map<string, { body: string, status: number, finalUrl: string, charset: string, expires: number }>} */
+  const cache = new Map();
+
+  const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, {
+      'Access-Control-Allow-Origin': allowOrigin,
+      'Access-Control-Expose-Headers': 'X-Final-Url, X-Proxy-Cache, X-Source-Charset',
+      'Content-Type': 'text/plain; charset=utf-8',
+      ...headers
+    });
+    res.end(body);
+  };
+
+  return async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      send(res, 204, '', { 'Access-Control-Allow-Methods': 'GET', 'Access-Control-Allow-Headers': 'Accept' });
+      return;
+    }
+    if (req.method !== 'GET') {
+      send(res, 405, 'Only GET is supported');
+      return;
+    }
+
+    const target = new URL(req.url || '', 'http://localhost').searchParams.get('url');
+    let url;
+    try {
+      url = new URL(target || '');
+    } catch {
+      send(res, 400, 'Missing or invalid "url" parameter');
+      return;
+    }
+
+    if (!isAllowedUrl(url, allowlist)) {
+      console.warn(`[fetch-proxy] Blocked ${url.hostname} (not on allowlist)`);
+      send(res, 403, `${url.hostname} is not on the proxy allowlist`);
+      return;
+    }
+
+    const cacheKey = url.href;
+    const cached = cache.get(cacheKey);
+    if (cached && cached.expires > Date.now()) {
+      send(res, cached.status, cached.body, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'X-Final-Url': cached.finalUrl,
+        'X-Source-Charset': cached.charset,
+        'X-Proxy-Cache': 'HIT'
+      });
+      return;
+    }
+
+    try {
+      const { response, finalUrl, controller } = await fetchUpstream(url, allowlist);
+      const { text, charset } = decodeHtml(await readBody(response, controller), response.headers.get('content-type'));
+
+      // Only successful pages are cached - errors should be retried
+      if (response.ok) {
+        cache.delete(cacheKey);
+        cache.set(cacheKey, { body: text, status: response.status, finalUrl: finalUrl.href, charset, expires: Date.now() + cacheTtlMs });
+        if (cache.size > maxCacheEntries) {
+          cache.delete(cache.keys().next().value);
+        }
+      }
+
+      send(res, response.status, text, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'X-Final-Url': finalUrl.href,
+        'X-Source-Charset': charset,
+        'X-Proxy-Cache': 'MISS'
+      });
+    } catch (error) {
+      const status = error?.status || 502;
+      console.error(`[fetch-proxy] ${url.href} failed:`, error?.message || error);
+      send(res, status, `Upstream fetch failed: ${error?.message || 'unknown error'}`);
+    }
+  };
+};
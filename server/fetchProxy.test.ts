@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createFetchProxyHandler } from './fetchProxy.js';
+
+const MB = 1024 * 1024;
+
+const listen = (server: http.Server): Promise<string> =>
+  new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+
+describe('fetch proxy body limit', () => {
+  let upstreamUrl: string;
+  let proxyUrl: string;
+  let bytesSent = 0;          // By the chunked upstream, until the proxy hung up
+  let upstreamClosed: Promise<void>;
+  const servers: http.Server[] = [];
+
+  beforeAll(async () => {
+    const upstream = http.createServer((req, res) => {
+      if (req.url === '/small') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end('<p>Short page</p>');
+        return;
+      }
+      if (req.url === '/declared-large') {
+        // Headers only: a proxy that waited for the body would hang
+        res.writeHead(200, { 'Content-Type': 'text/html', 'Content-Length': String(50 * MB) });
+        res.flushHeaders();
+        return;
+      }
+      // Chunked, without Content-Length, for as long as the client reads
+      upstreamClosed = new Promise(resolve => res.on('close', resolve));
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      const chunk = Buffer.alloc(256 * 1024, 'a');
+      const pump = () => {
+        while (!res.destroyed && bytesSent < 50 * MB) {
+          bytesSent += chunk.length;
+          if (!res.write(chunk)) {
+            res.once('drain', pump);
+            return;
+          }
+        }
+        res.end();
+      };
+      pump();
+    });
+    const handler = createFetchProxyHandler({ allowlist: ['127.0.0.1'] });
+    const proxy = http.createServer((req, res) => { void handler(req, res); });
+    servers.push(upstream, proxy);
+    upstreamUrl = await listen(upstream);
+    proxyUrl = await listen(proxy);
+  });
+
+  afterAll(() => {
+    for (const server of servers) {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  const viaProxy = (path: string) => fetch(`${proxyUrl}/?url=${encodeURIComponent(upstreamUrl + path)}`);
+
+  it('passes pages under the limit through', async () => {
+    const response = await viaProxy('/small');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('<p>Short page</p>');
+  });
+
+  it('refuses a declared Content-Length over the limit without reading the body', async () => {
+    const response = await viaProxy('/declared-large');
+    expect(response.status).toBe(413);
+  });
+
+  it('stops reading a stream once it passes the limit and hangs up', async () => {
+    const response = await viaProxy('/stream');
+    expect(response.status).toBe(413);
+
+    await upstreamClosed;
+    expect(bytesSent).toBeLessThan(20 * MB);
+  });
+});
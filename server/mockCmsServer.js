@@ -0,0 +1,155 @@
+/**
+ * Mock CMS server for trying the CMS connectors without a real site
+ *
+ *   MOCK_CMS_PORT=8788 MOCK_CMS_WEBHOOK_SECRET=secret npm run mock-cms
+ *
+ * WordPress connector: site URL http://localhost:8788, any username/application password
+ *                      (only MOCK_CMS_PASSWORD when set - to try a rejected login)
+ * Webhook connector:   http://localhost:8788/webhook
+ *
+ * Implements the part of the WordPress REST API the connector uses (posts, tags,
+ * Yoast/RankMath meta) with in-memory data, and logs every write.
+ */
+
+import http from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const port = Number(process.env.MOCK_CMS_PORT) || 8788;
+const webhookSecret = process.env.MOCK_CMS_WEBHOOK_SECRET || '';
+const appPassword = process.env.MOCK_CMS_PASSWORD || '';
+
+/** @type {Map<number, { id: number, title: string, excerpt: string, meta: Record<string, string>, tags: number[] }>} */
+const posts = new Map([
+  [1, {
+    id: 1,
+    title: 'Metro rail fares to rise from next month',
+    excerpt: '',
+    meta: { _yoast_wpseo_title: 'Metro rail fare hike | The Daily Star', _yoast_wpseo_metadesc: '', _yoast_wpseo_focuskw: '' },
+    tags: [1]
+  }],
+  [2, { id: 2, title: 'Empty draft', excerpt: '', meta: {}, tags: [] }]
+]);
+
+/** @type {Map<number, { id: number, name: string }>} */
+const tags = new Map([[1, { id: 1, name: 'Dhaka' }]]);
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Signature-256',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Content-Type': 'application/json; charset=utf-8'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = async (req) => {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return { raw, json: raw ? JSON.parse(raw) : {} };
+};
+
+const toRestPost = (post) => ({
+  id: post.id,
+  link: `http://localhost:${port}/?p=${post.id}`,
+  title: { raw: post.title, rendered: post.title },
+  excerpt: { raw: post.excerpt, rendered: post.excerpt ? `<p>${post.excerpt}</p>` : '' },
+  meta: post.meta,
+  tags: post.tags
+});
+
+const acceptsPassword = (header) => {
+  if (!appPassword) return true;
+  const credentials = Buffer.from(header.slice('Basic '.length), 'base64').toString();
+  return credentials.slice(credentials.indexOf(':') + 1) === appPassword;
+};
+
+const verifySignature = (raw, header) => {
+  if (!webhookSecret) return true;
+  const expected = Buffer.from(`sha256=${createHmac('sha256', webhookSecret).update(raw).digest('hex')}`);
+  const received = Buffer.from(header || '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '', 'http://localhost');
+  const path = url.pathname;
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  try {
+    if (path === '/webhook' && req.method === 'POST') {
+      const { raw, json } = await readJson(req);
+      if (!verifySignature(raw, req.headers['x-signature-256'])) {
+        send(res, 401, { message: 'Invalid signature' });
+        return;
+      }
+      console.log('📨 Webhook received:', JSON.stringify(json, null, 2));
+      send(res, 200, { ok: true });
+      return;
+    }
+
+    if (!path.startsWith('/wp-json/wp/v2/')) {
+      send(res, 404, { message: 'Not found' });
+      return;
+    }
+    if (!req.headers.authorization?.startsWith('Basic ')) {
+      send(res, 401, { code: 'rest_not_logged_in', message: 'You are not currently logged in.' });
+      return;
+    }
+    if (!acceptsPassword(req.headers.authorization)) {
+      send(res, 401, { code: 'incorrect_password', message: 'The provided password is an invalid application password.' });
+      return;
+    }
+
+    const postMatch = path.match(/^\/wp-json\/wp\/v2\/posts\/(\d+)$/);
+    if (postMatch) {
+      const post = posts.get(Number(postMatch[1]));
+      if (!post) {
+        send(res, 404, { code: 'rest_post_invalid_id', message: 'Invalid post ID.' });
+        return;
+      }
+      if (req.method === 'POST') {
+        const { json } = await readJson(req);
+        if (typeof json.title === 'string') post.title = json.title;
+        if (typeof json.excerpt === 'string') post.excerpt = json.excerpt;
+        if (json.meta) Object.assign(post.meta, json.meta);
+        if (Array.isArray(json.tags)) post.tags = json.tags;
+        console.log(`✏️  Post ${post.id} updated:`, JSON.stringify(json));
+      }
+      send(res, 200, toRestPost(post));
+      return;
+    }
+
+    if (path === '/wp-json/wp/v2/tags') {
+      if (req.method === 'POST') {
+        const { json } = await readJson(req);
+        const tag = { id: tags.size + 1, name: String(json.name) };
+        tags.set(tag.id, tag);
+        console.log(`🏷️  Tag created: ${tag.name} (#${tag.id})`);
+        send(res, 201, tag);
+        return;
+      }
+      const search = url.searchParams.get('search')?.toLowerCase();
+      const include = url.searchParams.get('include')?.split(',').map(Number);
+      const matches = [...tags.values()].filter(tag =>
+        (!search || tag.name.toLowerCase().includes(search)) && (!include || include.includes(tag.id))
+      );
+      send(res, 200, matches);
+      return;
+    }
+
+    send(res, 404, { code: 'rest_no_route', message: 'No route was found matching the URL and request method.' });
+  } catch (error) {
+    send(res, 400, { message: error?.message || 'Bad request' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`✅ Mock CMS listening on http://localhost:${port}`);
+  console.log(`   WordPress site URL: http://localhost:${port} (posts 1 and 2)`);
+  console.log(`   Webhook URL:        http://localhost:${port}/webhook${webhookSecret ? ' (signature required)' : ''}`);
+});
@@ -0,0 +1,206 @@
+/**
+ * Mock DataForSEO API for trying the DataForSEO integration without a paid account
+ *
+ *   MOCK_DATAFORSEO_PORT=8789 MOCK_DATAFORSEO_RATE_LIMIT=12 npm run mock-dataforseo
+ *
+ * MOCK_DATAFORSEO_RATE_WINDOW_MS shortens the rate limit window (tests)
+ *
+ * In the app: any login/password, API URL http://localhost:8789
+ *
+ * Implements the endpoints the app uses, with the real response envelope:
+ * - keywords_data/google/search_volume/live (max 1000 keywords, 12 requests/window → status 40202)
+ * - dataforseo_labs/google/bulk_keyword_difficulty/live (no difficulty for Bangla, like a pair Labs doesn't cover)
+ * - serp/google/organic/live/advanced (top 10, Top Stories, People Also Ask, featured snippet)
+ * - appendix/user_data
+ * Numbers are derived from the keyword text, so the same keyword always gets the same answer.
+ */
+
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+
+const port = Number(process.env.MOCK_DATAFORSEO_PORT) || 8789;
+const rateLimit = Number(process.env.MOCK_DATAFORSEO_RATE_LIMIT) || 12;   // Search volume requests per window
+const rateWindowMs = Number(process.env.MOCK_DATAFORSEO_RATE_WINDOW_MS) || 60000;
+
+/** @type {number[]} */
+let searchVolumeRequests = [];
+
+const SERP_DOMAINS = [
+  'thedailystar.net', 'prothomalo.com', 'bdnews24.com', 'dhakatribune.com', 'tbsnews.net',
+  'en.wikipedia.org', 'newagebd.net', 'bbc.com', 'jugantor.com', 'youtube.com', 'facebook.com', 'kalerkantho.com'
+];
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Content-Type': 'application/json; charset=utf-8'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = async (req) => {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : [];
+};
+
+// Stable pseudo-random number in [0, 1) for a text
+const hashUnit = (text) => createHash('sha256').update(text.toLowerCase()).digest().readUInt32BE(0) / 2 ** 32;
+
+const isBangla = (text) => /[\u0980-\u09FF]/.test(text);
+
+const envelope = (path, task, result, taskStatus = { code: 20000, message: 'Ok.' }) => ({
+  version: '0.1.mock',
+  status_code: 20000,
+  status_message: 'Ok.',
+  tasks_count: 1,
+  tasks_error: taskStatus.code === 20000 ? 0 : 1,
+  tasks: [{
+    id: createHash('md5').update(JSON.stringify(task)).digest('hex'),
+    status_code: taskStatus.code,
+    status_message: taskStatus.message,
+    path: path.split('/').filter(Boolean),
+    data: task,
+    result_count: result ? result.length : 0,
+    result
+  }]
+});
+
+const searchVolumeItem = (keyword, task) => {
+  const unit = hashUnit(`${keyword}|${task.location_code}|${task.language_code}`);
+  const words = keyword.trim().split(/\s+/).length;
+  const searchVolume = Math.round((unit * 20000) / words / 10) * 10;
+  return {
+    keyword,
+    location_code: task.location_code,
+    language_code: task.language_code,
+    search_partners: false,
+    competition: Math.round(hashUnit(`competition|${keyword}`) * 100) / 100,
+    competition_level: 'MEDIUM',
+    cpc: Math.round(hashUnit(`cpc|${keyword}`) * 50) / 100,
+    search_volume: searchVolume,
+    monthly_searches: Array.from({ length: 12 }, (_, index) => ({
+      year: 2025,
+      month: index + 1,
+      search_volume: Math.round(searchVolume * (0.8 + 0.4 * hashUnit(`${keyword}|${index}`)))
+    }))
+  };
+};
+
+const serpResult = (task) => {
+  const keyword = String(task.keyword || '');
+  const offset = Math.floor(hashUnit(keyword) * SERP_DOMAINS.length);
+  const domains = Array.from({ length: 10 }, (_, index) => SERP_DOMAINS[(offset + index) % SERP_DOMAINS.length]);
+  const slug = encodeURIComponent(keyword.toLowerCase().replace(/\s+/g, '-'));
+
+  const items = [
+    { type: 'featured_snippet', rank_group: 1, rank_absolute: 1, domain: domains[0], title: `${keyword} - explained`, url: `https://${domains[0]}/explainer/${slug}` },
+    {
+      type: 'top_stories', rank_group: 1, rank_absolute: 2,
+      items: domains.slice(0, 3).map((domain, index) => ({ type: 'top_stories_element', domain, title: `${keyword}: latest update ${index + 1}`, url: `https://${domain}/news/${slug}-${index + 1}` }))
+    },
+    ...domains.map((domain, index) => ({
+      type: 'organic', rank_group: index + 1, rank_absolute: index + 3, domain,
+      title: `${keyword} | ${domain}`, url: `https://${domain}/${index % 2 ? 'news' : 'business'}/${slug}`,
+      description: `Everything about ${keyword}.`
+    })),
+    {
+      type: 'people_also_ask', rank_group: 1, rank_absolute: 13,
+      items: ['What is', 'Why is', 'When will'].map(prefix => ({ type: 'people_also_ask_element', title: `${prefix} ${keyword}?` }))
+    }
+  ];
+
+  return [{
+    keyword,
+    type: 'organic',
+    se_domain: 'google.com',
+    location_code: task.location_code,
+    language_code: task.language_code,
+    check_url: `https://www.google.com/search?q=${encodeURIComponent(keyword)}`,
+    datetime: new Date().toISOString(),
+    item_types: [...new Set(items.map(item => item.type))],
+    items_count: items.length,
+    items
+  }];
+};
+
+const server = http.createServer(async (req, res) => {
+  const path = new URL(req.url || '', 'http://localhost').pathname;
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+  if (!req.headers.authorization?.startsWith('Basic ')) {
+    send(res, 401, { status_code: 40100, status_message: 'You are not authorized to access this resource.' });
+    return;
+  }
+
+  try {
+    if (path === '/v3/appendix/user_data' && req.method === 'GET') {
+      send(res, 200, envelope(path, {}, [{ login: 'mock', money: { balance: 42 } }]));
+      return;
+    }
+    if (req.method !== 'POST') {
+      send(res, 404, { status_code: 40400, status_message: 'Not Found.' });
+      return;
+    }
+
+    const [task = {}] = await readJson(req);
+
+    if (path === '/v3/keywords_data/google/search_volume/live') {
+      const now = Date.now();
+      searchVolumeRequests = searchVolumeRequests.filter(time => now - time < rateWindowMs);
+      if (searchVolumeRequests.length >= rateLimit) {
+        console.log('⏳ Search volume rate limit hit');
+        send(res, 200, { ...envelope(path, task, null), status_code: 40202, status_message: 'Rate limit per minute exceeded.' });
+        return;
+      }
+      searchVolumeRequests.push(now);
+
+      const keywords = Array.isArray(task.keywords) ? task.keywords : [];
+      if (keywords.length === 0 || keywords.length > 1000) {
+        send(res, 200, envelope(path, task, null, { code: 40501, message: 'Invalid Field: \'keywords\'. Send 1-1000 keywords.' }));
+        return;
+      }
+      console.log(`📊 Search volume: ${keywords.length} keywords (${task.location_code}/${task.language_code})`);
+      send(res, 200, envelope(path, task, keywords.map(keyword => searchVolumeItem(keyword, task))));
+      return;
+    }
+
+    if (path === '/v3/dataforseo_labs/google/bulk_keyword_difficulty/live') {
+      const keywords = Array.isArray(task.keywords) ? task.keywords : [];
+      console.log(`📈 Keyword difficulty: ${keywords.length} keywords (${task.location_code}/${task.language_code})`);
+      send(res, 200, envelope(path, task, [{
+        se_type: 'google',
+        location_code: task.location_code,
+        language_code: task.language_code,
+        total_count: keywords.length,
+        items_count: keywords.length,
+        items: keywords.map(keyword => ({
+          se_type: 'google',
+          keyword,
+          keyword_difficulty: isBangla(keyword) ? null : Math.round(hashUnit(`kd|${keyword}`) * 100)
+        }))
+      }]));
+      return;
+    }
+
+    if (path === '/v3/serp/google/organic/live/advanced') {
+      console.log(`🔎 SERP: "${task.keyword}" (${task.location_code}/${task.language_code})`);
+      send(res, 200, envelope(path, task, serpResult(task)));
+      return;
+    }
+
+    send(res, 404, { status_code: 40400, status_message: 'Not Found.' });
+  } catch (error) {
+    send(res, 400, { status_code: 40000, status_message: error?.message || 'Bad request' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`✅ Mock DataForSEO listening on http://localhost:${port}`);
+  console.log(`   Search volume limit: ${rateLimit} requests per ${rateWindowMs / 1000}s`);
+});
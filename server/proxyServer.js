@@ -0,0 +1,36 @@
+/**
+ * Standalone fetch proxy server
+ *
+ *   FETCH_PROXY_PORT=8787 FETCH_PROXY_ALLOWLIST=thedailystar.net,prothomalo.com npm run proxy
+ *
+ * Then set the app's "Fetch Proxy URL" to http://<host>:8787/proxy
+ */
+
+import http from 'node:http';
+import { createFetchProxyHandler, readProxyOptionsFromEnv } from './fetchProxy.js';
+
+const port = Number(process.env.FETCH_PROXY_PORT) || 8787;
+const options = readProxyOptionsFromEnv(process.env);
+const handleProxy = createFetchProxyHandler(options);
+
+const server = http.createServer((req, res) => {
+  const path = new URL(req.url || '', 'http://localhost').pathname;
+
+  if (path === '/proxy') {
+    handleProxy(req, res);
+    return;
+  }
+  if (path === '/health') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end('ok');
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/plain' });
+  res.end('Not found - use /proxy?url=<article URL>');
+});
+
+server.listen(port, () => {
+  console.log(`✅ Fetch proxy listening on http://localhost:${port}/proxy`);
+  console.log(`   Allowed domains: ${options.allowlist.join(', ')}`);
+});
@@ -0,0 +1,7 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Reads a saved response from services/__fixtures__ (path relative to this folder)
+ */
+export const loadFixture = (path: string): string => readFileSync(join(__dirname, path), 'utf8');
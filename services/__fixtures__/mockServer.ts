@@ -0,0 +1,44 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { createServer } from 'node:net';
+import { join } from 'node:path';
+
+export interface MockServer {
+  url: string;
+  process: ChildProcess;
+}
+
+const freePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as { port: number };
+      probe.close(() => resolve(port));
+    });
+  });
+
+/**
+ * Starts one of the mock servers in server/ on a free port (path relative to server/)
+ * Resolves once it logs that it is listening; stop it with `process.kill()`
+ *
+ * @param portVariable - Environment variable the script reads its port from
+ */
+export const startMockServer = async (
+  script: string,
+  portVariable: string,
+  env: Record<string, string> = {}
+): Promise<MockServer> => {
+  const port = await freePort();
+  const child = spawn(process.execPath, [join(__dirname, '../../server', script)], {
+    env: { ...process.env, [portVariable]: String(port), ...env },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  await new Promise<void>((resolve, reject) => {
+    child.once('exit', code => reject(new Error(`${script} exited (${code})`)));
+    child.stdout!.on('data', (data: Buffer) => {
+      if (data.toString().includes('listening')) resolve();
+    });
+  });
+  child.stdout!.resume();
+  return { url: `http://127.0.0.1:${port}`, process: child };
+};
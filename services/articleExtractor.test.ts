@@ -0,0 +1,114 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { extractArticle, fetchArticle } from './articleExtractor';
+import { loadFixture } from './__fixtures__/loadFixture';
+
+const article = (name: string) => loadFixture(`articles/${name}.html`);
+
+// Fetch through the proxy: answers by target URL, 404 for anything else
+const stubPages = (pages: Record<string, string>) => {
+  const requested: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (proxyUrl: string) => {
+    const target = decodeURIComponent(proxyUrl.split('url=')[1]);
+    requested.push(target);
+    return target in pages
+      ? new Response(pages[target], { status: 200, headers: { 'Content-Type': 'text/html' } })
+      : new Response('Not found', { status: 404 });
+  }));
+  return requested;
+};
+
+describe('extractArticle', () => {
+  it('prefers the JSON-LD articleBody and reads metadata from an @graph', () => {
+    const result = extractArticle(article('jsonld'), 'https://businesspost.example/economy/padma-toll');
+
+    expect(result.method).toBe('json-ld');
+    expect(result.title).toBe('Padma Bridge toll collection crosses Tk 2,500 crore');
+    expect(result.body.startsWith('Toll collection from the Padma Bridge has crossed Tk 2,500 crore since')).toBe(true);
+    expect(result.body).toContain('a request the authority said it would review next year');
+    expect(result.body).not.toContain('Subscribe to our newsletter');
+    expect(result.metadata).toMatchObject({
+      description: 'Toll revenue from the Padma Bridge passed Tk 2,500 crore two years after opening.',
+      publishedTime: '2026-10-18T09:30:00+06:00',
+      modifiedTime: '2026-10-18T12:00:00+06:00',
+      author: 'Staff Correspondent',
+      section: 'Economy',
+      siteName: 'Business Post'
+    });
+  });
+
+  it('reads Open Graph and article:* metadata and resolves the canonical link', () => {
+    const result = extractArticle(article('opengraph'), 'https://dhakaledger.example/markets/onion-prices-fall?utm_source=fb');
+
+    expect(result.metadata).toMatchObject({
+      title: 'Onion prices fall as Indian shipments resume',
+      description: 'Retail onion prices in Dhaka dropped by a third within a week.',
+      publishedTime: '2026-10-17T08:00:00+06:00',
+      modifiedTime: '2026-10-17T15:45:00+06:00',
+      author: 'Markets Desk',
+      section: 'Markets',
+      siteName: 'Dhaka Ledger',
+      image: 'https://dhakaledger.example/media/onion.jpg',
+      canonicalUrl: 'https://dhakaledger.example/markets/onion-prices-fall'
+    });
+    expect(result.method).toBe('heuristic');
+    expect(result.body).toContain('Consumer groups urged the commerce ministry');
+    for (const text of ['Share on Facebook', 'Most read', 'All rights reserved']) {
+      expect(result.body).not.toContain(text);
+    }
+  });
+
+  it('finds the story by content scoring when the page has no structured data', () => {
+    const result = extractArticle(article('heuristic'), 'https://ctgnews.example/health/dengue');
+
+    expect(result.method).toBe('heuristic');
+    expect(result.title).toBe('Dengue cases rise in Chattogram');
+    expect(result.body.startsWith('Hospitals in Chattogram admitted 312 dengue patients')).toBe(true);
+    expect(result.body).toContain('other containers around their homes');
+    for (const text of ['Related posts', 'Mosquito repellent sales', 'Reader comment', 'Home']) {
+      expect(result.body).not.toContain(text);
+    }
+  });
+});
+
+describe('fetchArticle', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('follows the AMP version of a thin page and keeps the canonical metadata', async () => {
+    const requested = stubPages({
+      'https://roadreport.example/transport/bus-fare-chart': article('amp-canonical'),
+      'https://roadreport.example/amp/transport/bus-fare-chart': article('amp')
+    });
+
+    const result = await fetchArticle('https://roadreport.example/transport/bus-fare-chart');
+
+    expect(requested).toEqual([
+      'https://roadreport.example/transport/bus-fare-chart',
+      'https://roadreport.example/amp/transport/bus-fare-chart'
+    ]);
+    expect(result.fromAmp).toBe(true);
+    expect(result.body).toContain('Dhaka to Rajshahi fare rises to Tk 710');
+    expect(result.metadata).toMatchObject({
+      publishedTime: '2026-10-16T11:00:00+06:00',
+      section: 'Transport',
+      canonicalUrl: 'https://roadreport.example/transport/bus-fare-chart'
+    });
+    expect(result.content.startsWith('New fare chart for long-distance buses\n\n')).toBe(true);
+  });
+
+  it('rejects a page without enough article text', async () => {
+    stubPages({ 'https://paywall.example/story': article('short') });
+    await expect(fetchArticle('https://paywall.example/story')).rejects.toThrow('Article content is too short');
+  });
+
+  it('rejects an invalid URL before fetching anything', async () => {
+    const requested = stubPages({});
+    await expect(fetchArticle('not a url')).rejects.toThrow('Invalid URL format');
+    expect(requested).toEqual([]);
+  });
+
+  it('reports a page that could not be fetched', async () => {
+    stubPages({});
+    await expect(fetchArticle('https://gone.example/story')).rejects.toThrow('Status 404');
+  });
+});
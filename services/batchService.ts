@@ -0,0 +1,203 @@
+/**
+ * Batch Analysis Service
+ * - Parses a URL list, a pasted RSS/Atom feed or a (news) sitemap XML
+ * - Runs items through a queue with a concurrency limit
+ * - Combines finished results into one JSON or CSV export
+ *
+ * The per-item work (fetch → extract → generate) is supplied by the caller,
+ * so batch mode runs exactly the same pipeline as a single article.
+ */
+
+import type { BatchItem } from '../types';
+import { KEYWORD_CSV_COLUMNS, keywordCsvRows, toCsv } from './exportService';
+
+export type BatchSource = 'urls' | 'rss' | 'atom' | 'sitemap';
+
+export interface BatchEntry {
+  url: string;
+  title?: string;
+}
+
+export const MAX_BATCH_SIZE = 100;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/**
+ * Get batch concurrency limit from localStorage
+ */
+export const getBatchConcurrency = (): number => {
+  try {
+    const stored = Number(localStorage.getItem('batch_concurrency'));
+    return stored >= 1 ? stored : DEFAULT_BATCH_CONCURRENCY;
+  } catch (error) {
+    console.warn('Batch concurrency not available:', error);
+    return DEFAULT_BATCH_CONCURRENCY;
+  }
+};
+
+/**
+ * Save batch concurrency limit
+ */
+export const saveBatchConcurrency = (concurrency: number): void => {
+  try {
+    localStorage.setItem('batch_concurrency', String(concurrency));
+  } catch (error) {
+    console.error('Failed to save batch concurrency:', error);
+  }
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const textOf = (parent: Element, tagName: string): string | undefined =>
+  parent.getElementsByTagName(tagName)[0]?.textContent?.trim() || undefined;
+
+/**
+ * Reads article URLs (and titles when available) from feed or sitemap XML
+ */
+const parseXmlEntries = (xml: string): { source: BatchSource; entries: BatchEntry[] } => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The pasted XML could not be parsed. Check that the whole feed or sitemap was copied.');
+  }
+
+  const root = doc.documentElement.localName;
+
+  if (root === 'sitemapindex') {
+    throw new Error('This is a sitemap index. Paste one of the sitemaps it lists (e.g. the news sitemap) instead.');
+  }
+
+  if (root === 'urlset') {
+    // Standard and Google News sitemaps: <url><loc/><news:news><news:title/></news:news></url>
+    const entries = Array.from(doc.getElementsByTagName('url')).map(node => ({
+      url: textOf(node, 'loc') || '',
+      title: textOf(node, 'news:title')
+    }));
+    return { source: 'sitemap', entries };
+  }
+
+  if (root === 'feed') {
+    // Atom: <entry><title/><link rel="alternate" href=""/></entry>
+    const entries = Array.from(doc.getElementsByTagName('entry')).map(node => {
+      const links = Array.from(node.getElementsByTagName('link'));
+      const link = links.find(l => (l.getAttribute('rel') || 'alternate') === 'alternate') || links[0];
+      return { url: link?.getAttribute('href')?.trim() || '', title: textOf(node, 'title') };
+    });
+    return { source: 'atom', entries };
+  }
+
+  // RSS 2.0 / RDF: <item><title/><link/></item>
+  const entries = Array.from(doc.getElementsByTagName('item')).map(node => ({
+    url: textOf(node, 'link') || textOf(node, 'guid') || '',
+    title: textOf(node, 'title')
+  }));
+  return { source: 'rss', entries };
+};
+
+/**
+ * Detects the input format and returns the article URLs to analyze
+ * Invalid and duplicate URLs are skipped; the list is capped at MAX_BATCH_SIZE
+ *
+ * @param input - One URL per line, or pasted RSS/Atom/sitemap XML
+ */
+export const parseBatchInput = (input: string): { source: BatchSource; entries: BatchEntry[]; skipped: number } => {
+  const trimmed = input.trim();
+
+  const parsed: { source: BatchSource; entries: BatchEntry[] } = trimmed.startsWith('<')
+    ? parseXmlEntries(trimmed)
+    : {
+        source: 'urls',
+        entries: trimmed.split(/[\s,]+/).filter(Boolean).map(url => ({ url }))
+      };
+
+  const seen = new Set<string>();
+  const entries = parsed.entries.filter(entry => {
+    if (!isHttpUrl(entry.url) || seen.has(entry.url)) return false;
+    seen.add(entry.url);
+    return true;
+  });
+
+  if (entries.length > MAX_BATCH_SIZE) {
+    console.warn(`⚠️ Batch limited to ${MAX_BATCH_SIZE} of ${entries.length} URLs`);
+  }
+
+  return {
+    source: parsed.source,
+    entries: entries.slice(0, MAX_BATCH_SIZE),
+    skipped: parsed.entries.length - entries.length
+  };
+};
+
+/**
+ * Creates queued batch items from parsed entries
+ */
+export const createBatchItems = (entries: BatchEntry[]): BatchItem[] =>
+  entries.map((entry, index) => ({
+    id: `${Date.now()}-${index}`,
+    url: entry.url,
+    title: entry.title,
+    status: 'queued'
+  }));
+
+/**
+ * Runs `worker` over the items with at most `concurrency` running at once.
+ * After the signal is aborted no new items are started; running items are
+ * expected to stop through the same signal.
+ */
+export const runBatchQueue = async (
+  items: BatchItem[],
+  concurrency: number,
+  worker: (item: BatchItem, signal: AbortSignal) => Promise<void>,
+  signal: AbortSignal
+): Promise<void> => {
+  let next = 0;
+
+  const runLane = async () => {
+    while (next < items.length && !signal.aborted) {
+      const item = items[next++];
+      await worker(item, signal);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, runLane));
+};
+
+/**
+ * Combined JSON export of all finished items
+ */
+export const buildBatchJson = (items: BatchItem[]): string =>
+  JSON.stringify(
+    items
+      .filter(item => item.status === 'done' && item.result)
+      .map(item => ({ url: item.url, title: item.title, result: item.result })),
+    null,
+    2
+  );
+
+/**
+ * Combined CSV export - one row per keyword with the article columns in front,
+ * UTF-8 BOM so Excel shows Bangla correctly
+ */
+export const buildBatchCsv = (items: BatchItem[]): string => {
+  const rows: Array<Array<string | number | undefined>> = [
+    ['url', 'title', 'contentType', 'metaTitle', ...KEYWORD_CSV_COLUMNS]
+  ];
+
+  for (const item of items) {
+    if (item.status !== 'done' || !item.result) continue;
+    const result = item.result;
+
+    for (const keywordRow of keywordCsvRows(result)) {
+      rows.push([item.url, item.title, result.contentType, result.metaTitle, ...keywordRow]);
+    }
+  }
+
+  return toCsv(rows, { excel: true });
+};
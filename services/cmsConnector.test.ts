@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { diffCmsFields, type CmsConfig } from './cmsConnector';
+import { wordpressConnector } from './wordpressConnector';
+import { webhookConnector } from './webhookConnector';
+import { startMockServer, type MockServer } from './__fixtures__/mockServer';
+
+// Seeded by server/mockCmsServer.js
+const FILLED_POST = '1';   // Yoast title set, tagged "Dhaka"
+const EMPTY_POST = '2';
+
+const proposed = {
+  metaTitle: 'Metro rail fares rise from November',
+  metaDescription: 'The new Dhaka metro rail fare chart, station by station.',
+  focusKeyword: 'metro rail fare',
+  tags: ['Metro rail', 'Dhaka']
+};
+
+describe('CMS connectors against the mock CMS', () => {
+  let server: MockServer;
+  let config: CmsConfig;
+
+  // A fresh server per test: the mock keeps its posts in memory
+  beforeEach(async () => {
+    server = await startMockServer('mockCmsServer.js', 'MOCK_CMS_PORT', {
+      MOCK_CMS_PASSWORD: 'abcd efgh ijkl',
+      MOCK_CMS_WEBHOOK_SECRET: 'hook-secret'
+    });
+    config = {
+      connector: 'wordpress',
+      baseUrl: server.url,
+      username: 'desk',
+      appPassword: 'abcd efgh ijkl',
+      seoPlugin: 'yoast',
+      webhookUrl: `${server.url}/webhook`,
+      webhookSecret: 'hook-secret'
+    };
+  });
+
+  afterEach(() => server.process.kill());
+
+  describe('WordPress', () => {
+    it('fills an empty post and creates the tags it does not have yet', async () => {
+      const before = await wordpressConnector.fetchCurrent(config, EMPTY_POST);
+      expect(diffCmsFields(before, proposed).map(diff => diff.status)).toEqual(['new', 'new', 'new', 'new']);
+
+      const result = await wordpressConnector.push(config, EMPTY_POST, proposed);
+
+      expect(result.sent).toBe(true);
+      expect(result.message).toMatch(/^Post 2 updated/);
+      const after = await wordpressConnector.fetchCurrent(config, EMPTY_POST);
+      expect(after).toMatchObject({
+        metaTitle: proposed.metaTitle,
+        metaDescription: proposed.metaDescription,
+        focusKeyword: proposed.focusKeyword
+      });
+      // "Dhaka" is reused, "Metro rail" is created
+      expect(after?.tags?.sort()).toEqual(['Dhaka', 'Metro rail']);
+    });
+
+    it('updates a post and adds to its existing tags', async () => {
+      await wordpressConnector.push(config, FILLED_POST, { metaTitle: proposed.metaTitle, tags: ['Metro rail'] });
+
+      const after = await wordpressConnector.fetchCurrent(config, FILLED_POST);
+      expect(after?.metaTitle).toBe(proposed.metaTitle);
+      expect(after?.title).toBe('Metro rail fares to rise from next month');
+      expect(after?.tags).toEqual(['Dhaka', 'Metro rail']);
+    });
+
+    it('writes nothing on a dry run', async () => {
+      const before = await wordpressConnector.fetchCurrent(config, FILLED_POST);
+
+      const result = await wordpressConnector.push(config, FILLED_POST, proposed, { dryRun: true });
+
+      expect(result.sent).toBe(false);
+      expect(result.request).toMatchObject({
+        method: 'POST',
+        url: `${server.url}/wp-json/wp/v2/posts/1`,
+        body: { meta: { _yoast_wpseo_title: proposed.metaTitle }, tags: proposed.tags }
+      });
+      expect(await wordpressConnector.fetchCurrent(config, FILLED_POST)).toEqual(before);
+    });
+
+    it('reports a conflict for a field edited in the CMS after the preview', async () => {
+      const fields = { metaTitle: proposed.metaTitle, metaDescription: proposed.metaDescription };
+      const preview = diffCmsFields(await wordpressConnector.fetchCurrent(config, FILLED_POST), fields);
+      expect(preview.map(({ field, status }) => [field, status])).toEqual([
+        ['metaTitle', 'conflict'],
+        ['metaDescription', 'new']
+      ]);
+
+      // A desk editor writes the description in WordPress meanwhile
+      await wordpressConnector.push(config, FILLED_POST, { metaDescription: 'Written by the desk.' });
+
+      const latest = diffCmsFields(await wordpressConnector.fetchCurrent(config, FILLED_POST), fields);
+      expect(latest.find(diff => diff.field === 'metaDescription')).toEqual({
+        field: 'metaDescription',
+        current: 'Written by the desk.',
+        proposed: proposed.metaDescription,
+        status: 'conflict'
+      });
+    });
+
+    it('reports rejected credentials', async () => {
+      const wrong = { ...config, appPassword: 'wrong password' };
+
+      await expect(wordpressConnector.fetchCurrent(wrong, FILLED_POST)).rejects.toThrow('WordPress rejected the credentials (401)');
+      await expect(wordpressConnector.push(wrong, FILLED_POST, proposed)).rejects.toThrow('WordPress rejected the credentials (401)');
+      expect((await wordpressConnector.fetchCurrent(config, FILLED_POST))?.metaDescription).toBeUndefined();
+    });
+  });
+
+  describe('webhook', () => {
+    it('delivers a signed payload', async () => {
+      const result = await webhookConnector.push(config, FILLED_POST, proposed);
+
+      expect(result.sent).toBe(true);
+      expect(result.request.body).toMatchObject({ event: 'keywords.updated', postId: FILLED_POST, fields: proposed });
+    });
+
+    it('reports a payload the endpoint refused', async () => {
+      await expect(webhookConnector.push({ ...config, webhookSecret: 'old-secret' }, FILLED_POST, proposed))
+        .rejects.toThrow('Webhook returned 401');
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * CMS Connector Contract
+ *
+ * Pushes meta tags, focus keyword and tags from a KeywordResult into the CMS.
+ * Every CMS (WordPress REST, generic webhook, ...) implements CmsConnector and
+ * is listed in cmsRegistry.ts. Field mapping, conflict detection and the
+ * credentials live here so the UI works the same for every connector.
+ */
+
+import type { KeywordResult } from '../types';
+
+export type CmsConnectorId = 'wordpress' | 'webhook';
+export type SeoPlugin = 'yoast' | 'rankmath';
+
+export type CmsTextField = 'title' | 'excerpt' | 'metaTitle' | 'metaDescription' | 'focusKeyword';
+export type CmsField = CmsTextField | 'tags';
+
+export type CmsFields = Partial<Record<CmsTextField, string>> & { tags?: string[] };
+
+export const CMS_FIELD_LABELS: Record<CmsField, string> = {
+  title: 'Post title',
+  excerpt: 'Excerpt',
+  metaTitle: 'SEO title',
+  metaDescription: 'Meta description',
+  focusKeyword: 'Focus keyword',
+  tags: 'Tags'
+};
+
+// Headline and excerpt are the desk's own copy - only overwritten when ticked
+export const DEFAULT_CMS_FIELDS: CmsField[] = ['metaTitle', 'metaDescription', 'focusKeyword', 'tags'];
+
+// Tags beyond this clutter the tag archive
+const MAX_TAGS = 10;
+
+export interface CmsConfig {
+  connector: CmsConnectorId;
+  baseUrl?: string;        // WordPress site root, e.g. https://cms.example.com
+  username?: string;       // WordPress user
+  appPassword?: string;    // WordPress application password (Users → Profile)
+  seoPlugin: SeoPlugin;
+  webhookUrl?: string;
+  webhookSecret?: string;  // Signs the webhook body (HMAC-SHA256)
+}
+
+export interface CmsFieldDiff {
+  field: CmsField;
+  current?: string;
+  proposed: string;
+  status: 'unchanged' | 'new' | 'conflict' | 'unknown';   // unknown = connector can't read current values
+}
+
+export interface CmsPushRequest {
+  method: string;
+  url: string;
+  body: unknown;
+}
+
+export interface CmsPushResult {
+  sent: boolean;           // false for a dry run
+  request: CmsPushRequest;
+  message: string;
+}
+
+export interface CmsConnector {
+  id: CmsConnectorId;
+  label: string;
+
+  /**
+   * True when credentials/endpoint are set up
+   */
+  isConfigured: (config: CmsConfig) => boolean;
+
+  /**
+   * Current values of the post, or null when the connector can't read them (e.g. webhooks)
+   */
+  fetchCurrent: (config: CmsConfig, postId: string, signal?: AbortSignal) => Promise<CmsFields | null>;
+
+  /**
+   * Sends the fields; with dryRun only builds the request that would be sent
+   */
+  push: (
+    config: CmsConfig,
+    postId: string,
+    fields: CmsFields,
+    options?: { dryRun?: boolean; signal?: AbortSignal }
+  ) => Promise<CmsPushResult>;
+}
+
+/**
+ * Get CMS connector configuration from localStorage
+ */
+export const getCmsConfig = (): CmsConfig => {
+  try {
+    return {
+      connector: (localStorage.getItem('cms_connector') as CmsConnectorId) || 'wordpress',
+      baseUrl: localStorage.getItem('cms_base_url') || undefined,
+      username: localStorage.getItem('cms_username') || undefined,
+      appPassword: localStorage.getItem('cms_app_password') || undefined,
+      seoPlugin: (localStorage.getItem('cms_seo_plugin') as SeoPlugin) || 'yoast',
+      webhookUrl: localStorage.getItem('cms_webhook_url') || undefined,
+      webhookSecret: localStorage.getItem('cms_webhook_secret') || undefined
+    };
+  } catch (error) {
+    console.warn('CMS config not available:', error);
+    return { connector: 'wordpress', seoPlugin: 'yoast' };
+  }
+};
+
+/**
+ * Save CMS connector configuration and credentials
+ */
+export const saveCmsConfig = (config: CmsConfig): void => {
+  try {
+    const values: Record<string, string | undefined> = {
+      cms_connector: config.connector,
+      cms_base_url: config.baseUrl,
+      cms_username: config.username,
+      cms_app_password: config.appPassword,
+      cms_seo_plugin: config.seoPlugin,
+      cms_webhook_url: config.webhookUrl,
+      cms_webhook_secret: config.webhookSecret
+    };
+    for (const [key, value] of Object.entries(values)) {
+      if (value) {
+        localStorage.setItem(key, value);
+      } else {
+        localStorage.removeItem(key);
+      }
+    }
+    console.log('✅ CMS connector settings saved');
+  } catch (error) {
+    console.error('Failed to save CMS connector settings:', error);
+  }
+};
+
+/**
+ * Clear CMS connector configuration and credentials
+ */
+export const clearCmsConfig = (): void => {
+  try {
+    ['cms_connector', 'cms_base_url', 'cms_username', 'cms_app_password', 'cms_seo_plugin', 'cms_webhook_url', 'cms_webhook_secret']
+      .forEach(key => localStorage.removeItem(key));
+    console.log('CMS connector settings cleared');
+  } catch (error) {
+    console.error('Failed to clear CMS connector settings:', error);
+  }
+};
+
+/**
+ * Maps a result to CMS fields (Bangla meta for Bangla articles)
+ * Tags: focus keywords first, then the top named entities
+ */
+export const buildCmsFields = (result: KeywordResult): CmsFields => {
+  const bangla = result.detectedLanguage === 'bangla';
+  const metaTitle = (bangla && result.metaTitleBangla) || result.metaTitle;
+  const metaDescription = (bangla && result.metaDescriptionBangla) || result.metaDescription;
+
+  const tags: string[] = [];
+  for (const term of [...result.primary, ...(result.entities || [])].map(keyword => keyword.term.trim())) {
+    if (term && !tags.some(tag => tag.toLowerCase() === term.toLowerCase())) tags.push(term);
+  }
+
+  return {
+    title: metaTitle,
+    excerpt: metaDescription,
+    metaTitle,
+    metaDescription,
+    focusKeyword: result.primary[0]?.term,
+    tags: tags.slice(0, MAX_TAGS)
+  };
+};
+
+/**
+ * Keeps only the selected fields (and drops empty values)
+ */
+export const pickCmsFields = (fields: CmsFields, selected: CmsField[]): CmsFields => {
+  const picked: CmsFields = {};
+  for (const field of selected) {
+    if (field === 'tags') {
+      if (fields.tags?.length) picked.tags = fields.tags;
+    } else if (fields[field]) {
+      picked[field] = fields[field];
+    }
+  }
+  return picked;
+};
+
+/**
+ * Tags are added to the post's existing tags, never replace them
+ */
+export const mergeTags = (current: string[] = [], proposed: string[] = []): string[] => [
+  ...current,
+  ...proposed.filter(tag => !current.some(existing => existing.toLowerCase() === tag.toLowerCase()))
+];
+
+/**
+ * Per-field comparison of the proposed values against the post's current values
+ * conflict = the CMS already has a different, non-empty value that would be overwritten
+ */
+export const diffCmsFields = (current: CmsFields | null, proposed: CmsFields): CmsFieldDiff[] => {
+  const diffs: CmsFieldDiff[] = [];
+
+  for (const field of Object.keys(CMS_FIELD_LABELS) as CmsField[]) {
+    if (field === 'tags') {
+      if (!proposed.tags?.length) continue;
+      const merged = mergeTags(current?.tags, proposed.tags);
+      diffs.push({
+        field,
+        current: current?.tags?.join(', '),
+        proposed: merged.join(', '),
+        status: !current ? 'unknown' : merged.length === current.tags?.length ? 'unchanged' : 'new'
+      });
+      continue;
+    }
+
+    const value = proposed[field];
+    if (!value) continue;
+    const existing = current?.[field]?.trim();
+    diffs.push({
+      field,
+      current: existing,
+      proposed: value,
+      status: !current ? 'unknown' : !existing ? 'new' : existing === value.trim() ? 'unchanged' : 'conflict'
+    });
+  }
+
+  return diffs;
+};
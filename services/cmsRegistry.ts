@@ -0,0 +1,31 @@
+/**
+ * CMS Connector Registry
+ *
+ * To add a CMS: implement CmsConnector in one file, add its id to
+ * CmsConnectorId (cmsConnector.ts) and list it here.
+ */
+
+import type { CmsConnector, CmsConnectorId } from './cmsConnector';
+import { wordpressConnector } from './wordpressConnector';
+import { webhookConnector } from './webhookConnector';
+
+const CMS_CONNECTORS: CmsConnector[] = [
+  wordpressConnector,
+  webhookConnector
+];
+
+/**
+ * All registered connectors, in display order
+ */
+export const listCmsConnectors = (): CmsConnector[] => CMS_CONNECTORS;
+
+/**
+ * Look up a connector by id
+ */
+export const getCmsConnector = (id: CmsConnectorId): CmsConnector => {
+  const connector = CMS_CONNECTORS.find(c => c.id === id);
+  if (!connector) {
+    throw new Error(`Unknown CMS connector: ${id}`);
+  }
+  return connector;
+};
@@ -0,0 +1,233 @@
+/**
+ * Competitor Gap Analysis (live SERP)
+ * - Ranking pages per focus keyword: the keyword's DataForSEO SERP snapshot when it has one,
+ *   otherwise Google Custom Search (getGoogleTopResults)
+ * - Each page is fetched through the proxy for its title and H1-H3 headings
+ * - Words and two-word phrases several ranking pages use there, checked against the article
+ *   with the same tokenizing and stemming as keywordCoverage.ts
+ *
+ * Only domains on the fetch proxy's allowlist can be read; other results are reported
+ * as blocked rather than failing the analysis.
+ */
+
+import type { Keyword, SerpResult, CompetitorPage, CompetitorGap, CompetitorGapReport } from '../types';
+import { fetchPageOutline } from './articleExtractor';
+import { getGoogleSearchConfig, getGoogleTopResults } from './googleSearchService';
+import { tokenizeWithOffsets } from './keywordCoverage';
+
+const PAGES_PER_KEYWORD = 5;     // Top results read per focus keyword (own site excluded)
+const MIN_GAP_PAGES = 2;         // A term only one page uses is that page's angle, not a gap
+const MAX_GAPS = 25;
+const MAX_COVERED_TERMS = 15;
+
+// Function words that say nothing about coverage (NFC, like the tokenizer's output)
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'from', 'by', 'with', 'about',
+  'as', 'into', 'over', 'after', 'before', 'under', 'between', 'is', 'are', 'was', 'were', 'be', 'been',
+  'has', 'have', 'had', 'do', 'does', 'did', 'will', 'would', 'can', 'could', 'should', 'may', 'might',
+  'this', 'that', 'these', 'those', 'it', 'its', 'they', 'them', 'their', 'he', 'she', 'his', 'her', 'we',
+  'our', 'you', 'your', 'not', 'no', 'how', 'what', 'why', 'when', 'where', 'who', 'which', 'than', 'then',
+  'there', 'here', 'more', 'most', 'also', 'just', 'says', 'said', 'amid', 'up', 'out', 'off', 'via', 'vs',
+  'per', 'all', 'any', 'some',
+  'এবং', 'ও', 'আর', 'বা', 'কিন্তু', 'যে', 'এই', 'সেই', 'ওই', 'এ', 'সে', 'তিনি', 'তারা', 'তার', 'তাদের',
+  'আমি', 'আমরা', 'আপনি', 'কি', 'কী', 'কেন', 'কীভাবে', 'কোথায়', 'কখন', 'কে', 'না', 'নয়', 'হয়', 'হবে',
+  'হয়েছে', 'ছিল', 'করে', 'করা', 'করেছে', 'করতে', 'থেকে', 'জন্য', 'নিয়ে', 'দিয়ে', 'সঙ্গে', 'পর', 'পরে',
+  'আগে', 'মধ্যে', 'একটি', 'এক', 'প্রতি', 'বলে', 'বললেন', 'উপর'
+].map(word => word.normalize('NFC')));
+
+type Token = ReturnType<typeof tokenizeWithOffsets>[number];
+
+interface TermCandidate {
+  key: string;       // Stem(s) - what coverage is compared on
+  label: string;     // As written
+}
+
+interface TermStats {
+  labels: Map<string, number>;
+  pages: CompetitorPage[];
+  example: string;
+}
+
+const isContentWord = (token: Token): boolean =>
+  !STOPWORDS.has(token.text) &&
+  !/^\p{N}+$/u.test(token.text) &&
+  [...token.text].length >= (/[\u0980-\u09FF]/.test(token.text) ? 2 : 3);
+
+const isOwnDomain = (domain: string, siteDomain?: string): boolean =>
+  !!siteDomain && (domain === siteDomain || domain.endsWith(`.${siteDomain}`));
+
+// "Budget 2026: what changes | The Daily Star" → "Budget 2026: what changes"
+const stripSiteName = (title: string): string =>
+  title.match(/^(.*\S)\s+[|\-–—]\s+[^|\-–—]{1,40}$/)?.[1] || title;
+
+// "prothom alo", "daily star" - a publisher's own name, not a topic
+const isBrandTerm = (label: string, domains: string[]): boolean => {
+  const compact = label.replace(/\s+/g, '');
+  return compact.length >= 4 && domains.some(domain => domain.split('.')[0].includes(compact));
+};
+
+const mostCommonLabel = (labels: Map<string, number>): string =>
+  [...labels.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+/**
+ * Words and adjacent word pairs of a title or heading
+ * Pairs don't span punctuation, so "Budget: tax" gives no "budget tax"
+ */
+export const extractTerms = (text: string): TermCandidate[] => {
+  const tokens = tokenizeWithOffsets(text);
+  const terms: TermCandidate[] = [];
+  tokens.forEach((token, index) => {
+    if (!isContentWord(token)) return;
+    terms.push({ key: token.stem, label: token.text });
+    const next = tokens[index + 1];
+    if (next && isContentWord(next) && !text.slice(token.end, next.start).trim()) {
+      terms.push({ key: `${token.stem} ${next.stem}`, label: `${token.text} ${next.text}` });
+    }
+  });
+  return terms;
+};
+
+// Every stem and adjacent stem pair of the article
+const articleTermKeys = (content: string): Set<string> => {
+  const keys = new Set<string>();
+  const tokens = tokenizeWithOffsets(content);
+  tokens.forEach((token, index) => {
+    keys.add(token.stem);
+    if (tokens[index + 1]) keys.add(`${token.stem} ${tokens[index + 1].stem}`);
+  });
+  return keys;
+};
+
+/**
+ * Gap table from analyzed pages: terms at least MIN_GAP_PAGES pages use in their
+ * title or headings, split into missing from the article (gaps) and already covered
+ */
+export const buildCompetitorGaps = (
+  pages: CompetitorPage[],
+  articleContent: string
+): Pick<CompetitorGapReport, 'gaps' | 'coveredTerms'> => {
+  const analyzed = pages.filter(page => page.status === 'analyzed');
+  const domains = unique(analyzed.map(page => page.domain));
+  const article = articleTermKeys(articleContent);
+  const stats = new Map<string, TermStats>();
+
+  for (const page of analyzed) {
+    for (const text of [stripSiteName(page.title), ...page.headings]) {
+      for (const term of extractTerms(text)) {
+        if (isBrandTerm(term.label, domains)) continue;
+        let stat = stats.get(term.key);
+        if (!stat) {
+          stat = { labels: new Map(), pages: [], example: text };
+          stats.set(term.key, stat);
+        }
+        stat.labels.set(term.label, (stat.labels.get(term.label) || 0) + 1);
+        if (!stat.pages.includes(page)) stat.pages.push(page);
+      }
+    }
+  }
+
+  const shared = [...stats.entries()]
+    .filter(([, stat]) => stat.pages.length >= MIN_GAP_PAGES)
+    .sort((a, b) => b[1].pages.length - a[1].pages.length || b[0].split(' ').length - a[0].split(' ').length);
+
+  const missing = shared.filter(([key]) => !article.has(key));
+  const missingPhrases = missing.filter(([key]) => key.includes(' '));
+
+  const gaps: CompetitorGap[] = missing
+    // A word gets its own row only when pages use it beyond the missing phrase containing it
+    .filter(([key, stat]) => key.includes(' ') || !missingPhrases.some(([phrase, phraseStat]) =>
+      phrase.split(' ').includes(key) && phraseStat.pages.length >= stat.pages.length))
+    .slice(0, MAX_GAPS)
+    .map(([, stat]) => ({
+      term: mostCommonLabel(stat.labels),
+      pageCount: stat.pages.length,
+      keywords: unique(stat.pages.flatMap(page => page.keywords)),
+      domains: unique(stat.pages.map(page => page.domain)),
+      example: stat.example
+    }));
+
+  const coveredTerms = shared
+    .filter(([key]) => article.has(key))
+    .slice(0, MAX_COVERED_TERMS)
+    .map(([, stat]) => mostCommonLabel(stat.labels));
+
+  return { gaps, coveredTerms };
+};
+
+/**
+ * Ranking results for a focus keyword: its SERP snapshot, else Custom Search
+ */
+const getRankingResults = async (
+  keyword: Keyword,
+  signal?: AbortSignal
+): Promise<{ results: SerpResult[]; source: CompetitorPage['source'] } | null> => {
+  if (keyword.serp?.topResults.length) {
+    return { results: keyword.serp.topResults, source: 'dataforseo' };
+  }
+  const results = await getGoogleTopResults(keyword.term, getGoogleSearchConfig(), signal);
+  return results?.length ? { results, source: 'custom-search' } : null;
+};
+
+/**
+ * Reads the pages ranking for the focus keywords and compares their titles and
+ * headings with the article
+ *
+ * @param keywords - Focus keywords (pages ranking for several of them are read once)
+ * @param options.siteDomain - Own site, left out of the competitors
+ * @param options.onProgress - Called after each page fetch
+ */
+export const analyzeCompetitorGaps = async (
+  keywords: Keyword[],
+  articleContent: string,
+  options: { siteDomain?: string; signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<CompetitorGapReport> => {
+  if (!keywords.some(keyword => keyword.serp) && !getGoogleSearchConfig().enabled) {
+    throw new Error('Live competitor analysis needs ranking pages: connect DataForSEO or Google Custom Search first.');
+  }
+
+  const pages = new Map<string, CompetitorPage>();   // By URL
+  for (const keyword of keywords) {
+    const ranking = await getRankingResults(keyword, options.signal);
+    if (!ranking) {
+      console.warn(`No ranking pages found for "${keyword.term}"`);
+      continue;
+    }
+    for (const result of ranking.results.filter(r => !isOwnDomain(r.domain, options.siteDomain)).slice(0, PAGES_PER_KEYWORD)) {
+      const existing = pages.get(result.url);
+      if (existing) {
+        if (!existing.keywords.includes(keyword.term)) existing.keywords.push(keyword.term);
+        continue;
+      }
+      pages.set(result.url, { ...result, keywords: [keyword.term], source: ranking.source, status: 'failed', headings: [] });
+    }
+  }
+
+  if (pages.size === 0) {
+    throw new Error('No ranking pages were found for the focus keywords.');
+  }
+
+  console.log(`🔍 Reading ${pages.size} ranking pages for competitor gaps...`);
+  let done = 0;
+  for (const page of pages.values()) {
+    try {
+      const outline = await fetchPageOutline(page.url, options.signal);
+      page.title = outline.title || page.title;
+      page.headings = outline.headings;
+      page.status = 'analyzed';
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      page.status = error instanceof Error && error.message.startsWith('The fetch proxy refused') ? 'blocked' : 'failed';
+      console.warn(`Competitor page not read (${page.status}): ${page.url}`, error);
+    }
+    options.onProgress?.(++done, pages.size);
+  }
+
+  const pageList = [...pages.values()];
+  return {
+    checkedAt: new Date().toISOString(),
+    pages: pageList,
+    ...buildCompetitorGaps(pageList, articleContent)
+  };
+};
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { enhanceKeywordsWithRealData, getKeywordMetrics } from './dataForSeoService';
+import { sleep } from './retryPolicy';
+import { startMockServer, type MockServer } from './__fixtures__/mockServer';
+
+// Pacing waits return at once; the rate-limit pause is shortened so the mock's window can pass
+const RATE_WINDOW_MS = 1000;
+vi.mock('./retryPolicy', async (importOriginal) => {
+  const original = await importOriginal<typeof import('./retryPolicy')>();
+  return {
+    ...original,
+    sleep: vi.fn((ms: number, signal?: AbortSignal) =>
+      ms === 10000 ? original.sleep(RATE_WINDOW_MS + 200, signal) : Promise.resolve())
+  };
+});
+
+// server/mockDataForSeoServer.js on its own port
+const startMockDataForSeo = (env: Record<string, string> = {}) =>
+  startMockServer('mockDataForSeoServer.js', 'MOCK_DATAFORSEO_PORT', env);
+
+const storage = new Map<string, string>();
+const useMockServer = (server: MockServer) => {
+  storage.set('dataforseo_login', 'mock');
+  storage.set('dataforseo_password', 'mock');
+  storage.set('dataforseo_api_url', server.url);
+};
+
+// Paths of the requests sent to the API
+const requestedPaths = (fetchSpy: ReturnType<typeof vi.fn>) =>
+  fetchSpy.mock.calls.map(([url]) => new URL(String(url)).pathname.replace('/v3/', ''));
+
+const labsDifficulty = async (server: MockServer, keyword: string): Promise<number | null> => {
+  const response = await fetch(`${server.url}/v3/dataforseo_labs/google/bulk_keyword_difficulty/live`, {
+    method: 'POST',
+    headers: { Authorization: `Basic ${btoa('mock:mock')}` },
+    body: JSON.stringify([{ keywords: [keyword], location_code: 2050, language_code: 'en' }])
+  });
+  return (await response.json()).tasks[0].result[0].items[0].keyword_difficulty;
+};
+
+describe('DataForSEO against the mock API', () => {
+  let server: MockServer;
+  let limitedServer: MockServer;    // One search volume request per window
+  let fetchSpy: ReturnType<typeof vi.fn>;
+
+  beforeAll(async () => {
+    server = await startMockDataForSeo();
+    limitedServer = await startMockDataForSeo({ MOCK_DATAFORSEO_RATE_LIMIT: '1', MOCK_DATAFORSEO_RATE_WINDOW_MS: String(RATE_WINDOW_MS) });
+  });
+
+  afterAll(() => {
+    server?.process.kill();
+    limitedServer?.process.kill();
+  });
+
+  beforeEach(() => {
+    storage.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    const realFetch = globalThis.fetch;
+    fetchSpy = vi.fn((input: RequestInfo | URL, init?: RequestInit) => realFetch(input, init));
+    vi.stubGlobal('fetch', fetchSpy);
+    vi.mocked(sleep).mockClear();
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('sends more than 1000 keywords in chunks of at most 1000', async () => {
+    useMockServer(server);
+    const keywords = Array.from({ length: 1001 }, (_, index) => `dhaka keyword ${index}`);
+
+    const metrics = await getKeywordMetrics(keywords, 2050, 'en');
+
+    expect(metrics?.size).toBe(1001);
+    const volumeRequests = fetchSpy.mock.calls
+      .filter(([url]) => String(url).includes('search_volume'))
+      .map(([, init]) => JSON.parse(String(init!.body))[0].keywords.length);
+    expect(volumeRequests).toEqual([1000, 1]);
+  });
+
+  it('retries a search volume request once after a 40202 rate limit', async () => {
+    useMockServer(limitedServer);
+    const keywords = Array.from({ length: 1001 }, (_, index) => `rate limited ${index}`);
+
+    const metrics = await getKeywordMetrics(keywords, 2050, 'en');
+
+    // Second chunk: limited, paused, then answered
+    expect(requestedPaths(fetchSpy).filter(path => path.includes('search_volume'))).toHaveLength(3);
+    expect(sleep).toHaveBeenCalledWith(10000, undefined);
+    expect(metrics?.size).toBe(1001);
+  });
+
+  it('merges Labs difficulty into the search volume rows', async () => {
+    useMockServer(server);
+    const { keywords, dataSource } = await enhanceKeywordsWithRealData([
+      { term: 'metro rail fare', termBangla: 'মেট্রোরেল ভাড়া', rationale: '' },
+      { term: 'মেট্রোরেলের সময়সূচি', rationale: '' }
+    ], ['bd']);
+    const [bilingual, banglaOnly] = keywords;
+
+    expect(dataSource).toBe('dataforseo-api');
+    expect(requestedPaths(fetchSpy)).toContain('dataforseo_labs/google/bulk_keyword_difficulty/live');
+
+    // Labs scores the English spelling only; the Bangla one still adds its volume
+    const difficulty = await labsDifficulty(server, 'metro rail fare');
+    const [bd] = bilingual.marketVolumes!;
+    expect(bd.lookups.map(lookup => lookup.language)).toEqual(['en', 'bn']);
+    expect(bd.searchVolume).toBe(bd.lookups[0].searchVolume + bd.lookups[1].searchVolume);
+    expect(bd.difficulty).toBe(difficulty);
+    expect(bilingual.difficultyScore).toBe(difficulty);
+
+    expect(banglaOnly.volumeSource).toBe('dataforseo');
+    expect(banglaOnly.difficultyScore).toBeUndefined();
+  });
+
+  it('caches volumes only briefly when the Labs difficulty request failed', async () => {
+    useMockServer(server);
+    const realFetch = fetchSpy.getMockImplementation()!;
+    fetchSpy.mockImplementation(async (input: RequestInfo | URL, init?: RequestInit) =>
+      String(input).includes('bulk_keyword_difficulty') ? new Response('Internal error', { status: 500 }) : realFetch(input, init));
+
+    const metrics = await getKeywordMetrics(['padma bridge toll'], 2050, 'en');
+
+    expect(metrics?.get('padma bridge toll')?.difficulty).toBeUndefined();
+    const [entry] = Object.values(JSON.parse(storage.get('keyword_metrics_cache')!)) as Array<{ expires: number }>;
+    expect(entry.expires - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+  });
+
+  it('keeps a week-long cache entry when the difficulty arrived', async () => {
+    useMockServer(server);
+
+    const metrics = await getKeywordMetrics(['padma bridge toll'], 2050, 'en');
+
+    expect(metrics?.get('padma bridge toll')?.difficulty).toEqual(expect.any(Number));
+    const [entry] = Object.values(JSON.parse(storage.get('keyword_metrics_cache')!)) as Array<{ expires: number }>;
+    expect(entry.expires - Date.now()).toBeGreaterThan(6 * 24 * 60 * 60 * 1000);
+  });
+});
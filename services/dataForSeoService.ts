@@ -2,18 +2,27 @@
  * DataForSEO API Service - OPTIONAL
  *
  * Provides REAL search volume data and keyword difficulty scores
+ * - Search volume: Keywords Data (Google Ads), chunked and rate-limited
+ * - Difficulty: DataForSEO Labs bulk_keyword_difficulty (SEO difficulty, not ad competition)
+ * - SERP: live top 10 and features (Top Stories, People Also Ask, featured snippet)
  * If API key not provided, app falls back to Gemini estimates
  *
  * API Cost: ~$0.0001 per keyword (very cheap)
  * Pricing: https://dataforseo.com/pricing
  * Get API Key: https://app.dataforseo.com/
+ *
+ * Each spelling is looked up in its own language (Bengali script → bn, otherwise en);
+ * a keyword's Bangla and English forms are separate lookups, merged per target market.
  */
 
-import type { Keyword } from '../types';
+import type { DataForSeoMarket, Keyword, MarketVolume, SerpResult, SerpSnapshot } from '../types';
+import { getCachedMetric, setCachedMetrics, METRICS_CACHE_TTL_MS } from './metricsCache';
+import { sleep } from './retryPolicy';
 
 interface DataForSEOConfig {
   login?: string;      // API username
   password?: string;   // API password
+  apiUrl: string;      // https://api.dataforseo.com, or a local mock (npm run mock-dataforseo)
   enabled: boolean;    // Whether to use API
 }
 
@@ -22,19 +31,70 @@ interface DataForSEOKeywordData {
   location_code: number;
   language_code: string;
   search_partners: boolean;
-  competition: number;        // 0-1 (converted to 0-100)
+  search_volume?: number;     // Average monthly searches (last 12 months)
+  competition: number | null; // 0-1 Google Ads competition (converted to 0-100)
   competition_level: string;  // low/medium/high
   cpc: number;
   monthly_searches: Array<{
     year: number;
     month: number;
     search_volume: number;
-  }>;
+  }> | null;
   keyword_info?: {
     monthly_searches: number;
   };
 }
 
+interface DataForSEOSerpItem {
+  type: string;
+  rank_group?: number;
+  title?: string;
+  url?: string;
+  domain?: string;
+  items?: Array<{ title?: string; url?: string; domain?: string }>;
+}
+
+interface KeywordMetrics {
+  searchVolume: number;
+  competition: number;   // 0-100 Google Ads competition
+  difficulty?: number;   // 0-100 SEO keyword difficulty (Labs); missing when Labs has no data
+}
+
+type LookupLanguage = 'bn' | 'en';
+
+// Google Ads location codes; West Bengal searches are reported under India
+export const DATAFORSEO_MARKETS: Record<DataForSeoMarket, { label: string; flag: string; locationCode: number }> = {
+  bd: { label: 'Bangladesh', flag: '🇧🇩', locationCode: 2050 },
+  in: { label: 'India (West Bengal)', flag: '🇮🇳', locationCode: 2356 },
+  uk: { label: 'UK diaspora', flag: '🇬🇧', locationCode: 2826 },
+  us: { label: 'USA', flag: '🇺🇸', locationCode: 2840 }
+};
+
+const DEFAULT_MARKETS: DataForSeoMarket[] = ['bd'];
+
+export const DEFAULT_DATAFORSEO_API_URL = 'https://api.dataforseo.com';
+
+const ENDPOINTS = {
+  searchVolume: 'keywords_data/google/search_volume/live',
+  keywordDifficulty: 'dataforseo_labs/google/bulk_keyword_difficulty/live',
+  serp: 'serp/google/organic/live/advanced'
+};
+
+// Most keywords per task (DataForSEO limits); longer lists are sent in chunks
+const BATCH_SIZE = {
+  searchVolume: 1000,
+  keywordDifficulty: 1000
+};
+
+// Google Ads live endpoints allow 12 requests a minute; Labs and SERP allow far more
+const MIN_REQUEST_INTERVAL_MS: Record<string, number> = {
+  [ENDPOINTS.searchVolume]: 5000,
+  [ENDPOINTS.keywordDifficulty]: 250,
+  [ENDPOINTS.serp]: 250
+};
+
+const RATE_LIMIT_RETRY_MS = 10000;
+
 /**
  * Get DataForSEO configuration from localStorage
  * App works without this - it's OPTIONAL
@@ -47,21 +107,29 @@ export const getDataForSEOConfig = (): DataForSEOConfig => {
     return {
       login: login || undefined,
       password: password || undefined,
+      apiUrl: (localStorage.getItem('dataforseo_api_url') || DEFAULT_DATAFORSEO_API_URL).replace(/\/+$/, ''),
       enabled: !!(login && password)
     };
   } catch (error) {
     console.warn('DataForSEO config not available:', error);
-    return { enabled: false };
+    return { apiUrl: DEFAULT_DATAFORSEO_API_URL, enabled: false };
   }
 };
 
 /**
  * Save DataForSEO API credentials (optional)
+ *
+ * @param apiUrl - Leave empty for the real API
  */
-export const saveDataForSEOConfig = (login: string, password: string): void => {
+export const saveDataForSEOConfig = (login: string, password: string, apiUrl: string = ''): void => {
   try {
     localStorage.setItem('dataforseo_login', login);
     localStorage.setItem('dataforseo_password', password);
+    if (apiUrl.trim()) {
+      localStorage.setItem('dataforseo_api_url', apiUrl.trim());
+    } else {
+      localStorage.removeItem('dataforseo_api_url');
+    }
     console.log('✅ DataForSEO API credentials saved');
   } catch (error) {
     console.error('Failed to save DataForSEO credentials:', error);
@@ -75,6 +143,7 @@ export const clearDataForSEOConfig = (): void => {
   try {
     localStorage.removeItem('dataforseo_login');
     localStorage.removeItem('dataforseo_password');
+    localStorage.removeItem('dataforseo_api_url');
     console.log('DataForSEO API credentials cleared');
   } catch (error) {
     console.error('Failed to clear DataForSEO credentials:', error);
@@ -82,124 +151,341 @@ export const clearDataForSEOConfig = (): void => {
 };
 
 /**
- * Get real search volume and difficulty from DataForSEO API
- *
- * @param keywords - Array of keyword strings
- * @param location - Country code (2050 = Bangladesh, 2840 = USA)
- * @returns Enhanced keywords with real data or null if API unavailable
+ * Target markets for DataForSEO lookups (Bangladesh unless the user picked others)
  */
-export const getKeywordMetrics = async (
-  keywords: string[],
-  location: number = 2050  // Bangladesh by default
-): Promise<Map<string, { searchVolume: number; difficulty: number; winnability: string }> | null> => {
-  const config = getDataForSEOConfig();
-
-  if (!config.enabled) {
-    console.log('ℹ️  DataForSEO API not configured - using Gemini estimates');
-    return null;
+export const getDataForSEOMarkets = (): DataForSeoMarket[] => {
+  try {
+    const stored = (localStorage.getItem('dataforseo_markets') || '')
+      .split(',')
+      .filter((market): market is DataForSeoMarket => market in DATAFORSEO_MARKETS);
+    return stored.length > 0 ? stored : DEFAULT_MARKETS;
+  } catch (error) {
+    console.warn('DataForSEO markets not available:', error);
+    return DEFAULT_MARKETS;
   }
+};
 
+/**
+ * Save the target markets (at least one; an empty list means Bangladesh)
+ */
+export const saveDataForSEOMarkets = (markets: DataForSeoMarket[]): void => {
   try {
-    console.log(`🔍 Fetching real metrics for ${keywords.length} keywords from DataForSEO...`);
+    localStorage.setItem('dataforseo_markets', markets.join(','));
+    console.log(`✅ DataForSEO markets saved: ${markets.join(', ') || DEFAULT_MARKETS.join(', ')}`);
+  } catch (error) {
+    console.error('Failed to save DataForSEO markets:', error);
+  }
+};
 
-    const auth = btoa(`${config.login}:${config.password}`);
+/**
+ * Lookup language for a spelling: Bengali script → bn, anything else → en
+ */
+export const detectLookupLanguage = (term: string): LookupLanguage =>
+  /[\u0980-\u09FF]/.test(term) ? 'bn' : 'en';
+
+const toWinnability = (difficulty: number): string =>
+  difficulty <= 30 ? 'Easy' :
+  difficulty <= 60 ? 'Medium' :
+  difficulty <= 85 ? 'Hard' : 'Very Hard';
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+// Earliest time the next request to each endpoint may start (shared by all callers)
+const nextRequestAt = new Map<string, number>();
+
+/**
+ * Waits for the endpoint's next free slot, so parallel category lookups queue up
+ * instead of tripping the per-minute limit
+ */
+const waitForRateLimit = async (endpoint: string, signal?: AbortSignal): Promise<void> => {
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestAt.get(endpoint) ?? 0);
+  nextRequestAt.set(endpoint, slot + (MIN_REQUEST_INTERVAL_MS[endpoint] ?? 0));
+  if (slot > now) {
+    await sleep(slot - now, signal);
+  }
+};
 
-    // DataForSEO Keywords Data API
-    const response = await fetch('https://api.dataforseo.com/v3/keywords_data/google/search_volume/live', {
+/**
+ * Posts one task to a live endpoint and returns its result array
+ * Rate-limited answers (HTTP 429 / status 40202) are retried once after a pause
+ */
+const postTask = async <T>(
+  config: DataForSEOConfig,
+  endpoint: string,
+  task: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<T[]> => {
+  const auth = btoa(`${config.login}:${config.password}`);
+
+  for (let attempt = 1; ; attempt++) {
+    await waitForRateLimit(endpoint, signal);
+
+    const response = await fetch(`${config.apiUrl}/v3/${endpoint}`, {
       method: 'POST',
       headers: {
         'Authorization': `Basic ${auth}`,
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify([{
-        keywords: keywords.slice(0, 100), // Limit to 100 keywords per request
-        location_code: location,
-        language_code: 'en',  // or 'bn' for Bangla
-        search_partners: false,
-        sort_by: 'search_volume'
-      }])
+      body: JSON.stringify([task]),
+      signal
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.warn(`DataForSEO API error (${response.status}):`, errorText);
-      return null;
+    const data = response.ok ? await response.json() : null;
+    const rateLimited = response.status === 429 || data?.status_code === 40202 || data?.tasks?.[0]?.status_code === 40202;
+    if (rateLimited && attempt === 1) {
+      console.warn(`DataForSEO rate limit on ${endpoint} - retrying in ${RATE_LIMIT_RETRY_MS / 1000}s`);
+      await sleep(RATE_LIMIT_RETRY_MS, signal);
+      continue;
     }
 
-    const data = await response.json();
-
+    if (!response.ok) {
+      throw new Error(`DataForSEO API error (${response.status}): ${await response.text()}`);
+    }
     if (data.status_code !== 20000) {
-      console.warn('DataForSEO API returned error:', data.status_message);
-      return null;
+      throw new Error(`DataForSEO API returned error: ${data.status_message}`);
     }
+    const taskResult = data.tasks?.[0];
+    if (taskResult?.status_code !== 20000) {
+      throw new Error(`DataForSEO task failed: ${taskResult?.status_message || 'no task in response'}`);
+    }
+    return taskResult.result || [];
+  }
+};
 
-    const results = new Map<string, { searchVolume: number; difficulty: number; winnability: string }>();
-
-    // Process results
-    const items: DataForSEOKeywordData[] = data.tasks[0]?.result[0]?.items || [];
-
-    for (const item of items) {
-      // Get average monthly search volume
-      let searchVolume = 0;
-      if (item.keyword_info?.monthly_searches) {
-        searchVolume = item.keyword_info.monthly_searches;
-      } else if (item.monthly_searches && item.monthly_searches.length > 0) {
-        // Average last 12 months
-        const recentMonths = item.monthly_searches.slice(-12);
-        searchVolume = Math.round(
-          recentMonths.reduce((sum, m) => sum + m.search_volume, 0) / recentMonths.length
-        );
-      }
+const averageMonthlySearches = (item: DataForSEOKeywordData): number => {
+  if (typeof item.search_volume === 'number') return item.search_volume;
+  if (item.keyword_info?.monthly_searches) return item.keyword_info.monthly_searches;
+  if (item.monthly_searches && item.monthly_searches.length > 0) {
+    // Average last 12 months
+    const recentMonths = item.monthly_searches.slice(-12);
+    return Math.round(recentMonths.reduce((sum, m) => sum + m.search_volume, 0) / recentMonths.length);
+  }
+  return 0;
+};
+
+/**
+ * Search volume and ad competition for one chunk of keywords
+ */
+const fetchSearchVolumes = async (
+  config: DataForSEOConfig,
+  keywords: string[],
+  location: number,
+  language: LookupLanguage,
+  signal?: AbortSignal
+): Promise<Map<string, KeywordMetrics>> => {
+  const result = await postTask<DataForSEOKeywordData & { items?: DataForSEOKeywordData[] }>(config, ENDPOINTS.searchVolume, {
+    keywords,
+    location_code: location,
+    language_code: language,
+    search_partners: false,
+    sort_by: 'search_volume'
+  }, signal);
+
+  // Items come straight in the result array (older responses wrap them in result[0].items)
+  const items = Array.isArray(result[0]?.items) ? result[0].items : result;
+  const metrics = new Map<string, KeywordMetrics>();
+  for (const item of items) {
+    metrics.set(item.keyword.toLowerCase(), {
+      searchVolume: averageMonthlySearches(item),
+      competition: Math.round((item.competition || 0) * 100)
+    });
+  }
+  return metrics;
+};
 
-      // Convert competition (0-1) to difficulty (0-100)
-      // Lower competition = easier to rank
-      const competitionScore = item.competition || 0;
-      const difficulty = Math.round(competitionScore * 100);
-
-      // Determine winnability
-      let winnability: string;
-      if (difficulty <= 30) {
-        winnability = 'Easy';
-      } else if (difficulty <= 60) {
-        winnability = 'Medium';
-      } else if (difficulty <= 85) {
-        winnability = 'Hard';
-      } else {
-        winnability = 'Very Hard';
+/**
+ * SEO keyword difficulty (0-100) from DataForSEO Labs for one chunk of keywords
+ * Labs does not cover every location/language pair; a failure only loses the difficulty
+ *
+ * @returns null when the request failed (as opposed to Labs having no score)
+ */
+const fetchKeywordDifficulty = async (
+  config: DataForSEOConfig,
+  keywords: string[],
+  location: number,
+  language: LookupLanguage,
+  signal?: AbortSignal
+): Promise<Map<string, number> | null> => {
+  const difficulty = new Map<string, number>();
+  try {
+    const result = await postTask<{ items?: Array<{ keyword: string; keyword_difficulty: number | null }> }>(
+      config, ENDPOINTS.keywordDifficulty, { keywords, location_code: location, language_code: language }, signal
+    );
+    for (const item of result[0]?.items || []) {
+      if (typeof item.keyword_difficulty === 'number') {
+        difficulty.set(item.keyword.toLowerCase(), item.keyword_difficulty);
       }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`DataForSEO keyword difficulty not available (${location}/${language}):`, error);
+    return null;
+  }
+  return difficulty;
+};
+
+/**
+ * Get real search volume and difficulty from DataForSEO API
+ *
+ * @param keywords - Array of keyword strings (any number - sent in chunks)
+ * @param location - Country code (2050 = Bangladesh, 2840 = USA)
+ * @param language - Search language the keywords are looked up in
+ * @param signal - Aborts the request (a cancelled run should not be billed)
+ * @returns Enhanced keywords with real data or null if API unavailable
+ *
+ * Keywords looked up in the last 7 days come from the metrics cache and are not billed again;
+ * when the difficulty request failed, their volumes are only cached for an hour.
+ */
+export const getKeywordMetrics = async (
+  keywords: string[],
+  location: number = 2050,  // Bangladesh by default
+  language: LookupLanguage = 'en',
+  signal?: AbortSignal
+): Promise<Map<string, KeywordMetrics> | null> => {
+  const config = getDataForSEOConfig();
+
+  if (!config.enabled) {
+    console.log('ℹ️  DataForSEO API not configured - using Gemini estimates');
+    return null;
+  }
 
-      results.set(item.keyword.toLowerCase(), {
-        searchVolume,
-        difficulty,
-        winnability
-      });
+  // null = DataForSEO had no data for the keyword last time (don't pay for it again)
+  const cacheNamespace = `dataforseo-metrics:${location}:${language}`;
+  const results = new Map<string, KeywordMetrics>();
+  const uncached: string[] = [];
+
+  for (const keyword of keywords) {
+    const cached = getCachedMetric<KeywordMetrics | null>(cacheNamespace, keyword);
+    if (cached === undefined) {
+      uncached.push(keyword);
+    } else if (cached) {
+      results.set(keyword.toLowerCase(), cached);
     }
+  }
 
-    console.log(`✅ Retrieved real metrics for ${results.size} keywords from DataForSEO`);
+  if (uncached.length === 0) {
+    console.log(`⚡ All ${keywords.length} keyword metrics served from cache`);
     return results;
+  }
 
-  } catch (error) {
-    console.warn('DataForSEO API request failed:', error);
+  const chunks = chunk(uncached, BATCH_SIZE.searchVolume);
+  let answered = 0;
+
+  console.log(`🔍 Fetching real metrics for ${uncached.length} keywords from DataForSEO (${location}/${language}, ${chunks.length} request(s), ${keywords.length - uncached.length} cached)...`);
+
+  for (const requested of chunks) {
+    try {
+      const fetched = await fetchSearchVolumes(config, requested, location, language, signal);
+      const unscored = new Set<string>();   // Difficulty request failed
+
+      for (const difficultyChunk of chunk([...fetched.keys()], BATCH_SIZE.keywordDifficulty)) {
+        const difficulty = await fetchKeywordDifficulty(config, difficultyChunk, location, language, signal);
+        if (!difficulty) {
+          difficultyChunk.forEach(keyword => unscored.add(keyword));
+          continue;
+        }
+        difficulty.forEach((score, keyword) => {
+          fetched.set(keyword, { ...fetched.get(keyword)!, difficulty: score });
+        });
+      }
+
+      const entries = requested.map(keyword => [keyword, fetched.get(keyword.toLowerCase()) ?? null] as [string, KeywordMetrics | null]);
+      setCachedMetrics(
+        cacheNamespace,
+        entries.filter(([keyword]) => !unscored.has(keyword.toLowerCase())),
+        METRICS_CACHE_TTL_MS.dataForSEO
+      );
+      setCachedMetrics(
+        cacheNamespace,
+        entries.filter(([keyword]) => unscored.has(keyword.toLowerCase())),
+        METRICS_CACHE_TTL_MS.dataForSEONoDifficulty
+      );
+      fetched.forEach((metrics, keyword) => results.set(keyword, metrics));
+      answered++;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`DataForSEO request failed for ${requested.length} keywords:`, error);
+    }
+  }
+
+  if (answered === 0 && results.size === 0) {
     console.log('ℹ️  Falling back to Gemini estimates');
     return null;
   }
+
+  console.log(`✅ Retrieved real metrics for ${results.size} keywords from DataForSEO`);
+  return results;
+};
+
+/**
+ * Every spelling of a keyword (term, Bangla and English forms) with its lookup language
+ */
+const keywordLookups = (keyword: Keyword): Array<{ term: string; language: LookupLanguage }> =>
+  [...new Map(
+    [keyword.term, keyword.termBangla, keyword.termEnglish]
+      .filter((term): term is string => !!term?.trim())
+      .map(term => [term.trim().toLowerCase(), { term: term.trim(), language: detectLookupLanguage(term) }] as const)
+  ).values()];
+
+/**
+ * Volume-weighted average (plain average when every weight is 0)
+ */
+const weightedAverage = (entries: Array<{ value: number; weight: number }>): number => {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  return totalWeight > 0
+    ? entries.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / totalWeight
+    : entries.reduce((sum, entry) => sum + entry.value, 0) / entries.length;
+};
+
+/**
+ * Merges the spellings found in one market: volumes add up (different spellings are
+ * different searches), difficulty and competition are weighted by volume
+ */
+const mergeMarketVolume = (
+  market: DataForSeoMarket,
+  found: Array<{ term: string; language: LookupLanguage; metrics: KeywordMetrics }>
+): MarketVolume => {
+  const scored = found.filter(lookup => lookup.metrics.difficulty !== undefined);
+  return {
+    market,
+    searchVolume: found.reduce((sum, lookup) => sum + lookup.metrics.searchVolume, 0),
+    difficulty: scored.length > 0
+      ? Math.round(weightedAverage(scored.map(lookup => ({ value: lookup.metrics.difficulty!, weight: lookup.metrics.searchVolume }))))
+      : undefined,
+    competition: Math.round(weightedAverage(found.map(lookup => ({ value: lookup.metrics.competition, weight: lookup.metrics.searchVolume })))),
+    lookups: found.map(({ term, language, metrics }) => ({ term, language, searchVolume: metrics.searchVolume }))
+  };
 };
 
 /**
  * Enhance keywords with real search volume and difficulty data
+ * One lookup per market and language; the keyword's volume is the sum over markets
+ * Keywords Labs has no difficulty for keep their volume but no difficultyScore
+ * (the pipeline estimates it); ad competition is never used as SEO difficulty
  * If DataForSEO API is not available, returns keywords unchanged
  */
 export const enhanceKeywordsWithRealData = async (
   keywords: Keyword[],
-  location: number = 2050
+  markets: DataForSeoMarket[] = getDataForSEOMarkets(),
+  signal?: AbortSignal
 ): Promise<{ keywords: Keyword[]; dataSource: 'gemini-estimate' | 'dataforseo-api' }> => {
-  // Extract keyword terms
-  const terms = keywords.map(k => k.term);
+  const lookups = keywords.flatMap(keywordLookups);
+  const metricsByMarket = new Map<string, Map<string, KeywordMetrics>>();   // `${market}:${language}`
 
-  // Try to get real metrics
-  const metricsMap = await getKeywordMetrics(terms, location);
+  for (const market of markets) {
+    for (const language of ['bn', 'en'] as LookupLanguage[]) {
+      const terms = [...new Set(lookups.filter(lookup => lookup.language === language).map(lookup => lookup.term))];
+      if (terms.length === 0) continue;
+
+      // Try to get real metrics
+      const metrics = await getKeywordMetrics(terms, DATAFORSEO_MARKETS[market].locationCode, language, signal);
+      if (metrics) metricsByMarket.set(`${market}:${language}`, metrics);
+    }
+  }
 
-  if (!metricsMap) {
+  if (metricsByMarket.size === 0) {
     // DataForSEO not available - return original keywords
     return {
       keywords,
@@ -209,20 +495,39 @@ export const enhanceKeywordsWithRealData = async (
 
   // Enhance keywords with real data
   const enhancedKeywords = keywords.map(keyword => {
-    const metrics = metricsMap.get(keyword.term.toLowerCase());
-
-    if (metrics) {
-      return {
-        ...keyword,
-        searchVolumeNumeric: metrics.searchVolume,
-        difficultyScore: metrics.difficulty,
-        winnability: metrics.winnability as 'Easy' | 'Medium' | 'Hard' | 'Very Hard',
-        searchVolume: formatSearchVolume(metrics.searchVolume),
-        difficulty: metrics.winnability.toLowerCase() as 'easy' | 'medium' | 'hard'
-      };
+    const marketVolumes = markets
+      .map(market => {
+        const found = keywordLookups(keyword).flatMap(lookup => {
+          const metrics = metricsByMarket.get(`${market}:${lookup.language}`)?.get(lookup.term.toLowerCase());
+          return metrics ? [{ ...lookup, metrics }] : [];
+        });
+        return found.length > 0 ? mergeMarketVolume(market, found) : null;
+      })
+      .filter((volume): volume is MarketVolume => volume !== null);
+
+    if (marketVolumes.length === 0) {
+      return keyword;
+    }
+
+    const searchVolume = marketVolumes.reduce((sum, volume) => sum + volume.searchVolume, 0);
+    const enhanced: Keyword = {
+      ...keyword,
+      searchVolumeNumeric: searchVolume,
+      volumeSource: 'dataforseo',
+      marketVolumes,
+      searchVolume: formatSearchVolume(searchVolume)
+    };
+
+    const scored = marketVolumes.filter(volume => volume.difficulty !== undefined);
+    if (scored.length > 0) {
+      const difficulty = Math.round(weightedAverage(scored.map(volume => ({ value: volume.difficulty!, weight: volume.searchVolume }))));
+      const winnability = toWinnability(difficulty);
+      enhanced.difficultyScore = difficulty;
+      enhanced.winnability = winnability as 'Easy' | 'Medium' | 'Hard' | 'Very Hard';
+      enhanced.difficulty = winnability.toLowerCase() as 'easy' | 'medium' | 'hard';
     }
 
-    return keyword;
+    return enhanced;
   });
 
   return {
@@ -231,6 +536,79 @@ export const enhanceKeywordsWithRealData = async (
   };
 };
 
+/**
+ * Current Google results page for a keyword: organic top 10 and SERP features
+ * Cached for 6 hours - news results pages change during the day
+ *
+ * @returns null when DataForSEO is not configured or the check failed
+ */
+export const getSerpSnapshot = async (
+  keyword: string,
+  market: DataForSeoMarket = getDataForSEOMarkets()[0],
+  signal?: AbortSignal
+): Promise<SerpSnapshot | null> => {
+  const config = getDataForSEOConfig();
+  if (!config.enabled) return null;
+
+  const { locationCode } = DATAFORSEO_MARKETS[market];
+  const language = detectLookupLanguage(keyword);
+  const cacheNamespace = `dataforseo-serp:${locationCode}:${language}`;
+  const cached = getCachedMetric<SerpSnapshot>(cacheNamespace, keyword);
+  if (cached) return cached;
+
+  try {
+    const result = await postTask<{ datetime?: string; item_types?: string[]; items?: DataForSEOSerpItem[] }>(
+      config, ENDPOINTS.serp, { keyword, location_code: locationCode, language_code: language, depth: 10 }, signal
+    );
+    const page = result[0] || {};
+    const items = page.items || [];
+    const toResult = (item: { title?: string; url?: string; domain?: string }, index: number, rank?: number): SerpResult => ({
+      rank: rank ?? index + 1,
+      title: item.title || '',
+      url: item.url || '',
+      domain: item.domain || ''
+    });
+
+    const snapshot: SerpSnapshot = {
+      market,
+      checkedAt: new Date().toISOString(),
+      topResults: items
+        .filter(item => item.type === 'organic')
+        .slice(0, 10)
+        .map((item, index) => toResult(item, index, item.rank_group)),
+      features: [...new Set(page.item_types || items.map(item => item.type))].filter(type => type !== 'organic'),
+      topStories: (items.find(item => item.type === 'top_stories')?.items || []).map((item, index) => toResult(item, index)),
+      peopleAlsoAsk: (items.find(item => item.type === 'people_also_ask')?.items || [])
+        .map(item => item.title || '')
+        .filter(Boolean)
+    };
+
+    setCachedMetrics(cacheNamespace, [[keyword, snapshot]], METRICS_CACHE_TTL_MS.dataForSEOSerp);
+    return snapshot;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`DataForSEO SERP check failed for "${keyword}":`, error);
+    return null;
+  }
+};
+
+/**
+ * Adds the live SERP snapshot to each keyword (used for the focus keywords)
+ */
+export const enhanceKeywordsWithSerp = async (
+  keywords: Keyword[],
+  market: DataForSeoMarket = getDataForSEOMarkets()[0],
+  signal?: AbortSignal
+): Promise<Keyword[]> => {
+  console.log(`🔎 Checking live SERPs for ${keywords.length} keywords (${DATAFORSEO_MARKETS[market].label})...`);
+  const enhanced: Keyword[] = [];
+  for (const keyword of keywords) {
+    const serp = await getSerpSnapshot(keyword.term, market, signal);
+    enhanced.push(serp ? { ...keyword, serp } : keyword);
+  }
+  return enhanced;
+};
+
 /**
  * Format search volume number as readable string
  */
@@ -254,7 +632,7 @@ export const testDataForSEOConnection = async (): Promise<boolean> => {
   try {
     const auth = btoa(`${config.login}:${config.password}`);
 
-    const response = await fetch('https://api.dataforseo.com/v3/appendix/user_data', {
+    const response = await fetch(`${config.apiUrl}/v3/appendix/user_data`, {
       method: 'GET',
       headers: {
         'Authorization': `Basic ${auth}`
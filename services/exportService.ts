@@ -0,0 +1,201 @@
+/**
+ * Result Export
+ * - CSV: one row per keyword with every Keyword field
+ *   (Excel variant starts with a UTF-8 BOM so Bangla is not garbled)
+ * - Pretty JSON of the full KeywordResult
+ * - Markdown "SEO brief" for the desk editor
+ * - Browser download helper shared by all export buttons
+ */
+
+import type { Keyword, KeywordResult } from '../types';
+import { KEYWORD_CATEGORIES, type KeywordCategory } from './keywordSchema';
+
+type CsvValue = string | number | undefined;
+
+// Excel only detects UTF-8 when the file starts with a byte order mark
+const UTF8_BOM = '\uFEFF';
+
+export const KEYWORD_CSV_COLUMNS = [
+  'category', 'term', 'termBangla', 'termEnglish', 'searchIntent',
+  'searchVolume', 'searchVolumeNumeric', 'searchVolumeLow', 'searchVolumeHigh', 'volumeSource', 'marketVolumes', 'trendsIndex', 'difficulty', 'difficultyScore', 'winnability', 'rationale'
+];
+
+const CATEGORY_TITLES: Record<KeywordCategory, string> = {
+  primary: 'Focus Keywords',
+  secondary: 'Supporting Keywords',
+  longtail: 'User Query Variations',
+  lsiKeywords: 'Semantic Keywords',
+  questionKeywords: 'Questions to Answer',
+  entities: 'Named Entities'
+};
+
+const csvCell = (value: CsvValue): string => {
+  let text = value === undefined ? '' : String(value);
+  // Spreadsheets run cells starting with = + - @ as formulas
+  if (/^[=+\-@]/.test(text) && isNaN(Number(text))) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to CSV (CRLF line endings, RFC 4180 quoting)
+ */
+export const toCsv = (rows: CsvValue[][], options: { excel?: boolean } = {}): string =>
+  (options.excel ? UTF8_BOM : '') + rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+/**
+ * One CSV row per keyword, in KEYWORD_CSV_COLUMNS order
+ */
+export const keywordCsvRows = (result: KeywordResult): CsvValue[][] =>
+  KEYWORD_CATEGORIES.flatMap(category =>
+    (result[category] || []).map((keyword: Keyword) => [
+      category,
+      keyword.term,
+      keyword.termBangla,
+      keyword.termEnglish,
+      keyword.searchIntent,
+      keyword.searchVolume,
+      keyword.searchVolumeNumeric,
+      keyword.searchVolumeRange?.low,
+      keyword.searchVolumeRange?.high,
+      keyword.volumeSource,
+      keyword.marketVolumes?.map(volume => `${volume.market}:${volume.searchVolume}`).join('; '),
+      keyword.trendsIndex?.score,
+      keyword.difficulty,
+      keyword.difficultyScore,
+      keyword.winnability,
+      keyword.rationale
+    ])
+  );
+
+/**
+ * Keyword CSV for one result
+ *
+ * @param options.excel - Prefix a UTF-8 BOM (Excel); leave off for scripts and databases
+ */
+export const buildKeywordCsv = (result: KeywordResult, options: { excel?: boolean } = {}): string =>
+  toCsv([KEYWORD_CSV_COLUMNS, ...keywordCsvRows(result)], options);
+
+/**
+ * Pretty-printed JSON of the full result
+ */
+export const buildKeywordJson = (result: KeywordResult): string =>
+  JSON.stringify(result, null, 2);
+
+const escapeTableCell = (value: CsvValue): string =>
+  value === undefined || value === '' ? '—' : String(value).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+// Only measured volumes are shown as a plain figure
+const formatVolumeCell = (keyword: Keyword): string | undefined => {
+  if (keyword.searchVolumeNumeric === undefined) return keyword.searchVolume;
+  if (keyword.volumeSource === 'dataforseo') return keyword.searchVolumeNumeric.toLocaleString();
+  const range = keyword.searchVolumeRange;
+  return range
+    ? `${range.low.toLocaleString()}-${range.high.toLocaleString()} (est.)`
+    : `~${keyword.searchVolumeNumeric.toLocaleString()} (est.)`;
+};
+
+const keywordLabel = (keyword: Keyword): string =>
+  keyword.termBangla && keyword.termBangla !== keyword.term ? `${keyword.term} (${keyword.termBangla})` : keyword.term;
+
+/**
+ * Markdown SEO brief: meta tags, focus keywords, questions, competitor gaps and insights
+ */
+export const buildSeoBriefMarkdown = (
+  result: KeywordResult,
+  article: { title?: string; url?: string } = {}
+): string => {
+  const lines: string[] = [];
+  const title = article.title || result.articleMetadata?.title || result.primary[0]?.term || 'Article';
+
+  lines.push(`# SEO Brief: ${title}`, '');
+  if (article.url) lines.push(`- **URL:** ${article.url}`);
+  lines.push(`- **Content type:** ${result.contentType}`);
+  if (result.detectedLanguage) lines.push(`- **Language:** ${result.detectedLanguage}`);
+  if (result.seoScore !== undefined) lines.push(`- **SEO score:** ${result.seoScore}/100`);
+  if (result.rankingConfidence) lines.push(`- **Ranking confidence:** ${result.rankingConfidence.overall}%`);
+  lines.push(`- **Prepared:** ${new Date().toLocaleString()}`, '');
+
+  lines.push('## Meta Tags', '');
+  lines.push(`**Meta title** (${result.metaTitle?.length ?? 0} chars): ${result.metaTitle || '—'}`, '');
+  lines.push(`**Meta description** (${result.metaDescription?.length ?? 0} chars): ${result.metaDescription || '—'}`, '');
+  if (result.metaTitleBangla) lines.push(`**Meta title (বাংলা):** ${result.metaTitleBangla}`, '');
+  if (result.metaDescriptionBangla) lines.push(`**Meta description (বাংলা):** ${result.metaDescriptionBangla}`, '');
+
+  lines.push(`## ${CATEGORY_TITLES.primary}`, '');
+  lines.push('| Keyword | Intent | Volume | Difficulty | Winnability |', '| --- | --- | --- | --- | --- |');
+  for (const keyword of result.primary) {
+    lines.push(`| ${[
+      keywordLabel(keyword),
+      keyword.searchIntent,
+      formatVolumeCell(keyword),
+      keyword.difficultyScore ?? keyword.difficulty,
+      keyword.winnability
+    ].map(escapeTableCell).join(' | ')} |`);
+  }
+  lines.push('');
+
+  for (const category of ['secondary', 'longtail', 'questionKeywords'] as KeywordCategory[]) {
+    const keywords = result[category] || [];
+    if (keywords.length === 0) continue;
+    lines.push(`## ${CATEGORY_TITLES[category]}`, '');
+    keywords.forEach(keyword => lines.push(`- ${keywordLabel(keyword)}`));
+    lines.push('');
+  }
+
+  if (result.entities?.length) {
+    lines.push(`## ${CATEGORY_TITLES.entities}`, '', result.entities.map(keyword => keyword.term).join(', '), '');
+  }
+
+  if (result.serpFeatureTargets?.length) {
+    lines.push('## SERP Features to Target', '');
+    result.serpFeatureTargets.forEach(feature => lines.push(`- ${feature}`));
+    lines.push('');
+  }
+
+  const gapReport = result.competitorGaps;
+  if (gapReport) {
+    const analyzed = gapReport.pages.filter(page => page.status === 'analyzed').length;
+    lines.push('## Competitor Gaps (live SERP)', '');
+    lines.push(`Titles and headings of ${analyzed} ranking pages, checked ${new Date(gapReport.checkedAt).toLocaleString()}.`, '');
+    if (gapReport.gaps.length > 0) {
+      lines.push('| Term missing from the article | Pages | Sites | Example |', '| --- | --- | --- | --- |');
+      gapReport.gaps.forEach(gap => lines.push(`| ${[gap.term, gap.pageCount, gap.domains.join(', '), gap.example].map(escapeTableCell).join(' | ')} |`));
+      lines.push('');
+    } else {
+      lines.push('No shared competitor terms are missing from the article.', '');
+    }
+  }
+
+  lines.push('## Competitor Insights', '', result.competitorInsights || '—', '');
+
+  if (result.banglaSearchInsights) {
+    lines.push('## Bangla Search Insights', '', result.banglaSearchInsights, '');
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * File name stem from the focus keyword, e.g. "keywords-dhaka-metro-rail-2026-10-19"
+ */
+export const exportFileStem = (result: KeywordResult, prefix: string = 'keywords'): string => {
+  const slug = (result.primary[0]?.term || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+  return [prefix, slug, new Date().toISOString().slice(0, 10)].filter(Boolean).join('-');
+};
+
+/**
+ * Triggers a browser download for generated text
+ */
+export const downloadTextFile = (filename: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
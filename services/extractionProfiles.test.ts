@@ -0,0 +1,100 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, afterEach } from 'vitest';
+import { extractArticle } from './articleExtractor';
+import { BUILT_IN_PROFILES, findExtractionProfile, getCustomExtractionProfiles } from './extractionProfiles';
+import { loadFixture } from './__fixtures__/loadFixture';
+
+// One saved page per built-in profile: where the story starts and ends, and
+// boilerplate inside or next to the body that must not reach the keyword pipeline
+const CASES: Record<string, {
+  url: string;
+  title: string;
+  publishedTime: string;
+  first: string;
+  last: string;
+  excluded: string[];
+}> = {
+  thedailystar: {
+    url: 'https://www.thedailystar.net/news/bangladesh/news/metro-rail-fares-rise-november-3950001',
+    title: 'Metro rail fares to rise from November',
+    publishedTime: new Date(Date.parse('Sun Oct 19, 2026 10:00 AM')).toISOString(),
+    first: 'Dhaka Mass Transit Company Limited will raise the minimum metro rail fare',
+    last: 'unless the government offers a targeted subsidy',
+    excluded: ['Share this article', 'Related News', 'Commuters queue for hours', 'DMTCL', 'Most read', 'Gold prices']
+  },
+  prothomalo: {
+    url: 'https://www.prothomalo.com/bangladesh/capital/metro-rail-fare',
+    title: 'নভেম্বর থেকে মেট্রোরেলের ভাড়া বাড়ছে',
+    publishedTime: '2026-10-19T04:00:00.000Z',
+    first: 'মেট্রোরেলের সর্বনিম্ন ভাড়া ২০ টাকা থেকে বাড়িয়ে ২৫ টাকা করা হচ্ছে',
+    last: 'অনেক নিয়মিত যাত্রী আবার বাসে ফিরে যেতে পারেন',
+    excluded: ['আরও পড়ুন', 'বিজ্ঞাপন', 'সোনার দাম']
+  },
+  bdnews24: {
+    url: 'https://bdnews24.com/bangladesh/metro-rail-fare-goes-up',
+    title: 'Metro rail fare goes up by Tk 5 from Nov 1',
+    publishedTime: new Date(Date.parse('Published : 19 Oct 2026, 10:00 AM')).toISOString(),
+    first: 'The minimum fare of the Dhaka metro rail will go up to Tk 25',
+    last: 'would add up over a month of daily trips to work',
+    excluded: ['Metro rail to run until 11pm', 'Advertisement', 'Printed from', 'More news']
+  }
+};
+
+describe('built-in extraction profiles', () => {
+  it('has a saved page for every built-in profile', () => {
+    expect(Object.keys(CASES).sort()).toEqual(BUILT_IN_PROFILES.map(profile => profile.id).sort());
+  });
+
+  for (const profile of BUILT_IN_PROFILES) {
+    describe(profile.label, () => {
+      const expected = CASES[profile.id];
+
+      it('is matched by the article hostname', () => {
+        expect(findExtractionProfile(expected.url, BUILT_IN_PROFILES)?.id).toBe(profile.id);
+      });
+
+      it('extracts the whole story body without boilerplate', () => {
+        const article = extractArticle(loadFixture(`profiles/${profile.id}.html`), expected.url, undefined, profile);
+
+        expect(article.method).toBe(`profile:${profile.id}`);
+        expect(article.title).toBe(expected.title);
+        expect(article.metadata.publishedTime).toBe(expected.publishedTime);
+        expect(article.body.startsWith(expected.first)).toBe(true);
+        expect(article.body).toContain(expected.last);
+        for (const text of expected.excluded) {
+          expect(article.body).not.toContain(text);
+        }
+      });
+    });
+  }
+
+  it('matches subdomains of a profile host', () => {
+    expect(findExtractionProfile('https://en.prothomalo.com/bangladesh/x', BUILT_IN_PROFILES)?.id).toBe('prothomalo');
+    expect(findExtractionProfile('https://example.com/x', BUILT_IN_PROFILES)).toBeUndefined();
+  });
+});
+
+describe('custom extraction profiles', () => {
+  afterEach(() => localStorage.removeItem('extraction_profiles'));
+
+  it('skips stored entries that cannot be matched or run', () => {
+    localStorage.setItem('extraction_profiles', JSON.stringify([
+      { id: 'old-format', label: 'Old format', host: 'dhakatribune.com', bodySelector: '.content' },
+      { id: 'no-body', label: 'No body', hostnames: ['tbsnews.net'], stripSelectors: [] },
+      null,
+      { id: 'ledger', label: 'Dhaka Ledger', hostnames: ['dhakaledger.example'], bodySelector: '.story' }
+    ]));
+
+    expect(getCustomExtractionProfiles()).toEqual([
+      { id: 'ledger', label: 'Dhaka Ledger', hostnames: ['dhakaledger.example'], bodySelector: '.story', stripSelectors: [] }
+    ]);
+    expect(findExtractionProfile('https://www.dhakatribune.com/x')).toBeUndefined();
+    expect(findExtractionProfile('https://dhakaledger.example/markets/x')?.id).toBe('ledger');
+    expect(findExtractionProfile('https://www.thedailystar.net/news/x')?.id).toBe('thedailystar');
+  });
+
+  it('ignores a stored value that is not a list', () => {
+    localStorage.setItem('extraction_profiles', '{"id": "single"}');
+    expect(getCustomExtractionProfiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Site-Specific Extraction Profiles
+ *
+ * CSS selectors for news sites whose "related stories" and ad blocks fool the
+ * generic content scorer. A profile is matched by hostname and runs before
+ * the heuristic (see articleExtractor.ts). Built-in profiles cover the major
+ * Bangladeshi sites; desks can add their own from the settings panel.
+ */
+
+export interface ExtractionProfile {
+  id: string;
+  label: string;
+  hostnames: string[];        // Matches the host and its subdomains (e.g. "prothomalo.com" → "en.prothomalo.com")
+  bodySelector: string;       // Article body container(s) - in a comma-separated list the first selector that
+                              // matches wins, with every element it matches (stories split into several blocks)
+  stripSelectors: string[];   // Removed from the body before extracting text
+  titleSelector?: string;
+  dateSelector?: string;      // Element with a datetime attribute or a readable date
+  builtIn?: boolean;
+}
+
+// Shared by every site: share bars, ads, inline "read more" boxes
+const COMMON_STRIP_SELECTORS = [
+  'script', 'style', 'noscript', 'iframe', 'figure figcaption',
+  '[class*="share"]', '[class*="social"]', '[class*="advert"]', '[class*="ad-slot"]'
+];
+
+export const BUILT_IN_PROFILES: ExtractionProfile[] = [
+  {
+    id: 'thedailystar',
+    label: 'The Daily Star',
+    hostnames: ['thedailystar.net'],
+    bodySelector: 'article .section-content, .article-section .section-content, .detailed-content, article .field-body',
+    stripSelectors: [
+      ...COMMON_STRIP_SELECTORS,
+      '.related-news', '[class*="related"]', '.also-read', '[class*="also-read"]',
+      '.tags', '.author-info', '.newsletter', '.col-md-4'
+    ],
+    titleSelector: 'h1.article-title, article h1, h1',
+    dateSelector: '.date, .article-date, time[datetime]',
+    builtIn: true
+  },
+  {
+    id: 'prothomalo',
+    label: 'Prothom Alo',
+    hostnames: ['prothomalo.com'],
+    bodySelector: '.story-content, [class*="story-content"], .story-element-text',
+    stripSelectors: [
+      ...COMMON_STRIP_SELECTORS,
+      '[class*="related"]', '[class*="also-read"]', '[class*="read-more"]', '.print-adslot'
+    ],
+    titleSelector: 'h1.headline, h1[class*="headline"], h1',
+    dateSelector: 'time[datetime]',
+    builtIn: true
+  },
+  {
+    id: 'bdnews24',
+    label: 'bdnews24.com',
+    hostnames: ['bdnews24.com'],
+    bodySelector: '#contentDetails, .details-brief, .article_body, [class*="article-body"]',
+    stripSelectors: [
+      ...COMMON_STRIP_SELECTORS,
+      '.related', '.relatedNews', '[class*="related"]', '.ads', '.print-only', '[class*="more-news"]'
+    ],
+    titleSelector: '.details-title h1, h1',
+    dateSelector: '.pubdate, .dateTime, time[datetime]',
+    builtIn: true
+  }
+];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * True for a stored entry that can be matched and run (hand-edited or older entries may not)
+ */
+const isUsableProfile = (value: unknown): value is ExtractionProfile => {
+  const profile = value as Partial<ExtractionProfile> | null;
+  return !!profile && typeof profile === 'object' &&
+    isStringArray(profile.hostnames) &&
+    typeof profile.bodySelector === 'string' && profile.bodySelector.trim() !== '';
+};
+
+/**
+ * Get user-added extraction profiles from localStorage
+ * Unusable entries are skipped; a missing strip list means nothing is stripped
+ */
+export const getCustomExtractionProfiles = (): ExtractionProfile[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem('extraction_profiles') || '[]');
+    return (Array.isArray(stored) ? stored : [])
+      .filter(isUsableProfile)
+      .map(profile => ({
+        ...profile,
+        stripSelectors: isStringArray(profile.stripSelectors) ? profile.stripSelectors : []
+      }));
+  } catch (error) {
+    console.warn('Extraction profiles not available:', error);
+    return [];
+  }
+};
+
+const saveCustomExtractionProfiles = (profiles: ExtractionProfile[]): void => {
+  try {
+    localStorage.setItem('extraction_profiles', JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save extraction profiles:', error);
+  }
+};
+
+/**
+ * Save (add or replace) a user-defined extraction profile
+ */
+export const saveExtractionProfile = (profile: ExtractionProfile): void => {
+  const others = getCustomExtractionProfiles().filter(existing => existing.id !== profile.id);
+  saveCustomExtractionProfiles([...others, { ...profile, builtIn: false }]);
+  console.log(`✅ Extraction profile saved: ${profile.label}`);
+};
+
+/**
+ * Delete a user-defined extraction profile
+ */
+export const deleteExtractionProfile = (id: string): void => {
+  saveCustomExtractionProfiles(getCustomExtractionProfiles().filter(profile => profile.id !== id));
+  console.log(`Extraction profile deleted: ${id}`);
+};
+
+/**
+ * All profiles - user profiles first so they can override a built-in site
+ */
+export const listExtractionProfiles = (): ExtractionProfile[] => [
+  ...getCustomExtractionProfiles(),
+  ...BUILT_IN_PROFILES
+];
+
+/**
+ * True when `hostname` is `profileHost` or one of its subdomains
+ */
+const hostMatches = (hostname: string, profileHost: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  const target = profileHost.toLowerCase().trim().replace(/^www\./, '');
+  return host === target || host.endsWith(`.${target}`);
+};
+
+/**
+ * Finds the profile for an article URL (undefined when no profile matches)
+ */
+export const findExtractionProfile = (
+  url: string,
+  profiles: ExtractionProfile[] = listExtractionProfiles()
+): ExtractionProfile | undefined => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+
+  return profiles.find(profile => profile.hostnames.some(host => hostMatches(hostname, host)));
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Keyword } from '../types';
+import { calibrateTrendsVolume, enhanceKeywordsWithGoogleData, findTrendsCalibration } from './googleSearchService';
+import { loadFixture } from './__fixtures__/loadFixture';
+
+// Terms of the recorded comparison, in column order
+const TERMS = ['metro rail', 'metro rail fare', 'dhaka metro', 'mrt line 6', 'rapid pass'];
+
+const keyword = (term: string, extra: Partial<Keyword> = {}): Keyword => ({ term, rationale: '', ...extra });
+
+const measured = (term: string, bdVolume: number, score: number): Keyword => keyword(term, {
+  searchVolumeNumeric: bdVolume,
+  volumeSource: 'dataforseo',
+  marketVolumes: [{ market: 'bd', searchVolume: bdVolume, competition: 10, lookups: [] }],
+  trendsIndex: { score, low: score, high: score }
+});
+
+const stubTrends = () => {
+  const answers = [loadFixture('trends/explore.json'), loadFixture('trends/multiline-batch1.json')];
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(answers.shift(), { status: 200 })));
+};
+
+describe('findTrendsCalibration', () => {
+  it('uses the measured Bangladesh keyword with the highest Trends index', () => {
+    const calibration = findTrendsCalibration([
+      measured('dhaka metro', 900, 20),
+      measured('metro rail', 12000, 80),
+      keyword('mrt line 6', { trendsIndex: { score: 95, low: 90, high: 99 } })
+    ]);
+    expect(calibration).toEqual({ term: 'metro rail', index: 80, volume: 12000 });
+  });
+
+  it('ignores volumes measured outside Bangladesh', () => {
+    const abroad = measured('metro rail', 12000, 80);
+    abroad.marketVolumes = [{ market: 'uk', searchVolume: 12000, competition: 10, lookups: [] }];
+    expect(findTrendsCalibration([abroad])).toBeUndefined();
+  });
+});
+
+describe('calibrateTrendsVolume', () => {
+  it('scales the index and its band by the calibration keyword', () => {
+    const estimate = calibrateTrendsVolume({ score: 40, low: 20, high: 60 }, { term: 'metro rail', index: 80, volume: 12000 });
+    expect(estimate).toMatchObject({ searchVolume: 6000, low: 3000, high: 9000 });
+  });
+});
+
+describe('enhanceKeywordsWithGoogleData', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('gives every keyword a Trends index but keeps heuristic volumes without a calibration', async () => {
+    stubTrends();
+    const { keywords, dataSource } = await enhanceKeywordsWithGoogleData(TERMS.map(term => keyword(term)));
+
+    expect(dataSource).toBe('google-data');
+    for (const result of keywords) {
+      expect(result.trendsIndex).toBeDefined();
+      expect(result.volumeSource).toBe('heuristic');
+    }
+  });
+
+  it('turns indexes into volumes through a measured keyword of the same comparison', async () => {
+    stubTrends();
+    const { keywords } = await enhanceKeywordsWithGoogleData([
+      measured('metro rail', 12000, 0),
+      ...TERMS.slice(1).map(term => keyword(term))
+    ]);
+    const [anchor, fare] = keywords;
+
+    // Measured volumes stay as they are
+    expect(anchor.volumeSource).toBe('dataforseo');
+    expect(anchor.searchVolumeNumeric).toBe(12000);
+    expect(fare.volumeSource).toBe('google-trends');
+    expect(fare.searchVolumeNumeric).toBe(Math.round(12000 * fare.trendsIndex!.score / anchor.trendsIndex!.score));
+  });
+
+  it('reports heuristic data when neither Trends nor Custom Search answered', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429 })));
+    const { keywords, dataSource } = await enhanceKeywordsWithGoogleData(TERMS.map(term => keyword(term)));
+
+    expect(dataSource).toBe('heuristic');
+    expect(keywords.every(result => result.volumeSource === 'heuristic' && !result.trendsIndex)).toBe(true);
+  });
+});
@@ -4,7 +4,14 @@
  * Uses Google's official APIs to get REAL search volume data:
  * 1. Google Trends API (FREE) - Relative search interest
  * 2. Google Search Console API (FREE) - Actual Daily Star performance data
- * 3. Google Custom Search JSON API (FREE tier: 100 queries/day)
+ * 3. Google Custom Search JSON API (FREE tier: 100 queries/day) - result counts and ranking pages
+ *
+ * Trends interest (googleTrendsService.ts) is a relative index: all keywords of an analysis
+ * go into one anchored comparison, so indexes are comparable across categories. It becomes
+ * a volume only when calibrated against a keyword with a measured DataForSEO volume
+ * (volumeSource 'google-trends'). Otherwise volumes are deterministic heuristic estimates
+ * (estimateSearchVolume, volumeSource 'heuristic'): same keyword and inputs, same figure,
+ * reported with a low-high interval and the inputs used.
  *
  * This is BETTER than DataForSEO because:
  * - 100% FREE (no cost per keyword)
@@ -12,7 +19,9 @@
  * - Already using Google Gemini (same ecosystem)
  */
 
-import type { Keyword } from '../types';
+import type { Keyword, RisingQuery, SerpResult, TrendsIndex, VolumeSource } from '../types';
+import { getTrendsComparison, type TrendsComparison } from './googleTrendsService';
+import { getCachedMetric, setCachedMetrics, METRICS_CACHE_TTL_MS } from './metricsCache';
 
 interface GoogleSearchConfig {
   customSearchApiKey?: string;     // FREE: 100 queries/day
@@ -65,83 +74,58 @@ export const clearGoogleSearchConfig = (): void => {
   }
 };
 
-/**
- * Get search volume estimates using Google Trends (FREE, no API key needed)
- *
- * Uses Google Trends unofficial API via public endpoint
- * Returns relative popularity (0-100) for keywords
- */
-export const getGoogleTrendsData = async (
-  keywords: string[],
-  geo: string = 'BD' // Bangladesh
-): Promise<Map<string, number> | null> => {
-  try {
-    console.log(`🔍 Fetching Google Trends data for ${keywords.length} keywords (${geo})...`);
-
-    const trendsData = new Map<string, number>();
-
-    // Use Google Trends interest over time
-    // Note: This is a simplified version - real implementation would use google-trends-api package
-    for (const keyword of keywords.slice(0, 10)) { // Limit to avoid rate limits
-      try {
-        // Estimate popularity based on keyword characteristics
-        // In production, use google-trends-api npm package
-        const estimatedPopularity = estimateKeywordPopularity(keyword);
-        trendsData.set(keyword.toLowerCase(), estimatedPopularity);
-      } catch (error) {
-        console.warn(`Failed to get trends for "${keyword}":`, error);
-      }
-    }
+export interface PopularityEstimate {
+  score: number;    // 0-100 - middle of the heuristic band
+  low: number;
+  high: number;
+  reason: string;   // Which rule gave the band
+}
 
-    console.log(`✅ Retrieved trends data for ${trendsData.size} keywords`);
-    return trendsData;
+export interface VolumeEstimate {
+  searchVolume: number;   // Monthly searches, middle of the interval
+  low: number;
+  high: number;
+  inputs: string[];       // Human-readable signals the estimate was built from
+}
 
-  } catch (error) {
-    console.warn('Google Trends request failed:', error);
-    return null;
-  }
-};
+const HIGH_POPULARITY_TERMS = [
+  'price', 'today', 'news', 'live', 'update', 'breaking',
+  'মূল্য', 'আজ', 'সংবাদ', 'লাইভ', 'আপডেট'
+];
+
+const MEDIUM_POPULARITY_TERMS = [
+  'how to', 'what is', 'why', 'when', 'where',
+  'কিভাবে', 'কি', 'কেন', 'কখন', 'কোথায়'
+];
+
+const countWords = (keyword: string): number => keyword.trim().split(/\s+/).length;
+
+const popularityBand = (low: number, high: number, reason: string): PopularityEstimate => ({
+  score: Math.round((low + high) / 2), low, high, reason
+});
 
 /**
  * Estimate keyword popularity based on characteristics
- * (Fallback when Google Trends API not available)
+ * (Volume estimates for keywords without a measured or calibrated volume)
+ * Same keyword, same band - the spread is reported as low/high instead of rolled at random
  */
-const estimateKeywordPopularity = (keyword: string): number => {
+export const estimateKeywordPopularity = (keyword: string): PopularityEstimate => {
   const lower = keyword.toLowerCase();
 
-  // High popularity keywords (80-100)
-  const highPopularityTerms = [
-    'price', 'today', 'news', 'live', 'update', 'breaking',
-    'মূল্য', 'আজ', 'সংবাদ', 'লাইভ', 'আপডেট'
-  ];
+  const highTerm = HIGH_POPULARITY_TERMS.find(term => lower.includes(term));
+  if (highTerm) return popularityBand(80, 100, `contains "${highTerm}"`);
 
-  // Medium popularity (50-79)
-  const mediumPopularityTerms = [
-    'how to', 'what is', 'why', 'when', 'where',
-    'কিভাবে', 'কি', 'কেন', 'কখন', 'কোথায়'
-  ];
+  const mediumTerm = MEDIUM_POPULARITY_TERMS.find(term => lower.includes(term));
+  if (mediumTerm) return popularityBand(50, 79, `contains "${mediumTerm}"`);
 
-  // Check for high popularity terms
-  if (highPopularityTerms.some(term => lower.includes(term))) {
-    return Math.floor(80 + Math.random() * 20); // 80-100
-  }
-
-  // Check for medium popularity
-  if (mediumPopularityTerms.some(term => lower.includes(term))) {
-    return Math.floor(50 + Math.random() * 29); // 50-79
-  }
-
-  // Low popularity (20-49)
-  if (keyword.split(/\s+/).length <= 2) {
-    return Math.floor(40 + Math.random() * 30); // 40-70 (short = more popular)
-  }
-
-  // Very specific long-tail (10-39)
-  return Math.floor(20 + Math.random() * 20); // 20-40
+  // Short = more popular; very specific long-tail least
+  const wordCount = countWords(keyword);
+  if (wordCount <= 2) return popularityBand(40, 70, `${wordCount}-word term`);
+  return popularityBand(20, 40, `${wordCount}-word long-tail`);
 };
 
 /**
- * Convert Google Trends popularity (0-100) to estimated monthly searches
+ * Convert heuristic popularity (0-100) to estimated monthly searches
  * Based on Bangladesh population and internet usage patterns
  */
 const popularityToSearchVolume = (popularity: number, keyword: string): number => {
@@ -154,34 +138,41 @@ const popularityToSearchVolume = (popularity: number, keyword: string): number =
   // Base calculation
   const baseFactor = 1000; // Base multiplier
 
-  // Keyword length factor (shorter = more searches)
-  const wordCount = keyword.split(/\s+/).length;
-  const lengthFactor = wordCount === 1 ? 3 : wordCount === 2 ? 2 : 1;
-
-  // Bangla bonus (more searches in Bangla)
-  const hasBangla = /[\u0980-\u09FF]/.test(keyword);
-  const banglaBonus = hasBangla ? 1.5 : 1;
-
   // Calculate estimated monthly searches
-  const monthlySearches = Math.round(
-    popularity * baseFactor * lengthFactor * banglaBonus
-  );
+  return Math.round(popularity * baseFactor * lengthFactor(keyword) * banglaBonus(keyword));
+};
 
-  return monthlySearches;
+// Keyword length factor (shorter = more searches)
+const lengthFactor = (keyword: string): number => {
+  const wordCount = countWords(keyword);
+  return wordCount === 1 ? 3 : wordCount === 2 ? 2 : 1;
 };
 
+// Bangla bonus (more searches in Bangla)
+const banglaBonus = (keyword: string): number => /[\u0980-\u09FF]/.test(keyword) ? 1.5 : 1;
+
+interface CustomSearchAnswer {
+  totalResults: number;
+  topResults: SerpResult[];
+}
+
+// One entry of the API's `items` - only the fields read here, unchecked
+interface CustomSearchItem {
+  link?: unknown;
+  title?: unknown;
+  displayLink?: unknown;
+}
+
 /**
- * Get search results count using Google Custom Search API (FREE: 100/day)
- * This gives us actual result counts which correlate with search volume
+ * One Custom Search query: the total results count and the first page of results
+ * Both are cached for 24 hours, so the count and the ranking pages of a keyword
+ * cost a single query of the daily quota
  */
-export const getGoogleSearchResultsCount = async (
+const runCustomSearch = async (
   keyword: string,
-  config: GoogleSearchConfig
-): Promise<number | null> => {
-  if (!config.enabled) {
-    return null;
-  }
-
+  config: GoogleSearchConfig,
+  signal?: AbortSignal
+): Promise<CustomSearchAnswer | null> => {
   try {
     const response = await fetch(
       `https://www.googleapis.com/customsearch/v1?` +
@@ -189,7 +180,8 @@ export const getGoogleSearchResultsCount = async (
       `cx=${config.customSearchEngineId}&` +
       `q=${encodeURIComponent(keyword)}&` +
       `gl=bd&` + // Bangladesh
-      `lr=lang_bn|lang_en` // Bangla or English
+      `lr=lang_bn|lang_en`, // Bangla or English
+      { signal }
     );
 
     if (!response.ok) {
@@ -199,85 +191,270 @@ export const getGoogleSearchResultsCount = async (
 
     const data = await response.json();
     const totalResults = parseInt(data.searchInformation?.totalResults || '0');
-
-    return totalResults;
+    const items: Array<CustomSearchItem | null> = Array.isArray(data.items) ? data.items : [];
+    const topResults: SerpResult[] = items
+      .filter((item): item is CustomSearchItem & { link: string } => typeof item?.link === 'string')
+      .map((item, index) => ({
+        rank: index + 1,
+        title: typeof item.title === 'string' ? item.title : '',
+        url: item.link,
+        domain: (typeof item.displayLink === 'string' ? item.displayLink : '').replace(/^www\./, '')
+      }));
+
+    // Only successful answers are cached - quota/HTTP errors are retried next run
+    setCachedMetrics('google-results-count', [[keyword, totalResults]], METRICS_CACHE_TTL_MS.googleResultsCount);
+    setCachedMetrics('google-top-results', [[keyword, topResults]], METRICS_CACHE_TTL_MS.googleResultsCount);
+    return { totalResults, topResults };
 
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.warn(`Failed to get search results for "${keyword}":`, error);
     return null;
   }
 };
 
+/**
+ * Get search results count using Google Custom Search API (FREE: 100/day)
+ * This gives us actual result counts which correlate with search volume
+ */
+export const getGoogleSearchResultsCount = async (
+  keyword: string,
+  config: GoogleSearchConfig,
+  signal?: AbortSignal
+): Promise<number | null> => {
+  if (!config.enabled) {
+    return null;
+  }
+
+  const cached = getCachedMetric<number>('google-results-count', keyword);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  return (await runCustomSearch(keyword, config, signal))?.totalResults ?? null;
+};
+
+/**
+ * Get the pages ranking for a keyword (first 10 Custom Search results, Bangladesh)
+ * Custom Search follows the engine's own site settings - set it to search the
+ * entire web for results that match Google
+ */
+export const getGoogleTopResults = async (
+  keyword: string,
+  config: GoogleSearchConfig,
+  signal?: AbortSignal
+): Promise<SerpResult[] | null> => {
+  if (!config.enabled) {
+    return null;
+  }
+
+  const cached = getCachedMetric<SerpResult[]>('google-top-results', keyword);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  return (await runCustomSearch(keyword, config, signal))?.topResults ?? null;
+};
+
+// Empirical correlation between Google result counts and monthly searches:
+// 1M results ≈ 1K searches/month, 10M ≈ 10K, 100M+ ≈ 50K+
+const RESULTS_COUNT_BANDS: Array<{ minResults: number; maxResults: number; low: number; high: number }> = [
+  { minResults: 100_000_000, maxResults: 1_000_000_000, low: 50000, high: 100000 },
+  { minResults: 10_000_000, maxResults: 100_000_000, low: 10000, high: 50000 },
+  { minResults: 1_000_000, maxResults: 10_000_000, low: 1000, high: 10000 },
+  { minResults: 100_000, maxResults: 1_000_000, low: 500, high: 1000 },
+  { minResults: 0, maxResults: 100_000, low: 100, high: 500 }
+];
+
 /**
  * Estimate search volume from results count
- * More results = more searches (correlation)
+ * More results = more searches (correlation); the point is placed inside the
+ * band on a log scale, so 2M and 9M results no longer get the same figure
  */
-const resultsCountToSearchVolume = (resultsCount: number): number => {
-  // Empirical correlation:
-  // 1M results ≈ 1K searches/month
-  // 10M results ≈ 5K searches/month
-  // 100M results ≈ 50K searches/month
-
-  if (resultsCount >= 100_000_000) return Math.floor(50000 + Math.random() * 50000); // 50K-100K
-  if (resultsCount >= 10_000_000) return Math.floor(10000 + Math.random() * 40000); // 10K-50K
-  if (resultsCount >= 1_000_000) return Math.floor(1000 + Math.random() * 9000); // 1K-10K
-  if (resultsCount >= 100_000) return Math.floor(500 + Math.random() * 500); // 500-1K
-  return Math.floor(100 + Math.random() * 400); // 100-500
+const resultsCountToSearchVolume = (resultsCount: number): { searchVolume: number; low: number; high: number } => {
+  const band = RESULTS_COUNT_BANDS.find(b => resultsCount >= b.minResults) || RESULTS_COUNT_BANDS[RESULTS_COUNT_BANDS.length - 1];
+  const logPosition = (value: number) => Math.log10(Math.max(1, value));
+  const position = Math.min(1, Math.max(0,
+    (logPosition(resultsCount) - logPosition(band.minResults)) / (logPosition(band.maxResults) - logPosition(band.minResults))
+  ));
+  return {
+    searchVolume: Math.round(band.low + (band.high - band.low) * position),
+    low: band.low,
+    high: band.high
+  };
+};
+
+/**
+ * Deterministic monthly search estimate with its interval and the inputs used
+ * The heuristic popularity band gives the interval; a result count, when known,
+ * is averaged in (point and bounds alike)
+ */
+export const estimateSearchVolume = (
+  keyword: string,
+  popularity: PopularityEstimate,
+  resultsCount: number | null = null
+): VolumeEstimate => {
+  const inputs = [
+    `Heuristic popularity ${popularity.score}/100 (${popularity.low}-${popularity.high}, ${popularity.reason})`,
+    `Length factor ×${lengthFactor(keyword)}`
+  ];
+  if (banglaBonus(keyword) > 1) inputs.push(`Bangla script ×${banglaBonus(keyword)}`);
+
+  let searchVolume = popularityToSearchVolume(popularity.score, keyword);
+  let low = popularityToSearchVolume(popularity.low, keyword);
+  let high = popularityToSearchVolume(popularity.high, keyword);
+
+  if (resultsCount !== null) {
+    const fromResults = resultsCountToSearchVolume(resultsCount);
+    searchVolume = Math.round((searchVolume + fromResults.searchVolume) / 2);
+    low = Math.round((low + fromResults.low) / 2);
+    high = Math.round((high + fromResults.high) / 2);
+    inputs.push(`${resultsCount.toLocaleString()} Google results (≈${fromResults.low.toLocaleString()}-${fromResults.high.toLocaleString()}/month)`);
+  }
+
+  return { searchVolume, low, high, inputs };
+};
+
+export interface TrendsCalibration {
+  term: string;
+  index: number;      // Its Trends index
+  volume: number;     // Its measured monthly searches in Bangladesh
+}
+
+/**
+ * Keyword that turns Trends indexes into monthly searches: among keywords with a
+ * DataForSEO Bangladesh volume, the one with the highest index (finest Trends resolution)
+ * Trends is compared for Bangladesh, so volumes of other markets can't calibrate it
+ */
+export const findTrendsCalibration = (keywords: Keyword[]): TrendsCalibration | undefined =>
+  keywords
+    .map(keyword => ({
+      keyword,
+      volume: keyword.volumeSource === 'dataforseo' ? keyword.marketVolumes?.find(v => v.market === 'bd')?.searchVolume : undefined
+    }))
+    .filter(({ keyword, volume }) => !!volume && (keyword.trendsIndex?.score ?? 0) > 0)
+    .sort((a, b) => b.keyword.trendsIndex!.score - a.keyword.trendsIndex!.score)
+    .map(({ keyword, volume }) => ({ term: keyword.term, index: keyword.trendsIndex!.score, volume: volume! }))[0];
+
+/**
+ * Monthly searches from a Trends index, proportional to the calibration keyword
+ */
+export const calibrateTrendsVolume = (index: TrendsIndex, calibration: TrendsCalibration): VolumeEstimate => {
+  const toVolume = (score: number) => Math.round(calibration.volume * score / calibration.index);
+  return {
+    searchVolume: toVolume(index.score),
+    low: toVolume(index.low),
+    high: toVolume(index.high),
+    inputs: [
+      `Trends index ${index.score} (${index.low}-${index.high})`,
+      `"${calibration.term}" = Trends index ${calibration.index} and ${calibration.volume.toLocaleString()}/month measured (DataForSEO, Bangladesh)`
+    ]
+  };
+};
+
+/**
+ * Trends interest per lowercased term as indexes on the result's scale
+ * With a reference keyword (already on the scale), the comparison is rescaled onto it;
+ * when the reference shows no interest, new terms can't be placed and get no index
+ */
+const toTrendsIndexes = (trends: TrendsComparison | null, reference?: Keyword): Map<string, TrendsIndex> => {
+  const indexes = new Map<string, TrendsIndex>();
+  if (!trends) return indexes;
+
+  let factor = 1;
+  if (reference) {
+    const referenceAverage = trends.interest.get(reference.term.toLowerCase())?.average;
+    if (!referenceAverage) {
+      console.warn(`Google Trends: "${reference.term}" shows no interest - new keywords can't be placed on the result's scale`);
+      return indexes;
+    }
+    factor = reference.trendsIndex!.score / referenceAverage;
+  }
+
+  const anchor = reference?.trendsIndex?.anchor || trends.anchor;
+  trends.interest.forEach((interest, term) => {
+    indexes.set(term, {
+      score: Math.round(interest.average * factor),
+      low: Math.round(interest.low * factor),
+      high: Math.round(interest.high * factor),
+      ...(anchor ? { anchor } : {})
+    });
+  });
+  return indexes;
 };
 
 /**
  * Enhanced keywords with Google Search data (FREE)
  * Combines Google Trends + Custom Search API
+ *
+ * All keywords go into one anchored Trends comparison so their indexes share one scale:
+ * pass every category at once, focus keywords first (the first batch picks the anchor).
+ * Measured (DataForSEO) volumes are kept and only get the index; other keywords get a
+ * calibrated Trends volume when a measured keyword can calibrate the index, else a
+ * heuristic estimate (refined by the Custom Search result count when configured).
+ * dataSource is 'google-data' only when Trends or Custom Search returned data for at
+ * least one keyword, 'heuristic' when every figure is a fallback estimate.
+ *
+ * @param options.relatedQueriesFor - Terms to collect Trends rising queries for (the focus keywords)
+ * @param options.scaleReference - Keywords already on a result's Trends scale (keyword edits):
+ *   new keywords are rescaled onto it and can calibrate against its measured keywords
  */
 export const enhanceKeywordsWithGoogleData = async (
-  keywords: Keyword[]
-): Promise<{ keywords: Keyword[]; dataSource: 'gemini-estimate' | 'google-data' }> => {
+  keywords: Keyword[],
+  signal?: AbortSignal,
+  options: { relatedQueriesFor?: string[]; scaleReference?: Keyword[] } = {}
+): Promise<{ keywords: Keyword[]; dataSource: 'heuristic' | 'google-data'; risingQueries: RisingQuery[] }> => {
   const config = getGoogleSearchConfig();
-
-  console.log('🔍 Attempting to enhance keywords with Google Search data...');
-
-  // Try Google Trends first (FREE, no API key needed)
-  const trendsMap = await getGoogleTrendsData(
-    keywords.map(k => k.term)
+  const scaleReference = options.scaleReference || [];
+  const reference = scaleReference
+    .filter(keyword => (keyword.trendsIndex?.score ?? 0) > 0)
+    .sort((a, b) => b.trendsIndex!.score - a.trendsIndex!.score)[0];
+
+  console.log(`🔍 Fetching Google Trends data for ${keywords.length} keywords (BD)...`);
+  const trends = await getTrendsComparison(
+    [...(reference ? [reference.term] : []), ...keywords.map(k => k.term)],
+    { geo: 'BD', relatedQueriesFor: options.relatedQueriesFor, signal }
   );
+  const indexes = toTrendsIndexes(trends, reference);
 
-  if (!trendsMap || trendsMap.size === 0) {
-    console.log('ℹ️  Google Search data not available - using Gemini estimates');
-    return {
-      keywords,
-      dataSource: 'gemini-estimate'
-    };
-  }
+  const indexed = keywords.map(keyword => {
+    const trendsIndex = indexes.get(keyword.term.toLowerCase());
+    return trendsIndex ? { ...keyword, trendsIndex } : keyword;
+  });
+  const calibration = findTrendsCalibration([...indexed, ...scaleReference]);
+  const placedByTrends = indexed.filter(keyword => keyword.trendsIndex).length;
+  let countedBySearch = 0;
 
-  // Enhance keywords with Google data
   const enhancedKeywords = await Promise.all(
-    keywords.map(async (keyword) => {
-      const popularity = trendsMap.get(keyword.term.toLowerCase());
-
-      if (popularity === undefined) {
-        return keyword; // No data for this keyword
+    indexed.map(async (keyword) => {
+      // Measured volumes stay - the index is only added for comparison
+      if (keyword.volumeSource === 'dataforseo') {
+        return keyword;
       }
 
-      // Calculate search volume from popularity
-      let searchVolume = popularityToSearchVolume(popularity, keyword.term);
-
-      // If Custom Search API available, refine estimate with results count
-      if (config.enabled) {
-        const resultsCount = await getGoogleSearchResultsCount(keyword.term, config);
-        if (resultsCount !== null) {
-          // Average the two estimates
-          const volumeFromResults = resultsCountToSearchVolume(resultsCount);
-          searchVolume = Math.round((searchVolume + volumeFromResults) / 2);
-        }
+      const heuristic = estimateKeywordPopularity(keyword.term);
+      let estimate: VolumeEstimate;
+      let volumeSource: VolumeSource;
+
+      if (keyword.trendsIndex && calibration) {
+        estimate = calibrateTrendsVolume(keyword.trendsIndex, calibration);
+        volumeSource = 'google-trends';
+      } else {
+        // If Custom Search API available, refine estimate with results count
+        const resultsCount = config.enabled
+          ? await getGoogleSearchResultsCount(keyword.term, config, signal)
+          : null;
+        if (resultsCount !== null) countedBySearch++;
+        estimate = estimateSearchVolume(keyword.term, heuristic, resultsCount);
+        volumeSource = 'heuristic';
       }
 
-      // Estimate difficulty from popularity
+      // Estimate difficulty from popularity (the Trends index when there is one)
       // Higher popularity = more competition
-      let difficulty = Math.round(popularity * 0.7); // 0-70 range
+      let difficulty = Math.round(Math.min(100, keyword.trendsIndex?.score ?? heuristic.score) * 0.7); // 0-70 range
 
       // Adjust based on keyword length
-      const wordCount = keyword.term.split(/\s+/).length;
-      if (wordCount >= 4) difficulty = Math.max(0, difficulty - 20); // Long-tail easier
+      if (countWords(keyword.term) >= 4) difficulty = Math.max(0, difficulty - 20); // Long-tail easier
 
       const winnability =
         difficulty <= 30 ? 'Easy' :
@@ -286,19 +463,32 @@ export const enhanceKeywordsWithGoogleData = async (
 
       return {
         ...keyword,
-        searchVolumeNumeric: searchVolume,
+        searchVolumeNumeric: estimate.searchVolume,
+        searchVolumeRange: { low: estimate.low, high: estimate.high },
+        volumeSource,
+        volumeInputs: estimate.inputs,
         difficultyScore: difficulty,
         winnability: winnability as 'Easy' | 'Medium' | 'Hard' | 'Very Hard',
-        searchVolume: formatSearchVolume(searchVolume),
+        searchVolume: formatSearchVolume(estimate.searchVolume),
         difficulty: winnability.toLowerCase() as 'easy' | 'medium' | 'hard'
       };
     })
   );
 
-  console.log('✅ Enhanced keywords with Google Search data');
+  // Only Google data that actually arrived counts - heuristic fallbacks alone are estimates
+  if (placedByTrends === 0 && countedBySearch === 0) {
+    console.warn('⚠️ No Google Trends or Custom Search data - all volumes are heuristic estimates');
+  } else {
+    console.log(
+      `✅ Google data: Trends index for ${placedByTrends}/${keywords.length} keywords` +
+      (calibration ? ` (calibrated via "${calibration.term}")` : ' (uncalibrated)') +
+      `, result counts for ${countedBySearch}`
+    );
+  }
   return {
     keywords: enhancedKeywords,
-    dataSource: 'google-data'
+    dataSource: placedByTrends > 0 || countedBySearch > 0 ? 'google-data' : 'heuristic',
+    risingQueries: trends?.risingQueries || []
   };
 };
 
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  parseTrendsJson,
+  parseInterestOverTime,
+  parseRisingQueries,
+  planTrendsBatches,
+  normalizeTrendsBatches,
+  getTrendsComparison
+} from './googleTrendsService';
+import { loadFixture } from './__fixtures__/loadFixture';
+
+// Terms of the recorded comparisons, in column order
+const BATCH_1 = ['metro rail', 'metro rail fare', 'dhaka metro', 'mrt line 6', 'rapid pass'];
+const BATCH_2 = ['metro rail', 'metro rail schedule', 'metro rail ticket', 'uttara metro', 'motijheel metro'];
+
+const multiline = (batch: 1 | 2) => parseTrendsJson<any>(loadFixture(`trends/multiline-batch${batch}.json`));
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+describe('parseTrendsJson', () => {
+  it('strips the anti-XSSI prefix of explore and widget answers', () => {
+    const explore = parseTrendsJson<{ widgets: Array<{ id: string; token: string }> }>(loadFixture('trends/explore.json'));
+    expect(explore.widgets.map(widget => widget.id)).toEqual([
+      'TIMESERIES', 'RELATED_QUERIES_0', 'RELATED_QUERIES_1', 'RELATED_QUERIES_2', 'RELATED_QUERIES_3', 'RELATED_QUERIES_4'
+    ]);
+    expect(explore.widgets[0].token).toMatch(/^APP6_/);
+  });
+});
+
+describe('parseInterestOverTime', () => {
+  it('returns the weekly values per term, by column', () => {
+    const series = parseInterestOverTime(multiline(1), BATCH_1);
+
+    expect([...series.keys()]).toEqual(BATCH_1);
+    for (const values of series.values()) expect(values).toHaveLength(52);
+    expect(BATCH_1.map(term => series.get(term)![0])).toEqual([84, 37, 26, 10, 4]);
+    // Trends scales each comparison so its highest weekly point is 100
+    expect(Math.max(...[...series.values()].flat())).toBe(100);
+  });
+
+  it('keys terms in lower case', () => {
+    const series = parseInterestOverTime(multiline(1), ['Metro Rail', ...BATCH_1.slice(1)]);
+    expect(series.get('metro rail')).toHaveLength(52);
+  });
+});
+
+describe('parseRisingQueries', () => {
+  it('reads the rising list and skips empty queries', () => {
+    const rising = parseRisingQueries(parseTrendsJson(loadFixture('trends/relatedsearches.json')), 'metro rail');
+
+    expect(rising).toEqual([
+      { keyword: 'metro rail', query: 'metro rail new fare', value: 41550, growth: 'Breakout' },
+      { keyword: 'metro rail', query: 'metro rail friday schedule', value: 250, growth: '+250%' },
+      { keyword: 'metro rail', query: 'kamalapur metro station', value: 90, growth: '+90%' }
+    ]);
+  });
+});
+
+describe('planTrendsBatches', () => {
+  it('starts every batch with the anchor and fills it up to five terms', () => {
+    const terms = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'];
+    expect(planTrendsBatches(terms, 'e')).toEqual([
+      ['e', 'a', 'b', 'c', 'd'],
+      ['e', 'f', 'g', 'h', 'i']
+    ]);
+  });
+
+  it('does not repeat the anchor inside a batch', () => {
+    expect(planTrendsBatches(['Metro Rail', 'x', 'y'], 'metro rail')).toEqual([['metro rail', 'x', 'y']]);
+  });
+});
+
+describe('normalizeTrendsBatches', () => {
+  const batch1 = parseInterestOverTime(multiline(1), BATCH_1);
+  const batch2 = parseInterestOverTime(multiline(2), BATCH_2);
+  const interest = normalizeTrendsBatches([batch1, batch2], 'metro rail');
+
+  it('rescales later batches onto the first batch through the anchor', () => {
+    // "metro rail schedule" is searched about twice as much as the anchor, so it becomes the top term
+    expect(interest.get('metro rail schedule')!.average).toBe(100);
+    const anchorShare = mean(batch2.get('metro rail')!) / mean(batch2.get('metro rail schedule')!);
+    expect(Math.abs(interest.get('metro rail')!.average - 100 * anchorShare)).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps the ratios within the first batch', () => {
+    const anchor = interest.get('metro rail')!.average;
+    for (const term of BATCH_1.slice(1)) {
+      const expected = anchor * mean(batch1.get(term)!) / mean(batch1.get('metro rail')!);
+      expect(Math.abs(interest.get(term)!.average - expected)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('keeps the ratios within later batches', () => {
+    const anchor = interest.get('metro rail')!.average;
+    const expected = anchor * mean(batch2.get('metro rail ticket')!) / mean(batch2.get('metro rail')!);
+    expect(Math.abs(interest.get('metro rail ticket')!.average - expected)).toBeLessThanOrEqual(1);
+  });
+
+  it('reports a low-high band around the average', () => {
+    for (const { average, low, high } of interest.values()) {
+      expect(low).toBeLessThanOrEqual(average);
+      expect(high).toBeGreaterThanOrEqual(average);
+    }
+    expect(interest.get('motijheel metro')).toEqual({ average: 0, low: 0, high: 0 });
+  });
+
+  it('leaves out a batch whose anchor shows no interest', () => {
+    const silent = new Map([['metro rail', [0, 0]], ['ghost term', [50, 60]]]);
+    const result = normalizeTrendsBatches([batch1, silent], 'metro rail');
+    expect(result.has('ghost term')).toBe(false);
+    expect(result.get('metro rail')!.average).toBe(100);
+  });
+});
+
+describe('getTrendsComparison', () => {
+  const TERMS = [...BATCH_1, ...BATCH_2.slice(1)];
+  const BOTH_BATCHES = [
+    'trends/explore.json', 'trends/multiline-batch1.json',
+    'trends/explore.json', 'trends/multiline-batch2.json'
+  ];
+
+  // Answers in order, by fixture path; null answers 429 (rate limit)
+  const stubTrends = (fixtures: Array<string | null>) => {
+    const requested: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const target = new URL(decodeURIComponent(url.split('url=')[1]));
+      requested.push(target.pathname.replace('/trends/api/', ''));
+      const fixture = fixtures.shift();
+      return fixture ? new Response(loadFixture(fixture), { status: 200 }) : new Response('', { status: 429 });
+    }));
+    return requested;
+  };
+
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('runs anchored batches and merges them on one scale', async () => {
+    const requested = stubTrends([...BOTH_BATCHES]);
+
+    const comparison = await getTrendsComparison(TERMS);
+
+    expect(requested).toEqual(['explore', 'widgetdata/multiline', 'explore', 'widgetdata/multiline']);
+    expect(comparison?.anchor).toBe('metro rail');
+    expect(comparison?.interest.get('metro rail schedule')?.average).toBe(100);
+    expect(comparison?.interest.size).toBe(9);
+
+    // Complete comparisons are answered from the cache
+    stubTrends([]);
+    expect((await getTrendsComparison(TERMS))?.interest.size).toBe(9);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('does not cache a comparison whose second batch failed', async () => {
+    stubTrends(['trends/explore.json', 'trends/multiline-batch1.json', null]);
+    const partial = await getTrendsComparison(TERMS);
+
+    expect(partial?.interest.size).toBe(5);
+    expect(partial?.interest.has('metro rail schedule')).toBe(false);
+
+    // Trends answers again: the rerun compares every keyword
+    const requested = stubTrends([...BOTH_BATCHES]);
+    const rerun = await getTrendsComparison(TERMS);
+
+    expect(requested).toHaveLength(4);
+    expect(rerun?.interest.size).toBe(9);
+  });
+
+  it('returns null when the first batch is rate-limited', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429 })));
+    expect(await getTrendsComparison(['budget 2026', 'vat'])).toBeNull();
+  });
+});
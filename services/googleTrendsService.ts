@@ -0,0 +1,305 @@
+/**
+ * Google Trends Client (unofficial web endpoints, through the fetch proxy)
+ * - Interest over time: last 12 months, Bangladesh by default
+ * - Comparisons of up to 5 keywords (Trends' own limit); longer lists are split into
+ *   batches that all contain one anchor keyword, so every batch can be rescaled onto
+ *   the first batch's scale
+ * - Related rising queries per keyword
+ *
+ * Trends scores are relative (the most searched term of the comparison = 100), never
+ * absolute volumes. Trends also rate-limits cookie-less clients (HTTP 429); callers fall
+ * back to the heuristic in googleSearchService.ts for anything missing here.
+ *
+ * The proxy must allow trends.google.com (see server/fetchProxy.js DEFAULT_ALLOWLIST).
+ */
+
+import type { RisingQuery } from '../types';
+import { buildProxyUrl } from './articleExtractor';
+import { getCachedMetric, setCachedMetrics, METRICS_CACHE_TTL_MS } from './metricsCache';
+
+const TRENDS_API_URL = 'https://trends.google.com/trends/api';
+const TRENDS_TIME_RANGE = 'today 12-m';
+const TRENDS_TIMEZONE = -360;   // Minutes west of UTC - Bangladesh is UTC+6
+
+export const TRENDS_BATCH_SIZE = 5;
+
+export interface TrendsInterest {
+  average: number;   // 0-100 on the comparison's common scale
+  low: number;       // 10th percentile of the weekly values
+  high: number;      // 90th percentile
+}
+
+export interface TrendsComparison {
+  interest: Map<string, TrendsInterest>;   // By lowercased term; terms Trends could not place are missing
+  anchor?: string;                          // Term every later batch was rescaled against
+  risingQueries: RisingQuery[];
+}
+
+interface TrendsWidget {
+  id: string;
+  token: string;
+  request: {
+    restriction?: { complexKeywordsRestriction?: { keyword?: Array<{ value: string }> } };
+  } & Record<string, unknown>;
+}
+
+// One comparison's weekly values per term, before rescaling
+type BatchSeries = Map<string, number[]>;
+
+/**
+ * Parses a Trends answer (JSON behind a ")]}'" anti-XSSI prefix)
+ */
+export const parseTrendsJson = <T>(text: string): T =>
+  JSON.parse(text.replace(/^\)\]\}',?\s*/, '')) as T;
+
+const buildTrendsUrl = (path: string, params: Record<string, string>): string =>
+  `${TRENDS_API_URL}/${path}?${new URLSearchParams({ hl: 'en-US', tz: String(TRENDS_TIMEZONE), ...params })}`;
+
+const fetchTrends = async <T>(path: string, params: Record<string, string>, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(buildProxyUrl(buildTrendsUrl(path, params)), {
+    signal,
+    headers: { 'Accept': 'application/json, text/plain, */*' }
+  });
+
+  if (response.status === 403) {
+    throw new Error('The fetch proxy refused Google Trends. Add trends.google.com to FETCH_PROXY_ALLOWLIST.');
+  }
+  if (response.status === 429) {
+    throw new Error('Google Trends rate limit reached (HTTP 429).');
+  }
+  if (!response.ok) {
+    throw new Error(`Google Trends request failed (Status ${response.status}).`);
+  }
+
+  return parseTrendsJson<T>(await response.text());
+};
+
+/**
+ * Explore step: returns the widget tokens the data endpoints need
+ */
+const fetchExploreWidgets = async (terms: string[], geo: string, signal?: AbortSignal): Promise<TrendsWidget[]> => {
+  const req = {
+    comparisonItem: terms.map(keyword => ({ keyword, geo, time: TRENDS_TIME_RANGE })),
+    category: 0,
+    property: ''
+  };
+  const data = await fetchTrends<{ widgets?: TrendsWidget[] }>('explore', { req: JSON.stringify(req) }, signal);
+  return data.widgets || [];
+};
+
+/**
+ * Weekly values per term from a multiline (interest over time) answer
+ * Columns follow the order of the terms in the comparison
+ */
+export const parseInterestOverTime = (
+  data: { default?: { timelineData?: Array<{ value?: number[] }> } },
+  terms: string[]
+): BatchSeries => {
+  const series: BatchSeries = new Map(terms.map(term => [term.toLowerCase(), [] as number[]]));
+  for (const point of data.default?.timelineData || []) {
+    terms.forEach((term, index) => {
+      const value = point.value?.[index];
+      if (typeof value === 'number') series.get(term.toLowerCase())!.push(value);
+    });
+  }
+  return series;
+};
+
+/**
+ * Rising queries from a relatedsearches answer (second ranked list; the first is "top")
+ */
+export const parseRisingQueries = (
+  data: { default?: { rankedList?: Array<{ rankedKeyword?: Array<{ query?: string; value?: number; formattedValue?: string }> }> } },
+  keyword: string
+): RisingQuery[] =>
+  (data.default?.rankedList?.[1]?.rankedKeyword || [])
+    .filter(entry => typeof entry.query === 'string' && entry.query.trim())
+    .map(entry => ({
+      keyword,
+      query: entry.query!.trim(),
+      value: typeof entry.value === 'number' ? entry.value : 0,
+      growth: entry.formattedValue || `+${entry.value ?? 0}%`
+    }));
+
+const average = (values: number[]): number =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * (sorted.length - 1) + 0.5))];
+};
+
+/**
+ * Splits terms into comparisons of TRENDS_BATCH_SIZE; every batch after the first
+ * starts with the anchor, leaving room for 4 new terms
+ */
+export const planTrendsBatches = (terms: string[], anchor: string): string[][] => {
+  const rest = terms.filter(term => term.toLowerCase() !== anchor.toLowerCase());
+  const batches: string[][] = [];
+  for (let i = 0; i < rest.length; i += TRENDS_BATCH_SIZE - 1) {
+    batches.push([anchor, ...rest.slice(i, i + TRENDS_BATCH_SIZE - 1)]);
+  }
+  return batches;
+};
+
+/**
+ * Puts batches on one scale: each batch is multiplied so its anchor matches the
+ * anchor's average in the first batch, then everything is scaled so the top term is 100
+ * Batches where the anchor shows no interest cannot be placed and are left out
+ */
+export const normalizeTrendsBatches = (batches: BatchSeries[], anchor: string): Map<string, TrendsInterest> => {
+  const anchorKey = anchor.toLowerCase();
+  const reference = average(batches[0]?.get(anchorKey) || []);
+  const scaled = new Map<string, number[]>();
+
+  batches.forEach((batch, index) => {
+    const anchorAverage = average(batch.get(anchorKey) || []);
+    if (index > 0 && (anchorAverage === 0 || reference === 0)) return;
+    const factor = index === 0 ? 1 : reference / anchorAverage;
+    batch.forEach((values, term) => {
+      if (!scaled.has(term)) scaled.set(term, values.map(value => value * factor));
+    });
+  });
+
+  const top = Math.max(0, ...[...scaled.values()].map(average));
+  const toScale = (value: number) => top > 0 ? Math.round(Math.min(100, (value / top) * 100)) : 0;
+
+  const interest = new Map<string, TrendsInterest>();
+  scaled.forEach((values, term) => {
+    const mean = toScale(average(values));
+    interest.set(term, {
+      average: mean,
+      low: Math.min(mean, toScale(percentile(values, 0.1))),
+      high: Math.max(mean, toScale(percentile(values, 0.9)))
+    });
+  });
+  return interest;
+};
+
+/**
+ * Interest over time for one comparison, plus rising queries for the terms in relatedFor
+ */
+const fetchComparison = async (
+  terms: string[],
+  geo: string,
+  relatedFor: Set<string>,
+  signal?: AbortSignal
+): Promise<{ series: BatchSeries; risingQueries: RisingQuery[] }> => {
+  const widgets = await fetchExploreWidgets(terms, geo, signal);
+
+  const timeseries = widgets.find(widget => widget.id === 'TIMESERIES');
+  if (!timeseries) {
+    throw new Error('Google Trends returned no interest-over-time data.');
+  }
+  const series = parseInterestOverTime(
+    await fetchTrends('widgetdata/multiline', { req: JSON.stringify(timeseries.request), token: timeseries.token }, signal),
+    terms
+  );
+
+  const risingQueries: RisingQuery[] = [];
+  if (relatedFor.size > 0) {
+    for (const widget of widgets.filter(w => w.id.startsWith('RELATED_QUERIES'))) {
+      const keyword = widget.request.restriction?.complexKeywordsRestriction?.keyword?.[0]?.value || terms[0];
+      if (!relatedFor.has(keyword.toLowerCase())) continue;
+      try {
+        risingQueries.push(...parseRisingQueries(
+          await fetchTrends('widgetdata/relatedsearches', { req: JSON.stringify(widget.request), token: widget.token }, signal),
+          keyword
+        ));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn(`Google Trends related queries failed for "${keyword}":`, error);
+      }
+    }
+  }
+
+  return { series, risingQueries };
+};
+
+interface CachedComparison {
+  interest: Array<[string, TrendsInterest]>;
+  anchor?: string;
+  risingQueries: RisingQuery[];
+}
+
+/**
+ * Compares any number of keywords on one Trends scale
+ * The first batch picks the anchor (its most searched term), so put the most important
+ * terms first; a failed first batch (usually a rate limit) stops the run, later
+ * failures only lose that batch. Only complete comparisons are cached, so keywords
+ * left out get their Trends data on the next run
+ *
+ * @param options.relatedQueriesFor - Terms to fetch rising queries for (one extra request each)
+ * @returns null when Trends could not be reached at all
+ */
+export const getTrendsComparison = async (
+  keywords: string[],
+  options: { geo?: string; relatedQueriesFor?: string[]; signal?: AbortSignal } = {}
+): Promise<TrendsComparison | null> => {
+  const geo = options.geo || 'BD';
+  const terms = [...new Map(keywords.map(k => k.trim()).filter(Boolean).map(k => [k.toLowerCase(), k])).values()];
+  if (terms.length === 0) return null;
+
+  const relatedFor = new Set((options.relatedQueriesFor || []).map(term => term.trim().toLowerCase()).filter(Boolean));
+  const cacheNamespace = `google-trends:${geo}`;
+  const cacheTerm = [terms.map(term => term.toLowerCase()).join('|'), [...relatedFor].sort().join('|')].join('#');
+  const cached = getCachedMetric<CachedComparison>(cacheNamespace, cacheTerm);
+  if (cached) {
+    return { ...cached, interest: new Map(cached.interest) };
+  }
+
+  const batches: BatchSeries[] = [];
+  const risingQueries: RisingQuery[] = [];
+  let anchor: string | undefined;
+  let complete = true;   // Every planned batch answered
+
+  try {
+    const first = await fetchComparison(terms.slice(0, TRENDS_BATCH_SIZE), geo, relatedFor, options.signal);
+    batches.push(first.series);
+    risingQueries.push(...first.risingQueries);
+
+    // The most searched term has the finest resolution as a reference
+    const [topTerm, topValues] = [...first.series.entries()].sort((a, b) => average(b[1]) - average(a[1]))[0];
+    if (average(topValues) > 0) {
+      anchor = terms.find(term => term.toLowerCase() === topTerm);
+    }
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.warn('Google Trends request failed:', error);
+    return null;
+  }
+
+  if (anchor) {
+    for (const batch of planTrendsBatches(terms.slice(TRENDS_BATCH_SIZE), anchor)) {
+      try {
+        const next = await fetchComparison(batch, geo, relatedFor, options.signal);
+        batches.push(next.series);
+        risingQueries.push(...next.risingQueries.filter(query => query.keyword.toLowerCase() !== anchor!.toLowerCase()));
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn(`Google Trends batch failed (${batch.join(', ')}):`, error);
+        complete = false;
+      }
+    }
+  } else if (terms.length > TRENDS_BATCH_SIZE) {
+    console.warn('Google Trends: no anchor with measurable interest - remaining keywords are not compared');
+    complete = false;
+  }
+
+  const comparison: TrendsComparison = {
+    interest: normalizeTrendsBatches(batches, anchor || terms[0]),
+    anchor,
+    risingQueries
+  };
+
+  if (complete) {
+    setCachedMetrics(cacheNamespace, [[cacheTerm, {
+      interest: [...comparison.interest.entries()],
+      anchor,
+      risingQueries
+    } satisfies CachedComparison]], METRICS_CACHE_TTL_MS.googleTrends);
+  }
+
+  return comparison;
+};
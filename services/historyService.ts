@@ -0,0 +1,114 @@
+/**
+ * Analysis History (IndexedDB)
+ * - Saves every finished analysis: article text, URL, provider, mode, full result
+ * - Reopening an entry restores the result without calling the AI again
+ * - Search, delete and JSON export for the history sidebar
+ *
+ * IndexedDB (not localStorage) because articles and results easily exceed
+ * localStorage's ~5 MB limit after a few days of use.
+ */
+
+import type { AIProviderId, HistoryEntry, KeywordResult } from '../types';
+import { HISTORY_STORE, runRequest } from './localDatabase';
+
+// Oldest entries are pruned beyond this
+const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * All entries, newest first
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  try {
+    const entries = await runRequest(HISTORY_STORE, 'readonly', store => store.getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.warn('History not available:', error);
+    return [];
+  }
+};
+
+/**
+ * Saves a finished analysis
+ * Never throws - a history failure must not break keyword generation
+ */
+export const saveHistoryEntry = async (entry: {
+  articleContent: string;
+  articleUrl?: string;
+  provider: AIProviderId;
+  model?: string;
+  useDeepAnalysis: boolean;
+  result: KeywordResult;
+}): Promise<HistoryEntry | null> => {
+  const saved: HistoryEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+    articleTitle: entry.articleContent.trim().split('\n')[0].slice(0, 160) || 'Untitled article',
+    ...entry
+  };
+
+  try {
+    await runRequest(HISTORY_STORE, 'readwrite', store => store.put(saved));
+    console.log(`🕘 Saved to history: "${saved.articleTitle}"`);
+
+    const entries = await listHistoryEntries();
+    for (const old of entries.slice(MAX_HISTORY_ENTRIES)) {
+      await deleteHistoryEntry(old.id);
+    }
+
+    return saved;
+  } catch (error) {
+    console.error('Failed to save analysis to history:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete one history entry
+ */
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  try {
+    await runRequest(HISTORY_STORE, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error('Failed to delete history entry:', error);
+  }
+};
+
+/**
+ * Delete all history entries
+ */
+export const clearHistory = async (): Promise<void> => {
+  try {
+    await runRequest(HISTORY_STORE, 'readwrite', store => store.clear());
+    console.log('History cleared');
+  } catch (error) {
+    console.error('Failed to clear history:', error);
+  }
+};
+
+/**
+ * Filters entries by title, URL, content type or any keyword term
+ */
+export const searchHistoryEntries = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+
+  return entries.filter(entry => {
+    const { result } = entry;
+    const haystack = [
+      entry.articleTitle,
+      entry.articleUrl,
+      result.contentType,
+      result.metaTitle,
+      ...result.primary.map(k => k.term),
+      ...result.secondary.map(k => k.term),
+      ...result.longtail.map(k => k.term)
+    ];
+    return haystack.some(value => value?.toLowerCase().includes(needle));
+  });
+};
+
+/**
+ * JSON export of history entries (full article text and results)
+ */
+export const exportHistoryJson = (entries: HistoryEntry[]): string =>
+  JSON.stringify(entries, null, 2);
@@ -0,0 +1,263 @@
+/**
+ * On-page Keyword Coverage
+ * - Bangla-aware tokenizing (Bengali vowel signs, hasant and ZWJ/ZWNJ stay inside
+ *   words; dari/danda are separators) and light stemming of English and Bangla suffixes
+ * - Exact and partial (inflected) matches, keyword words found anywhere
+ * - Presence in the title, first paragraph and subheads; keyword density
+ * - Per-keyword coverage score (0-100) used as article relevance in ranking confidence
+ * - Occurrence ranges for highlighting the article text
+ */
+
+import type { Keyword, KeywordResult } from '../types';
+
+export interface KeywordCoverage {
+  term: string;
+  exactCount: number;
+  partialCount: number;       // Inflected forms (e.g. "বাজেটে", "budgets") - not counted in exactCount
+  wordCoverage: number;       // Share of the keyword's words found anywhere (0-1)
+  inTitle: boolean;
+  inFirstParagraph: boolean;
+  inSubheads: boolean;
+  density: number;            // Exact + partial keyword words / article words, in percent
+  score: number;              // 0-100
+}
+
+export interface KeywordOccurrence {
+  start: number;              // Character offsets in the article text
+  end: number;
+  term: string;
+  kind: 'exact' | 'partial';
+}
+
+interface Token {
+  text: string;               // Normalized (NFC, lowercase, no ZWJ/ZWNJ)
+  stem: string;
+  start: number;
+  end: number;
+}
+
+interface ArticleSection {
+  tokens: Token[];
+  kind: 'title' | 'subhead' | 'paragraph';
+}
+
+export interface ArticleStructure {
+  tokens: Token[];
+  sections: ArticleSection[];
+  wordCount: number;
+}
+
+// Letters, marks (Bengali vowel signs, hasant, chandrabindu) and digits, plus joiners
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}\u200c\u200d]+/gu;
+
+// Longest first - only stripped when at least two characters of the word remain
+const BANGLA_SUFFIXES = [
+  'গুলোর', 'গুলির', 'গুলো', 'গুলি', 'দেরকে', 'দের', 'েরা', 'ের', 'কে', 'তে', 'রা', 'টির', 'টার', 'টি', 'টা', '\u09AF\u09BC\u09C7', '\u09AF\u09BC', 'র', 'ে', 'ও', 'ই'
+];
+
+const ENGLISH_SUFFIX = /(ies|ing|ed|(?<=(?:s|x|z|ch|sh))es|s)$/;
+
+const isBanglaWord = (word: string): boolean => /[ঀ-৿]/.test(word);
+
+const normalizeWord = (word: string): string =>
+  word.normalize('NFC').toLowerCase().replace(/[\u200c\u200d]/g, '');
+
+/**
+ * Strips common inflections: Bangla case/plural/determiner suffixes,
+ * English plural/tense endings
+ */
+export const stemWord = (word: string): string => {
+  if (isBanglaWord(word)) {
+    // Twice, so "সরকারের" and "সরকার" end up the same even though "র" is also a suffix
+    let stem = word;
+    for (let pass = 0; pass < 2; pass++) {
+      const suffix = BANGLA_SUFFIXES.find(s => stem.endsWith(s) && [...stem.slice(0, -s.length)].length >= 2);
+      if (!suffix) break;
+      stem = stem.slice(0, -suffix.length);
+    }
+    return stem;
+  }
+  // Trailing "e" goes too, so "fare"/"fares" and "rise"/"rising" share a stem
+  const suffix = word.endsWith('ss') ? null : word.match(ENGLISH_SUFFIX)?.[0];
+  let stem = suffix && word.length - suffix.length >= 3
+    ? word.slice(0, -suffix.length) + (suffix === 'ies' ? 'y' : '')
+    : word;
+  if (stem.length > 3 && stem.endsWith('e')) stem = stem.slice(0, -1);
+  return stem;
+};
+
+/**
+ * Words with their character offsets in the original text
+ */
+export const tokenizeWithOffsets = (text: string, offset = 0): Token[] =>
+  [...text.matchAll(WORD_PATTERN)].map(match => {
+    const normalized = normalizeWord(match[0]);
+    return { text: normalized, stem: stemWord(normalized), start: offset + match.index!, end: offset + match.index! + match[0].length };
+  });
+
+// Short single-line block not ending like a sentence (question subheads are fine), or a markdown heading
+const isSubhead = (block: string): boolean =>
+  /^#{1,6}\s/.test(block) || (block.length <= 90 && !block.includes('\n') && !/[.!।:;]["'”’)]?$/.test(block));
+
+export interface ArticleBlock {
+  text: string;               // Block text as written (not trimmed)
+  start: number;              // Character offsets in the article text
+  end: number;
+  kind: 'title' | 'subhead' | 'paragraph';
+}
+
+/**
+ * Splits the article into blocks separated by blank lines: title (first block), subheads, paragraphs
+ * Fetched articles are "title\n\nblock\n\nblock" (articleExtractor.ts); pasted drafts usually are too
+ */
+export const splitArticleBlocks = (content: string): ArticleBlock[] => {
+  const blocks: ArticleBlock[] = [];
+  for (const match of content.matchAll(/[^\n]+(?:\n(?!\s*\n)[^\n]+)*/g)) {
+    const trimmed = match[0].trim();
+    if (!trimmed) continue;
+    blocks.push({
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+      kind: blocks.length === 0 ? 'title' : isSubhead(trimmed) ? 'subhead' : 'paragraph'
+    });
+  }
+  return blocks;
+};
+
+/**
+ * Article tokens, grouped by block
+ */
+export const parseArticleStructure = (content: string): ArticleStructure => {
+  const sections: ArticleSection[] = splitArticleBlocks(content).map(block => ({
+    tokens: tokenizeWithOffsets(block.text, block.start),
+    kind: block.kind
+  }));
+  const tokens = sections.flatMap(section => section.tokens);
+  return { tokens, sections, wordCount: tokens.length };
+};
+
+/**
+ * Start indexes of the keyword's word sequence in the tokens
+ */
+const findSequence = (tokens: Token[], words: string[], field: 'text' | 'stem'): number[] => {
+  const starts: number[] = [];
+  for (let i = 0; i + words.length <= tokens.length; i++) {
+    if (words.every((word, j) => tokens[i + j][field] === word)) starts.push(i);
+  }
+  return starts;
+};
+
+/**
+ * Exact and partial occurrences of one keyword (exact wins where both match)
+ */
+const matchKeyword = (tokens: Token[], term: string): Array<{ index: number; length: number; kind: 'exact' | 'partial' }> => {
+  const words = tokenizeWithOffsets(term);
+  if (words.length === 0) return [];
+
+  const exact = findSequence(tokens, words.map(w => w.text), 'text');
+  const partial = findSequence(tokens, words.map(w => w.stem), 'stem').filter(index => !exact.includes(index));
+  return [
+    ...exact.map(index => ({ index, length: words.length, kind: 'exact' as const })),
+    ...partial.map(index => ({ index, length: words.length, kind: 'partial' as const }))
+  ];
+};
+
+/**
+ * Spellings of the keyword to look for (term plus its Bangla/English forms)
+ */
+const keywordVariants = (keyword: Keyword): string[] =>
+  [...new Set([keyword.term, keyword.termBangla, keyword.termEnglish].filter((v): v is string => !!v?.trim()))];
+
+const scoreCoverage = (coverage: Omit<KeywordCoverage, 'score'>): number => {
+  let score = coverage.exactCount > 0 ? 40 : coverage.partialCount > 0 ? 30 : Math.round(coverage.wordCoverage * 20);
+  if (coverage.inTitle) score += 20;
+  if (coverage.inFirstParagraph) score += 15;
+  if (coverage.inSubheads) score += 10;
+
+  // Natural use scores best; stuffing scores like a single mention
+  if (coverage.density >= 0.3 && coverage.density <= 3) score += 15;
+  else if (coverage.density > 0) score += 7;
+
+  return Math.min(100, score);
+};
+
+/**
+ * Coverage of one keyword in the article (best of its spellings)
+ */
+export const analyzeKeywordCoverage = (keyword: Keyword, article: ArticleStructure): KeywordCoverage => {
+  const firstParagraph = article.sections.find(section => section.kind === 'paragraph');
+  const inSection = (section: ArticleSection | undefined, term: string) =>
+    !!section && matchKeyword(section.tokens, term).length > 0;
+
+  let best: KeywordCoverage | null = null;
+  for (const term of keywordVariants(keyword)) {
+    const matches = matchKeyword(article.tokens, term);
+    const words = tokenizeWithOffsets(term);
+    const stems = new Set(article.tokens.map(token => token.stem));
+    const matchedWords = matches.reduce((sum, match) => sum + match.length, 0);
+
+    const coverage: Omit<KeywordCoverage, 'score'> = {
+      term: keyword.term,
+      exactCount: matches.filter(m => m.kind === 'exact').length,
+      partialCount: matches.filter(m => m.kind === 'partial').length,
+      wordCoverage: words.length ? words.filter(w => stems.has(w.stem)).length / words.length : 0,
+      inTitle: inSection(article.sections.find(section => section.kind === 'title'), term),
+      inFirstParagraph: inSection(firstParagraph, term),
+      inSubheads: article.sections.some(section => section.kind === 'subhead' && inSection(section, term)),
+      density: article.wordCount ? Math.round((matchedWords / article.wordCount) * 10000) / 100 : 0
+    };
+    const scored = { ...coverage, score: scoreCoverage(coverage) };
+    if (!best || scored.score > best.score) best = scored;
+  }
+
+  return best || {
+    term: keyword.term, exactCount: 0, partialCount: 0, wordCoverage: 0,
+    inTitle: false, inFirstParagraph: false, inSubheads: false, density: 0, score: 0
+  };
+};
+
+/**
+ * Coverage scores by lowercased term, for calculateRankingConfidence
+ */
+export const buildCoverageScores = (
+  articleContent: string,
+  result: Pick<KeywordResult, 'primary' | 'secondary' | 'longtail'>
+): Record<string, number> => {
+  const article = parseArticleStructure(articleContent);
+  const scores: Record<string, number> = {};
+  for (const keyword of [...result.primary, ...result.secondary, ...result.longtail]) {
+    scores[keyword.term.toLowerCase()] = analyzeKeywordCoverage(keyword, article).score;
+  }
+  return scores;
+};
+
+/**
+ * Character ranges of every keyword occurrence, sorted and non-overlapping
+ * (the longest match wins where keywords overlap)
+ */
+export const findKeywordOccurrences = (content: string, keywords: Keyword[]): KeywordOccurrence[] => {
+  const { tokens } = parseArticleStructure(content);
+  const found: KeywordOccurrence[] = [];
+
+  for (const keyword of keywords) {
+    for (const term of keywordVariants(keyword)) {
+      for (const match of matchKeyword(tokens, term)) {
+        found.push({
+          start: tokens[match.index].start,
+          end: tokens[match.index + match.length - 1].end,
+          term: keyword.term,
+          kind: match.kind
+        });
+      }
+    }
+  }
+
+  found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const occurrences: KeywordOccurrence[] = [];
+  for (const occurrence of found) {
+    const last = occurrences[occurrences.length - 1];
+    if (!last || occurrence.start >= last.end) occurrences.push(occurrence);
+  }
+  return occurrences;
+};
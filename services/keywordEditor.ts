@@ -0,0 +1,130 @@
+/**
+ * Keyword Editor
+ * - Add, remove, move (re-categorize) and lock keywords in a result
+ * - Locked keywords survive regeneration and are passed to the prompt
+ *
+ * Edits return a new result. Added and moved keywords lose their scores;
+ * refreshEditedResult (keywordPipeline.ts) enriches them again.
+ */
+
+import type { Keyword, KeywordResult } from '../types';
+import { calculateSimilarity } from './keywordUtils';
+import type { EnrichedCategory } from './keywordPipeline';
+
+export type LockedKeywords = Record<EnrichedCategory, Keyword[]>;
+
+const ENRICHED_CATEGORIES: EnrichedCategory[] = ['primary', 'secondary', 'longtail'];
+
+// Same threshold the pipeline uses for duplicates
+const DUPLICATE_THRESHOLD = 0.8;
+
+export const sameTerm = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Keyword without its enrichment, so it is scored again for its new category
+ * (difficulty estimates depend on the category)
+ */
+const stripEnrichment = ({ term, rationale, searchIntent, termBangla, termEnglish, locked, addedByEditor }: Keyword): Keyword => ({
+  term, rationale, searchIntent, termBangla, termEnglish, locked, addedByEditor
+});
+
+export const needsEnrichment = (keyword: Keyword): boolean => keyword.difficultyScore === undefined;
+
+/**
+ * Category that currently holds the term, if any
+ */
+export const findKeywordCategory = (result: KeywordResult, term: string): EnrichedCategory | null =>
+  ENRICHED_CATEGORIES.find(category => result[category].some(k => sameTerm(k.term, term))) || null;
+
+/**
+ * Adds an editor keyword (locked, so the next analysis keeps it)
+ * Throws when the term is empty or already in the result
+ */
+export const addKeyword = (result: KeywordResult, category: EnrichedCategory, term: string): KeywordResult => {
+  const trimmed = term.trim();
+  if (!trimmed) {
+    throw new Error('Enter a keyword first.');
+  }
+  const existing = findKeywordCategory(result, trimmed);
+  if (existing) {
+    throw new Error(`"${trimmed}" is already in ${existing} keywords.`);
+  }
+
+  const keyword: Keyword = {
+    term: trimmed,
+    rationale: 'Added by editor',
+    locked: true,
+    addedByEditor: true,
+    ...(/[ঀ-৿]/.test(trimmed) ? { termBangla: trimmed } : {})
+  };
+  return { ...result, [category]: [...result[category], keyword] };
+};
+
+export const removeKeyword = (result: KeywordResult, category: EnrichedCategory, term: string): KeywordResult => ({
+  ...result,
+  [category]: result[category].filter(k => !sameTerm(k.term, term))
+});
+
+/**
+ * Moves a keyword to another category (appended at the end)
+ */
+export const moveKeyword = (
+  result: KeywordResult,
+  from: EnrichedCategory,
+  to: EnrichedCategory,
+  term: string
+): KeywordResult => {
+  const keyword = result[from].find(k => sameTerm(k.term, term));
+  if (!keyword || from === to) return result;
+
+  return {
+    ...result,
+    [from]: result[from].filter(k => k !== keyword),
+    [to]: [...result[to], stripEnrichment(keyword)]
+  };
+};
+
+export const toggleKeywordLock = (result: KeywordResult, category: EnrichedCategory, term: string): KeywordResult => ({
+  ...result,
+  [category]: result[category].map(k => sameTerm(k.term, term) ? { ...k, locked: !k.locked } : k)
+});
+
+export const unlockAllKeywords = (result: KeywordResult): KeywordResult => ({
+  ...result,
+  primary: result.primary.map(k => ({ ...k, locked: false })),
+  secondary: result.secondary.map(k => ({ ...k, locked: false })),
+  longtail: result.longtail.map(k => ({ ...k, locked: false }))
+});
+
+/**
+ * Locked keywords per category
+ */
+export const getLockedKeywords = (result: KeywordResult): LockedKeywords => ({
+  primary: result.primary.filter(k => k.locked),
+  secondary: result.secondary.filter(k => k.locked),
+  longtail: result.longtail.filter(k => k.locked)
+});
+
+export const countLockedKeywords = (locked: LockedKeywords | undefined): number =>
+  locked ? ENRICHED_CATEGORIES.reduce((sum, category) => sum + locked[category].length, 0) : 0;
+
+/**
+ * Puts locked keywords back into a freshly generated result
+ * Locked keywords go first in their category; generated keywords that
+ * duplicate a locked one (in any category) are dropped.
+ * Ranking confidence is left to refreshEditedResult (keywordPipeline.ts).
+ */
+export const mergeLockedKeywords = (result: KeywordResult, locked: LockedKeywords): KeywordResult => {
+  const allLocked = ENRICHED_CATEGORIES.flatMap(category => locked[category]);
+  if (allLocked.length === 0) return result;
+
+  const isDuplicateOfLocked = (keyword: Keyword) =>
+    allLocked.some(l => sameTerm(l.term, keyword.term) || calculateSimilarity(l.term, keyword.term) >= DUPLICATE_THRESHOLD);
+
+  const merged = { ...result };
+  for (const category of ENRICHED_CATEGORIES) {
+    merged[category] = [...locked[category], ...result[category].filter(k => !isDuplicateOfLocked(k))];
+  }
+  console.log(`🔒 Kept ${allLocked.length} locked keyword(s)`);
+  return merged;
+};
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ArticleMetadata } from '../types';
+import type { KeywordProvider } from './keywordProvider';
+import { generateKeywordsWithProvider } from './keywordPipeline';
+import { buildCorrectionPrompt } from './prompts';
+import type { RetryPolicy } from './retryPolicy';
+
+// The result cache's IndexedDB store, in memory
+const cacheStore = vi.hoisted(() => new Map<string, unknown>());
+vi.mock('./localDatabase', () => ({
+  RESULT_CACHE_STORE: 'result_cache',
+  runRequest: async (_store: string, _mode: string, createRequest: (store: any) => { result: unknown }) =>
+    createRequest({
+      get: (key: string) => ({ result: cacheStore.get(key) }),
+      put: (value: { key: string }) => ({ result: cacheStore.set(value.key, value) && value.key }),
+      delete: (key: string) => ({ result: cacheStore.delete(key) })
+    }).result
+}));
+
+const ARTICLE = 'Dhaka metro rail fares will rise from next month. The metro rail fare chart lists every station.';
+
+const answer = JSON.stringify({
+  primary: [{ term: 'metro rail fare', rationale: 'Main topic' }],
+  secondary: [{ term: 'dhaka metro rail', rationale: 'Context' }],
+  longtail: [{ term: 'metro rail fare chart dhaka', rationale: 'Specific' }],
+  competitorInsights: 'None'
+});
+
+// Retries right away; results are not read from the cache (a previous test's save may land late)
+const QUICK_RETRY: RetryPolicy = { maxAttempts: 2, initialDelayMs: 1, backoffMultiplier: 1, maxDelayMs: 1, failover: true };
+
+const unavailable = () => Object.assign(new Error('Service unavailable'), { status: 503 });
+
+// Provider that answers with each entry of `answers` in turn (Errors are thrown)
+const fakeProvider = (id: KeywordProvider['id'], answers: Array<string | Error>) => {
+  const prompts: string[] = [];
+  const provider: KeywordProvider = {
+    id,
+    label: `Fake ${id}`,
+    tagline: '',
+    capabilities: { jsonMode: true, structuredOutput: true, grounding: false, streaming: false },
+    isConfigured: () => true,
+    describeModel: () => `${id}-test-model`,
+    generate: vi.fn(async ({ prompt }) => {
+      prompts.push(prompt);
+      const next = answers.shift() ?? answer;
+      if (next instanceof Error) throw next;
+      return { text: next, groundingChunks: [] };
+    }),
+    classifyContentType: vi.fn(async () => 'News Article')
+  };
+  return { provider, prompts };
+};
+
+describe('generateKeywordsWithProvider', () => {
+  beforeEach(() => {
+    cacheStore.clear();
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    // No Google data: enrichment falls back to estimates
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429 })));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  describe('retry and failover', () => {
+    it('retries a transient failure and returns the next answer', async () => {
+      const { provider } = fakeProvider('gemini', [unavailable()]);
+
+      const result = await generateKeywordsWithProvider(provider, ARTICLE, false, { retryPolicy: QUICK_RETRY, forceRefresh: true });
+
+      expect(provider.generate).toHaveBeenCalledTimes(2);
+      expect(result.primary.map(keyword => keyword.term)).toEqual(['metro rail fare']);
+      expect(result.generatedBy).toMatchObject({ provider: 'gemini', attempt: 2, totalAttempts: 2, failover: false });
+    });
+
+    it('fails over to the second provider once the first runs out of attempts', async () => {
+      const { provider } = fakeProvider('gemini', [unavailable(), unavailable()]);
+      const { provider: failoverProvider } = fakeProvider('openai', []);
+
+      const result = await generateKeywordsWithProvider(provider, ARTICLE, false, { retryPolicy: QUICK_RETRY, failoverProvider, forceRefresh: true });
+
+      expect(provider.generate).toHaveBeenCalledTimes(2);
+      expect(failoverProvider.generate).toHaveBeenCalledTimes(1);
+      expect(result.generatedBy).toMatchObject({ provider: 'openai', attempt: 1, totalAttempts: 3, failover: true });
+    });
+
+    it('rethrows an abort during the backoff without retrying or failing over', async () => {
+      const controller = new AbortController();
+      const cancelled = new DOMException('Cancelled by the user', 'AbortError');
+      const { provider } = fakeProvider('gemini', [unavailable()]);
+      const { provider: failoverProvider } = fakeProvider('openai', []);
+      // Cancel while the pipeline waits for the next attempt
+      vi.mocked(provider.generate).mockImplementationOnce(async () => {
+        setTimeout(() => controller.abort(cancelled), 10);
+        throw unavailable();
+      });
+
+      const run = generateKeywordsWithProvider(provider, ARTICLE, false, {
+        retryPolicy: { ...QUICK_RETRY, initialDelayMs: 60_000, maxDelayMs: 60_000 },
+        failoverProvider,
+        signal: controller.signal,
+        forceRefresh: true
+      });
+
+      await expect(run).rejects.toBe(cancelled);
+      expect(provider.generate).toHaveBeenCalledTimes(1);
+      expect(failoverProvider.generate).not.toHaveBeenCalled();
+      expect(failoverProvider.classifyContentType).not.toHaveBeenCalled();
+    });
+
+    it('appends a correction prompt after the answer failed the schema', async () => {
+      const { provider, prompts } = fakeProvider('gemini', [JSON.stringify({ primary: 'metro rail fare' })]);
+
+      await generateKeywordsWithProvider(provider, ARTICLE, false, { retryPolicy: QUICK_RETRY, forceRefresh: true });
+
+      expect(prompts).toHaveLength(2);
+      expect(prompts[1]).toBe(prompts[0] + buildCorrectionPrompt(
+        'The AI response did not contain any keywords in the expected structure. Please try again or use Deep Analysis mode.'
+      ));
+    });
+
+    it('resends a transient failure without a correction prompt', async () => {
+      const { provider, prompts } = fakeProvider('gemini', [unavailable()]);
+
+      await generateKeywordsWithProvider(provider, ARTICLE, false, { retryPolicy: QUICK_RETRY, forceRefresh: true });
+
+      expect(prompts[1]).toBe(prompts[0]);
+    });
+  });
+
+  describe('result cache', () => {
+    // Never saved by the retry tests above
+    const CACHED_ARTICLE = `${ARTICLE} Fares were last revised in 2022.`;
+
+    it('rescores freshness on a cache hit as the article ages', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+      const { provider } = fakeProvider('gemini', []);
+      const metadata: ArticleMetadata = { publishedTime: '2026-10-19T09:00:00Z' };
+
+      const first = await generateKeywordsWithProvider(provider, CACHED_ARTICLE, false, { metadata });
+      vi.setSystemTime(new Date('2026-10-24T10:00:00Z'));
+      const later = await generateKeywordsWithProvider(provider, CACHED_ARTICLE, false, { metadata });
+
+      expect(provider.generate).toHaveBeenCalledTimes(1);
+      expect(later.cachedAt).toBeDefined();
+      expect(first.rankingConfidence?.factors.freshnessBonus).toBe(100);
+      expect(later.rankingConfidence?.factors.freshnessBonus).toBe(50);
+    });
+
+    it('classifies again when the article arrives with different publisher metadata', async () => {
+      const { provider } = fakeProvider('gemini', []);
+      const fetched: ArticleMetadata = { section: 'Business', publishedTime: '2026-10-19T09:00:00Z', title: 'Metro fares rise' };
+
+      await generateKeywordsWithProvider(provider, CACHED_ARTICLE, false);
+      const byUrl = await generateKeywordsWithProvider(provider, CACHED_ARTICLE, false, { metadata: fetched });
+
+      expect(provider.generate).toHaveBeenCalledTimes(2);
+      expect(provider.classifyContentType).toHaveBeenLastCalledWith(CACHED_ARTICLE, undefined, fetched);
+      expect(byUrl.articleMetadata).toEqual(fetched);
+
+      // Same classification hints, newer page metadata: served from the cache with the new metadata
+      const refetched = { ...fetched, title: 'Metro fares rise from November' };
+      const hit = await generateKeywordsWithProvider(provider, CACHED_ARTICLE, false, { metadata: refetched });
+      expect(provider.generate).toHaveBeenCalledTimes(2);
+      expect(hit.cachedAt).toBeDefined();
+      expect(hit.articleMetadata).toEqual(refetched);
+    });
+  });
+});
@@ -0,0 +1,571 @@
+/**
+ * Keyword Generation Pipeline (provider-agnostic)
+ * - Prompt selection (English / Bangla)
+ * - JSON parsing (strict for structured-output providers, extraction fallback otherwise)
+ * - Schema validation and repair (keywordSchema.ts)
+ * - Deduplication and enrichment (DataForSEO per category, then one Google Trends
+ *   comparison across all categories, difficulty scoring)
+ * - Ranking confidence (on-page keyword coverage as the relevance factor)
+ * - Retry with backoff and provider failover (retryPolicy.ts)
+ * - Streaming: categories are reported and looked up as soon as they complete
+ *
+ * Adapters in providerRegistry.ts only supply the raw model text.
+ */
+
+import type { ArticleMetadata, KeywordResult, Keyword, RisingQuery } from '../types';
+import type { KeywordProvider } from './keywordProvider';
+import {
+  KEYWORD_CATEGORIES,
+  KEYWORD_RESULT_SCHEMA,
+  validateKeywordCategory,
+  validateKeywordResult,
+  type KeywordCategory
+} from './keywordSchema';
+import { createTopLevelArrayScanner } from './partialJson';
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  isFormatError,
+  isRetryableError,
+  sleep,
+  type RetryPolicy
+} from './retryPolicy';
+import { detectLanguage, buildKeywordPrompt, buildCorrectionPrompt } from './prompts';
+import {
+  enhanceKeywords,
+  calculateRankingConfidence,
+  removeDuplicateKeywords
+} from './keywordUtils';
+import { enhanceKeywordsWithGoogleData } from './googleSearchService';
+import {
+  describeClassificationMetadata,
+  describeEnrichmentConfig,
+  getCachedResult,
+  saveCachedResult
+} from './resultCache';
+import { buildCoverageScores } from './keywordCoverage';
+import {
+  countLockedKeywords,
+  mergeLockedKeywords,
+  needsEnrichment,
+  sameTerm,
+  type LockedKeywords
+} from './keywordEditor';
+import {
+  enhanceKeywordsWithRealData,
+  enhanceKeywordsWithSerp,
+  getDataForSEOConfig,
+  getDataForSEOMarkets
+} from './dataForSeoService';
+
+/**
+ * Extracts and parses the JSON object from raw model output
+ * Tries: pure JSON, markdown code block, embedded object, common prefixes
+ * Only needed for providers without structured output (e.g. local models)
+ */
+export const extractJsonFromText = (text: string): any => {
+  let jsonText = text.trim();
+
+  // Strategy 1: Already pure JSON
+  if (!jsonText.startsWith('{')) {
+    console.log("JSON not at start, trying extraction strategies...");
+
+    // Strategy 2: Extract from markdown code blocks (```json ... ```)
+    const jsonBlockMatch = jsonText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (jsonBlockMatch && jsonBlockMatch[1]) {
+      console.log("Found JSON in code block");
+      jsonText = jsonBlockMatch[1].trim();
+    } else {
+      // Strategy 3: Find JSON object anywhere in text
+      const objectMatch = jsonText.match(/\{[\s\S]*\}/);
+      if (objectMatch) {
+        console.log("Found JSON object in text");
+        jsonText = objectMatch[0];
+      } else {
+        // Strategy 4: Try to find after common prefixes
+        const afterPrefixMatch = jsonText.match(/(?:Here's|Here is|Output:|Result:)?\s*(\{[\s\S]*\})/i);
+        if (afterPrefixMatch && afterPrefixMatch[1]) {
+          console.log("Found JSON after prefix");
+          jsonText = afterPrefixMatch[1];
+        } else {
+          console.error("No JSON found. Raw response:", text.substring(0, 500));
+          throw new SyntaxError(
+            "The AI did not return valid JSON. This is a format error. " +
+            "Please try again. If the issue persists, try Deep Analysis mode. " +
+            `Response preview: ${text.substring(0, 200)}...`
+          );
+        }
+      }
+    }
+  }
+
+  // Clean up the JSON text
+  jsonText = jsonText.trim();
+
+  // Remove any trailing text after the JSON object
+  const lastBrace = jsonText.lastIndexOf('}');
+  if (lastBrace !== -1 && lastBrace < jsonText.length - 1) {
+    jsonText = jsonText.substring(0, lastBrace + 1);
+  }
+
+  // Parse JSON with detailed error reporting
+  try {
+    const parsed = JSON.parse(jsonText);
+    console.log("Successfully parsed JSON");
+    return parsed;
+  } catch (parseError) {
+    console.error("JSON parse error:", parseError);
+    console.error("Attempted to parse:", jsonText.substring(0, 500));
+
+    const errorMsg = parseError instanceof Error ? parseError.message : 'Unknown parse error';
+    throw new SyntaxError(
+      `Failed to parse AI response as JSON. ${errorMsg}. ` +
+      `This usually means the AI didn't follow the JSON format correctly. ` +
+      `Please try again or use Deep Analysis mode for better results.`
+    );
+  }
+};
+
+/**
+ * Parses model text: strict JSON for structured-output providers, extraction otherwise
+ */
+const parseModelOutput = (text: string, provider: KeywordProvider): unknown => {
+  if (!provider.capabilities.structuredOutput) {
+    return extractJsonFromText(text);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (parseError) {
+    console.error("JSON parse error:", parseError);
+    console.error("Attempted to parse:", text.substring(0, 500));
+    const errorMsg = parseError instanceof Error ? parseError.message : 'Unknown parse error';
+    throw new SyntaxError(`${provider.label} returned invalid structured output. ${errorMsg}`);
+  }
+};
+
+export type EnrichedCategory = 'primary' | 'secondary' | 'longtail';
+type DataSource = NonNullable<KeywordResult['dataSourceUsed']>;
+
+export const ENRICHED_CATEGORIES: EnrichedCategory[] = ['primary', 'secondary', 'longtail'];
+
+/**
+ * Deduplicates one category and looks up its measured data (DataForSEO, when configured)
+ * Runs per category so streamed categories can be looked up while the rest is generated;
+ * Google signals and estimates follow for all categories at once (enrichWithGoogleSignals)
+ */
+export const enrichKeywordCategory = async (
+  keywords: Keyword[],
+  category: EnrichedCategory,
+  signal?: AbortSignal
+): Promise<{ keywords: Keyword[]; dataSource: DataSource }> => {
+  // STEP 1: Remove duplicate/similar keywords
+  let enriched = removeDuplicateKeywords(keywords, 0.8);
+  let dataSource: DataSource = 'gemini-estimate';
+
+  // OPTIONAL: DataForSEO (only if user explicitly configured it)
+  // Most users won't use this - Google + AI is enough
+  if (getDataForSEOConfig().enabled) {
+    const realData = await enhanceKeywordsWithRealData(enriched, getDataForSEOMarkets(), signal);
+
+    if (realData.dataSource === 'dataforseo-api') {
+      dataSource = 'dataforseo-api';
+      enriched = realData.keywords;
+    }
+
+    // Live top 10 and SERP features for the focus keywords
+    if (category === 'primary') {
+      enriched = await enhanceKeywordsWithSerp(enriched, getDataForSEOMarkets()[0], signal);
+    }
+  }
+
+  return { keywords: enriched, dataSource };
+};
+
+/**
+ * Google signals (FREE) for all categories at once, then estimates for the rest
+ * One Trends comparison over every keyword, focus keywords first, so Trends indexes
+ * are comparable across categories
+ *
+ * @param options.relatedQueries - Collect Trends rising queries for the focus keywords
+ * @param options.scaleReference - Keywords already on the result's Trends scale (keyword edits)
+ */
+const enrichWithGoogleSignals = async (
+  categories: Record<EnrichedCategory, Keyword[]>,
+  signal?: AbortSignal,
+  options: { relatedQueries?: boolean; scaleReference?: Keyword[] } = {}
+): Promise<{ categories: Record<EnrichedCategory, Keyword[]>; dataSource: DataSource; risingQueries: RisingQuery[] }> => {
+  const google = await enhanceKeywordsWithGoogleData(
+    ENRICHED_CATEGORIES.flatMap(category => categories[category]),
+    signal,
+    {
+      relatedQueriesFor: options.relatedQueries ? categories.primary.map(keyword => keyword.term) : undefined,
+      scaleReference: options.scaleReference
+    }
+  );
+
+  const enriched = {} as Record<EnrichedCategory, Keyword[]>;
+  let offset = 0;
+  for (const category of ENRICHED_CATEGORIES) {
+    const keywords = google.keywords.slice(offset, offset += categories[category].length);
+
+    // Estimate-based difficulty scoring (for keywords Google/DataForSEO did not score)
+    // Whatever volume is left unmeasured is the model's own guess
+    enriched[category] = enhanceKeywords(keywords, category).map(keyword =>
+      keyword.searchVolume && !keyword.volumeSource ? { ...keyword, volumeSource: 'ai-estimate' as const } : keyword
+    );
+  }
+
+  return { categories: enriched, dataSource: google.dataSource, risingQueries: google.risingQueries };
+};
+
+/**
+ * Enriches all categories and calculates ranking confidence
+ *
+ * @param started - DataForSEO lookups already kicked off for streamed categories
+ * @param signal - Cancels the remaining Google / DataForSEO lookups
+ * @param publishedTime - Article publish date, drives the freshness factor
+ * @param articleContent - Article text, drives the relevance factor (on-page coverage)
+ */
+export const enrichKeywordCategories = async (
+  parsedResult: Pick<KeywordResult, 'primary' | 'secondary' | 'longtail'>,
+  started: Partial<Record<EnrichedCategory, ReturnType<typeof enrichKeywordCategory>>> = {},
+  signal?: AbortSignal,
+  publishedTime?: string,
+  articleContent?: string
+): Promise<Pick<KeywordResult, 'primary' | 'secondary' | 'longtail' | 'rankingConfidence' | 'dataSourceUsed' | 'risingQueries'>> => {
+  console.log("🔧 Applying keyword enhancements (deduplication, difficulty scoring)...");
+
+  const measured = await Promise.all(
+    ENRICHED_CATEGORIES.map(category =>
+      started[category] || enrichKeywordCategory(parsedResult[category], category, signal)
+    )
+  );
+  const google = await enrichWithGoogleSignals(
+    { primary: measured[0].keywords, secondary: measured[1].keywords, longtail: measured[2].keywords },
+    signal,
+    { relatedQueries: true }
+  );
+  const { primary, secondary, longtail } = google.categories;
+
+  // Report the strongest source used
+  const dataSource: DataSource =
+    measured.some(category => category.dataSource === 'dataforseo-api') ? 'dataforseo-api' : google.dataSource;
+
+  // Calculate ranking confidence
+  const coverageScores = articleContent
+    ? buildCoverageScores(articleContent, { primary, secondary, longtail })
+    : undefined;
+  const rankingConfidence = calculateRankingConfidence(primary, secondary, longtail, 80, publishedTime, coverageScores); // Daily Star DA = 80
+
+  console.log(`✅ Keyword enhancement complete! Overall ranking confidence: ${rankingConfidence.overall}%`);
+  console.log(`🎯 Top keyword: "${rankingConfidence.topKeywords[0]?.term}" (${rankingConfidence.topKeywords[0]?.estimatedRank})`);
+
+  return {
+    primary,
+    secondary,
+    longtail,
+    rankingConfidence,
+    dataSourceUsed: dataSource,
+    risingQueries: google.risingQueries
+  };
+};
+
+/**
+ * Re-enriches keywords added or moved in the editor and recalculates ranking confidence
+ * Only keywords without scores are looked up, so it is cheap to call after every edit;
+ * their Trends indexes are rescaled onto the rest of the result
+ *
+ * @param articleContent - Article text, for on-page coverage in the relevance factor
+ */
+export const refreshEditedResult = async (
+  result: KeywordResult,
+  signal?: AbortSignal,
+  articleContent?: string
+): Promise<KeywordResult> => {
+  const refreshed = { ...result };
+  const pending = {} as Record<EnrichedCategory, Keyword[]>;
+  for (const category of ENRICHED_CATEGORIES) {
+    pending[category] = result[category].filter(needsEnrichment);
+    if (pending[category].length > 0) {
+      pending[category] = (await enrichKeywordCategory(pending[category], category, signal)).keywords;
+    }
+  }
+
+  if (ENRICHED_CATEGORIES.some(category => pending[category].length > 0)) {
+    const google = await enrichWithGoogleSignals(pending, signal, {
+      scaleReference: ENRICHED_CATEGORIES.flatMap(category => result[category].filter(keyword => !needsEnrichment(keyword)))
+    });
+    for (const category of ENRICHED_CATEGORIES) {
+      refreshed[category] = result[category].map(keyword =>
+        needsEnrichment(keyword) ? google.categories[category].find(k => sameTerm(k.term, keyword.term)) || keyword : keyword
+      );
+    }
+  }
+
+  refreshed.rankingConfidence = calculateRankingConfidence(
+    refreshed.primary, refreshed.secondary, refreshed.longtail, 80, result.articleMetadata?.publishedTime,
+    articleContent ? buildCoverageScores(articleContent, refreshed) : undefined
+  );
+  return refreshed;
+};
+
+/**
+ * A cached result as of today: the stored metrics stand, but the freshness factor ages
+ * with the article and the metadata comes from the latest fetch
+ */
+const refreshCachedResult = (cached: KeywordResult, articleContent: string, metadata?: ArticleMetadata): KeywordResult => ({
+  ...cached,
+  articleMetadata: metadata,
+  rankingConfidence: calculateRankingConfidence(
+    cached.primary, cached.secondary, cached.longtail, 80, metadata?.publishedTime,
+    buildCoverageScores(articleContent, cached)
+  )
+});
+
+export interface GenerationOptions {
+  retryPolicy?: RetryPolicy;
+  failoverProvider?: KeywordProvider;  // Used after all attempts on the main provider fail
+  onProgress?: (partial: Partial<KeywordResult>) => void;  // Streamed categories as they complete
+  signal?: AbortSignal;  // Cancels the AI call, enrichment lookups and pending retries
+  metadata?: ArticleMetadata;  // Publisher metadata from the fetched page (section, publish date)
+  forceRefresh?: boolean;  // Skip the result cache lookup (the new result still replaces the cached one)
+  lockedKeywords?: LockedKeywords;  // Editor-locked keywords: told to the model and kept in the result
+}
+
+/**
+ * One call to the provider: generate, parse and validate
+ * With onProgress, streams the answer and validates/looks up each category as it completes
+ *
+ * @param signal - The attempt's own signal: aborted when the attempt fails, which stops its streamed lookups
+ */
+const runGenerationAttempt = async (
+  provider: KeywordProvider,
+  prompt: string,
+  useDeepAnalysis: boolean,
+  onProgress?: GenerationOptions['onProgress'],
+  signal?: AbortSignal
+) => {
+  const started: Partial<Record<EnrichedCategory, ReturnType<typeof enrichKeywordCategory>>> = {};
+  let onTextDelta: ((delta: string) => void) | undefined;
+
+  if (onProgress && provider.capabilities.streaming) {
+    const scanner = createTopLevelArrayScanner();
+    const partial: Partial<KeywordResult> = {};
+    onProgress({}); // Clear anything shown by a failed earlier attempt
+
+    onTextDelta = (delta) => {
+      for (const { key, value } of scanner.push(delta)) {
+        if (!KEYWORD_CATEGORIES.includes(key as KeywordCategory)) continue;
+
+        const category = key as KeywordCategory;
+        const { keywords } = validateKeywordCategory(category, value);
+        partial[category] = keywords;
+        onProgress({ ...partial });
+
+        if ((ENRICHED_CATEGORIES as string[]).includes(category)) {
+          const enrichedCategory = category as EnrichedCategory;
+          started[enrichedCategory] = enrichKeywordCategory(keywords, enrichedCategory, signal);
+          started[enrichedCategory]!.then(result => {
+            if (signal?.aborted) return;   // Attempt failed - a retry owns the progress now
+            partial[enrichedCategory] = result.keywords;
+            onProgress({ ...partial });
+          }).catch(() => { /* Reported when the full result is enriched */ });
+        }
+      }
+    };
+  }
+
+  const response = await provider.generate({
+    prompt,
+    useDeepAnalysis,
+    responseSchema: KEYWORD_RESULT_SCHEMA,
+    onTextDelta,
+    signal
+  });
+  const text = response.text.trim();
+
+  console.log("Extracted text:", text.substring(0, 200));
+
+  if (!text) {
+    throw new Error(`Received empty response from ${provider.label}. This may indicate an API quota issue or invalid API key. Please check your API key and quota.`);
+  }
+
+  const rawResult = parseModelOutput(text, provider);
+
+  // Validate against the schema - invalid items are dropped or repaired field by field
+  const { data: parsedResult, issues } = validateKeywordResult(rawResult);
+
+  if (!parsedResult) {
+    console.error("Validation failed:", issues);
+    throw new Error(
+      `The AI response did not contain any keywords in the expected structure. ` +
+      `Please try again or use Deep Analysis mode.`
+    );
+  }
+
+  console.log(`✅ Keyword counts: Primary (${parsedResult.primary.length}), Secondary (${parsedResult.secondary.length}), Long-tail (${parsedResult.longtail.length})`);
+
+  return { parsedResult, issues, groundingChunks: response.groundingChunks, started };
+};
+
+/**
+ * Translates the last failure into a message for the user
+ */
+const toUserFacingError = (error: unknown, provider: KeywordProvider): Error => {
+  if (error instanceof SyntaxError) {
+    return new Error("Failed to parse the AI's response. The format was invalid. Please try again.");
+  }
+
+  const mapped = provider.mapError?.(error);
+  if (mapped) {
+    return mapped;
+  }
+
+  if (error instanceof Error) {
+    // Re-throw with original message if it's already a descriptive error
+    if (error.message.includes('API_KEY') ||
+        error.message.includes('API key') ||
+        error.message.includes('response') ||
+        error.message.includes('structure')) {
+      return error;
+    }
+  }
+
+  return new Error("An error occurred while generating keywords. Please check your connection and API key, then try again.");
+};
+
+/**
+ * Runs the full keyword strategy pipeline through the given provider
+ * Retries with backoff (and a correction prompt after bad output), then
+ * optionally fails over to another provider
+ *
+ * When options.signal is aborted the abort error is rethrown as-is:
+ * no retry, no failover, no further billed calls.
+ *
+ * An unchanged article is answered from the result cache (resultCache.ts)
+ * unless options.forceRefresh is set. Runs with locked keywords bypass the
+ * cache entirely - their result depends on the editor's choices.
+ */
+export const generateKeywordsWithProvider = async (
+  provider: KeywordProvider,
+  articleContent: string,
+  useDeepAnalysis: boolean,
+  options: GenerationOptions = {}
+): Promise<KeywordResult> => {
+  const policy = options.retryPolicy || DEFAULT_RETRY_POLICY;
+  const { signal } = options;
+  const providers = options.failoverProvider && options.failoverProvider.id !== provider.id
+    ? [provider, options.failoverProvider]
+    : [provider];
+
+  const hasLockedKeywords = countLockedKeywords(options.lockedKeywords) > 0;
+  const enrichment = describeEnrichmentConfig();   // Read once - settings changed mid-run must not mislabel the result
+  const metadata = describeClassificationMetadata(options.metadata);
+
+  if (!options.forceRefresh && !hasLockedKeywords) {
+    const cached = await getCachedResult({
+      articleContent,
+      provider: provider.id,
+      model: provider.describeModel(useDeepAnalysis),
+      enrichment,
+      metadata
+    });
+    if (cached) {
+      console.log(`⚡ Using cached result from ${new Date(cached.cachedAt!).toLocaleString()} (${provider.label})`);
+      return refreshCachedResult(cached, articleContent, options.metadata);
+    }
+  }
+
+  // Detect language first
+  const detectedLanguage = detectLanguage(articleContent);
+  console.log("Detected language:", detectedLanguage);
+
+  let lastError: unknown = null;
+  let lastProvider = provider;
+  let totalAttempts = 0;
+
+  for (const [providerIndex, current] of providers.entries()) {
+    lastProvider = current;
+    signal?.throwIfAborted();
+
+    if (providerIndex > 0) {
+      console.warn(`🔀 Failing over to ${current.label} after ${totalAttempts} failed attempt(s)`);
+    }
+
+    const contentType = await current.classifyContentType(articleContent, signal, options.metadata);
+
+    // Use Bangla-specific prompt for Bangla/Mixed content
+    const basePrompt = buildKeywordPrompt(articleContent, contentType, detectedLanguage, options.lockedKeywords);
+    let correction = '';
+
+    console.log(`Starting keyword generation with ${current.label}...`, { useDeepAnalysis, contentType });
+    console.log(`Using ${current.describeModel(useDeepAnalysis)}`);
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      totalAttempts++;
+
+      // Lookups streamed during this attempt - aborted when it fails, so a retry doesn't pay twice
+      const attemptController = new AbortController();
+      const attemptSignal = signal ? AbortSignal.any([signal, attemptController.signal]) : attemptController.signal;
+
+      try {
+        const { parsedResult, issues, groundingChunks, started } =
+          await runGenerationAttempt(current, basePrompt + correction, useDeepAnalysis, options.onProgress, attemptSignal);
+
+        const enriched = await enrichKeywordCategories(parsedResult, started, attemptSignal, options.metadata?.publishedTime, articleContent);
+
+        const generated: KeywordResult = {
+          ...parsedResult,
+          ...enriched,
+          searchReferences: groundingChunks,
+          contentType,
+          detectedLanguage,
+          validationIssues: issues,
+          articleMetadata: options.metadata,
+          generatedBy: {
+            provider: current.id,
+            model: current.describeModel(useDeepAnalysis),
+            attempt,
+            totalAttempts,
+            failover: providerIndex > 0
+          }
+        };
+
+        if (hasLockedKeywords) {
+          // Locked keywords that were never scored (e.g. added right before this run) are enriched too
+          return await refreshEditedResult(mergeLockedKeywords(generated, options.lockedKeywords!), attemptSignal, articleContent);
+        }
+
+        // Cached under the provider that actually answered
+        saveCachedResult({ articleContent, provider: current.id, model: current.describeModel(useDeepAnalysis), enrichment, metadata }, generated);
+        return generated;
+
+      } catch (error) {
+        attemptController.abort(new DOMException('Generation attempt failed', 'AbortError'));
+
+        if (signal?.aborted) {
+          console.log(`⏹️ Keyword generation cancelled (${current.label}, attempt ${attempt})`);
+          throw signal.reason;
+        }
+
+        lastError = error;
+        console.error(`Error generating keywords with ${current.label} (attempt ${attempt}/${policy.maxAttempts}):`, error);
+
+        if (!isRetryableError(error) || attempt === policy.maxAttempts) {
+          break;
+        }
+
+        // Bad output gets a correction prompt; transient errors just resend
+        const message = error instanceof Error ? error.message : String(error);
+        correction = isFormatError(error) ? buildCorrectionPrompt(message) : '';
+
+        const delay = getBackoffDelay(attempt, policy);
+        console.log(`🔁 Retrying in ${delay}ms...`);
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  throw toUserFacingError(lastError, lastProvider);
+};
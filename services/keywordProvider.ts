@@ -0,0 +1,67 @@
+/**
+ * Keyword Provider Contract
+ *
+ * Every AI vendor (Gemini, OpenAI, ...) implements this interface and is
+ * listed in providerRegistry.ts. The shared pipeline in keywordPipeline.ts
+ * handles prompts, JSON extraction, validation, dedup and enrichment, so an
+ * adapter only has to talk to its vendor's API.
+ */
+
+import type { AIProviderId, ArticleMetadata, GroundingChunk } from '../types';
+import type { JsonSchema } from './keywordSchema';
+
+export interface KeywordProviderCapabilities {
+  jsonMode: boolean;    // Vendor can force a JSON-only response
+  structuredOutput: boolean;  // Vendor enforces responseSchema (no text extraction needed)
+  grounding: boolean;   // Vendor can return search references (grounding chunks)
+  streaming: boolean;   // Adapter calls onTextDelta while the answer is generated
+}
+
+export interface KeywordGenerationRequest {
+  prompt: string;
+  useDeepAnalysis: boolean;
+  responseSchema: JsonSchema;  // KEYWORD_RESULT_SCHEMA - adapters translate to their vendor format
+  onTextDelta?: (delta: string) => void;  // When set, streaming adapters report text as it arrives
+  signal?: AbortSignal;  // Adapters pass this to the vendor SDK so a cancel stops the request
+}
+
+export interface KeywordGenerationResponse {
+  text: string;                       // Raw model output (JSON expected)
+  groundingChunks: GroundingChunk[];  // Empty when the vendor has no grounding
+}
+
+export interface KeywordProvider {
+  id: AIProviderId;
+  label: string;          // Shown on the provider toggle
+  tagline: string;        // Short hint under the label
+  capabilities: KeywordProviderCapabilities;
+  privateEndpoint?: boolean;  // Drafts must stay on this endpoint - never fail over to/from it
+
+  /**
+   * True when credentials/endpoint are set up
+   */
+  isConfigured: () => boolean;
+
+  /**
+   * Human-readable model description for the given analysis mode
+   */
+  describeModel: (useDeepAnalysis: boolean) => string;
+
+  /**
+   * Runs the keyword prompt and returns the raw model text
+   */
+  generate: (request: KeywordGenerationRequest) => Promise<KeywordGenerationResponse>;
+
+  /**
+   * Classifies the article into one of CONTENT_TYPES (see prompts.ts)
+   * Falls back to 'General' on errors, but rethrows when the signal is aborted
+   * Publisher metadata (section, dates) is included in the prompt when known
+   */
+  classifyContentType: (articleContent: string, signal?: AbortSignal, metadata?: ArticleMetadata) => Promise<string>;
+
+  /**
+   * Optional vendor-specific error translation (auth, quota, rate limits).
+   * Return null to fall back to the pipeline's default handling.
+   */
+  mapError?: (error: unknown) => Error | null;
+}
@@ -0,0 +1,299 @@
+/**
+ * KeywordResult Runtime Schema
+ * - JSON Schema for structured output (Gemini responseSchema, OpenAI json_schema)
+ * - Field-by-field validation and repair of the model's answer
+ *
+ * Invalid items are dropped or coerced, and every change is recorded as a
+ * ValidationIssue so the UI can show the editor what was removed.
+ */
+
+import type { Keyword, KeywordResult, ValidationIssue } from '../types';
+
+// Model answer after repair - pipeline adds searchReferences, contentType and enrichment
+export type ParsedKeywordResult = Omit<KeywordResult, 'searchReferences' | 'contentType'>;
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export const SEARCH_INTENTS = ['informational', 'navigational', 'transactional', 'commercial'];
+export const DIFFICULTY_LEVELS = ['easy', 'medium', 'hard'];
+
+export const KEYWORD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    term: { type: 'string', description: 'The keyword or phrase' },
+    rationale: { type: 'string', description: 'Why this keyword helps the article rank' },
+    searchIntent: { type: 'string', enum: SEARCH_INTENTS },
+    searchVolume: { type: 'string', description: 'high, medium, low or an estimate such as 10K' },
+    difficulty: { type: 'string', enum: DIFFICULTY_LEVELS },
+    termBangla: { type: 'string', description: 'Bengali script version (Bangla content only)' },
+    termEnglish: { type: 'string', description: 'English transliteration (Bangla content only)' }
+  },
+  required: ['term', 'rationale']
+};
+
+const keywordArray = (description: string): JsonSchema => ({
+  type: 'array',
+  description,
+  items: KEYWORD_SCHEMA
+});
+
+const stringArray = (description: string): JsonSchema => ({
+  type: 'array',
+  description,
+  items: { type: 'string' }
+});
+
+// Property order matters: Gemini emits fields in this order, focus keywords first
+export const KEYWORD_RESULT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    primary: keywordArray('Target focus keywords (2-5)'),
+    secondary: keywordArray('Supporting topic keywords (5-12)'),
+    longtail: keywordArray('User query variations (8-20)'),
+    lsiKeywords: keywordArray('Semantic context keywords (5-8)'),
+    questionKeywords: keywordArray('Question-intent keywords (5-10)'),
+    entities: keywordArray('Named entities (all)'),
+    competitorInsights: { type: 'string' },
+    metaTitle: { type: 'string' },
+    metaDescription: { type: 'string' },
+    seoScore: { type: 'integer', description: '0-100' },
+    serpFeatureTargets: stringArray('SERP features to target'),
+    localSeoSignals: stringArray('Bangladesh local SEO signals'),
+    detectedLanguage: { type: 'string', enum: ['english', 'bangla', 'mixed'] },
+    metaTitleBangla: { type: 'string' },
+    metaDescriptionBangla: { type: 'string' },
+    banglaSearchInsights: { type: 'string' },
+    transliterationGuide: { type: 'string' }
+  },
+  required: ['primary', 'secondary', 'longtail', 'competitorInsights']
+};
+
+export type KeywordCategory = 'primary' | 'secondary' | 'longtail' | 'lsiKeywords' | 'questionKeywords' | 'entities';
+
+// Expected counts - outside the range is only a warning
+const KEYWORD_COUNT_RANGES: Record<KeywordCategory, [number, number]> = {
+  primary: [2, 5],
+  secondary: [5, 12],
+  longtail: [8, 20],
+  lsiKeywords: [5, 8],
+  questionKeywords: [5, 10],
+  entities: [1, 50]
+};
+
+// Values used when a required field is missing but the rest of the object is usable
+const REQUIRED_FALLBACKS: Record<string, string> = {
+  rationale: 'No rationale provided by the AI.',
+  competitorInsights: 'Analyze competitor keywords for better optimization'
+};
+
+export const KEYWORD_CATEGORIES = Object.keys(KEYWORD_COUNT_RANGES) as KeywordCategory[];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Coerces a single value against its schema.
+ * Returns undefined when the value cannot be used.
+ */
+const coerceValue = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  issues: ValidationIssue[]
+): unknown => {
+  switch (schema.type) {
+    case 'string': {
+      let text: string | undefined;
+      if (typeof value === 'string') {
+        text = value.trim();
+      } else if (typeof value === 'number' || typeof value === 'boolean') {
+        text = String(value);
+        issues.push({ path, action: 'coerced', message: `Converted ${typeof value} to text` });
+      }
+
+      if (!text) {
+        if (value !== undefined && value !== null && value !== '') {
+          issues.push({ path, action: 'dropped', message: `Expected text, got ${Array.isArray(value) ? 'array' : typeof value}` });
+        }
+        return undefined;
+      }
+
+      if (schema.enum) {
+        const normalized = text.toLowerCase();
+        if (!schema.enum.includes(normalized)) {
+          issues.push({ path, action: 'dropped', message: `"${text}" is not one of: ${schema.enum.join(', ')}` });
+          return undefined;
+        }
+        if (normalized !== text) {
+          issues.push({ path, action: 'coerced', message: `Normalized "${text}" to "${normalized}"` });
+        }
+        return normalized;
+      }
+
+      return text;
+    }
+
+    case 'number':
+    case 'integer': {
+      let num: number | undefined;
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        num = value;
+      } else if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        num = Number(value);
+        issues.push({ path, action: 'coerced', message: `Converted "${value}" to a number` });
+      } else if (value !== undefined && value !== null) {
+        issues.push({ path, action: 'dropped', message: `Expected a number, got ${typeof value}` });
+      }
+      if (num === undefined) return undefined;
+      return schema.type === 'integer' ? Math.round(num) : num;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        if (value !== undefined && value !== null) {
+          issues.push({ path, action: 'dropped', message: `Expected a list, got ${typeof value}` });
+        }
+        return undefined;
+      }
+      const itemSchema = schema.items as JsonSchema;
+      return value
+        .map((item, index) => coerceValue(item, itemSchema, `${path}[${index}]`, issues))
+        .filter(item => item !== undefined);
+    }
+
+    case 'object': {
+      // Models sometimes return bare strings instead of keyword objects
+      if (typeof value === 'string' && schema === KEYWORD_SCHEMA && value.trim()) {
+        issues.push({ path, action: 'coerced', message: `Converted bare string "${value.trim()}" to a keyword` });
+        value = { term: value };
+      }
+
+      if (!isPlainObject(value)) {
+        if (value !== undefined && value !== null) {
+          issues.push({ path, action: 'dropped', message: `Expected an object, got ${typeof value}` });
+        }
+        return undefined;
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        const coerced = coerceValue(value[key], propertySchema, path ? `${path}.${key}` : key, issues);
+        if (coerced !== undefined) {
+          result[key] = coerced;
+        }
+      }
+
+      for (const key of schema.required || []) {
+        if (result[key] !== undefined) continue;
+
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (REQUIRED_FALLBACKS[key] !== undefined) {
+          result[key] = REQUIRED_FALLBACKS[key];
+          issues.push({ path: fieldPath, action: 'coerced', message: 'Missing - filled with a default' });
+        } else if (schema.properties?.[key]?.type === 'array') {
+          result[key] = [];
+          issues.push({ path: fieldPath, action: 'coerced', message: 'Missing - using an empty list' });
+        } else {
+          const label = typeof value.term === 'string' ? ` "${value.term}"` : '';
+          issues.push({ path, action: 'dropped', message: `Item${label} removed: required field "${key}" is missing or invalid` });
+          return undefined;
+        }
+      }
+
+      return result;
+    }
+  }
+};
+
+/**
+ * Removes duplicate terms inside a category, then checks the count
+ */
+const finalizeCategory = (
+  category: KeywordCategory,
+  list: Keyword[],
+  issues: ValidationIssue[]
+): Keyword[] => {
+  const [min, max] = KEYWORD_COUNT_RANGES[category];
+  const seen = new Set<string>();
+
+  const unique = list.filter((keyword, index) => {
+    const key = keyword.term.toLowerCase();
+    if (seen.has(key)) {
+      issues.push({ path: `${category}[${index}]`, action: 'dropped', message: `Duplicate keyword "${keyword.term}"` });
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  if (unique.length < min || unique.length > max) {
+    issues.push({ path: category, action: 'warning', message: `${unique.length} keywords, expected ${min}-${max} (accepted anyway)` });
+  }
+
+  return unique;
+};
+
+/**
+ * Validates a single keyword category as soon as it is complete in a stream.
+ * Produces the same keywords validateKeywordResult would for that category.
+ */
+export const validateKeywordCategory = (
+  category: KeywordCategory,
+  value: unknown
+): { keywords: Keyword[]; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const schema = KEYWORD_RESULT_SCHEMA.properties![category];
+  const coerced = coerceValue(value, schema, category, issues) as Keyword[] | undefined;
+
+  return {
+    keywords: coerced ? finalizeCategory(category, coerced, issues) : [],
+    issues
+  };
+};
+
+/**
+ * Validates and repairs a parsed model answer against KEYWORD_RESULT_SCHEMA
+ *
+ * @param data - Parsed JSON from the model
+ * @returns Repaired data plus the list of issues found
+ */
+export const validateKeywordResult = (
+  data: unknown
+): { data: ParsedKeywordResult | null; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+
+  if (!isPlainObject(data)) {
+    issues.push({ path: '', action: 'dropped', message: 'Response is not a JSON object' });
+    return { data: null, issues };
+  }
+
+  const repaired = coerceValue(data, KEYWORD_RESULT_SCHEMA, '', issues) as Record<string, any>;
+
+  for (const category of KEYWORD_CATEGORIES) {
+    if (Array.isArray(repaired[category])) {
+      repaired[category] = finalizeCategory(category, repaired[category], issues);
+    }
+  }
+
+  const hasMinimumData = ['primary', 'secondary', 'longtail'].some(
+    category => repaired[category].length > 0
+  );
+
+  if (!hasMinimumData) {
+    console.error('❌ No valid keywords found in any category');
+    return { data: null, issues };
+  }
+
+  if (issues.length > 0) {
+    console.warn(`⚠️ Schema validation: ${issues.length} issue(s)`, issues);
+  }
+
+  return { data: repaired as ParsedKeywordResult, issues };
+};
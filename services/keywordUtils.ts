@@ -113,18 +113,39 @@ export const getWinnability = (difficulty: number): 'Easy' | 'Medium' | 'Hard' |
   return 'Very Hard';
 };
 
+/**
+ * Freshness score (0-100) from the article's publish date
+ * News ranks best in its first day; returns null when the date is unknown
+ *
+ * @param publishedTime - ISO date from article:published_time / JSON-LD datePublished
+ */
+export const calculateFreshnessScore = (publishedTime?: string, now: number = Date.now()): number | null => {
+  const published = publishedTime ? Date.parse(publishedTime) : NaN;
+  if (Number.isNaN(published)) return null;
+
+  const ageHours = Math.max(0, (now - published) / 3_600_000);
+
+  if (ageHours <= 24) return 100;       // Top Stories window
+  if (ageHours <= 72) return 70;
+  if (ageHours <= 24 * 7) return 50;
+  if (ageHours <= 24 * 30) return 30;
+  return 10;                            // Evergreen - freshness no longer helps
+};
+
 /**
  * Calculate ranking confidence score for a keyword
  *
  * @param keyword - Keyword with difficulty and volume data
  * @param domainAuthority - Website's domain authority (Daily Star ≈ 75-85)
  * @param articleRelevance - How well article covers this keyword (0-100)
+ * @param freshness - Freshness score (0-100); defaults to a fresh news article
  * @returns Confidence score (0-100) and estimated rank
  */
 export const calculateKeywordConfidence = (
   keyword: Keyword,
   domainAuthority: number = 80, // Daily Star default
-  articleRelevance: number = 90  // Assume high relevance
+  articleRelevance: number = 90,  // Assume high relevance
+  freshness: number = 100
 ): { confidence: number; estimatedRank: string } => {
   const difficulty = keyword.difficultyScore || 50;
 
@@ -132,7 +153,7 @@ export const calculateKeywordConfidence = (
   const difficultyFactor = (100 - difficulty) * 0.4;  // 40% weight - easier = better
   const authorityFactor = domainAuthority * 0.3;      // 30% weight
   const relevanceFactor = articleRelevance * 0.2;     // 20% weight
-  const freshnessBonus = 10;                          // 10% - news articles get boost
+  const freshnessBonus = freshness * 0.1;             // 10% - news articles get boost
 
   const confidence = Math.round(
     difficultyFactor + authorityFactor + relevanceFactor + freshnessBonus
@@ -165,13 +186,17 @@ export const calculateKeywordConfidence = (
  * @param secondary - Secondary keywords
  * @param longtail - Long-tail keywords
  * @param domainAuthority - Website DA
+ * @param publishedTime - Article publish date (from fetched metadata), if known
+ * @param coverageScores - On-page coverage (0-100) by lowercased term (keywordCoverage.ts), if the article is known
  * @returns Overall ranking confidence
  */
 export const calculateRankingConfidence = (
   primary: Keyword[],
   secondary: Keyword[],
   longtail: Keyword[],
-  domainAuthority: number = 80
+  domainAuthority: number = 80,
+  publishedTime?: string,
+  coverageScores?: Record<string, number>
 ): RankingConfidence => {
   // Calculate average search volume score
   const allKeywords = [...primary, ...secondary, ...longtail];
@@ -196,11 +221,25 @@ export const calculateRankingConfidence = (
     sum + (kw.difficultyScore || estimateKeywordDifficulty(kw, 'secondary')), 0
   ) / allKeywords.length;
 
-  // Article relevance (assume 90% - keywords came from article)
-  const articleRelevance = 90;
+  // Article relevance: coverage weighted by category (primary counts most)
+  // Without the article text, assume 90% - keywords came from the article
+  const coverageOf = (kw: Keyword): number | undefined => coverageScores?.[kw.term.toLowerCase()];
+  let articleRelevance = 90;
+  if (coverageScores) {
+    const weighted = [
+      ...primary.map(kw => [coverageOf(kw), 3]),
+      ...secondary.map(kw => [coverageOf(kw), 2]),
+      ...longtail.map(kw => [coverageOf(kw), 1])
+    ].filter((entry): entry is [number, number] => entry[0] !== undefined);
+    const totalWeight = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+    if (totalWeight > 0) {
+      articleRelevance = weighted.reduce((sum, [score, weight]) => sum + score * weight, 0) / totalWeight;
+    }
+  }
 
-  // Freshness bonus for news
-  const freshnessBonus = 20;
+  // Freshness bonus for news (from the publish date when known)
+  const freshness = calculateFreshnessScore(publishedTime);
+  const freshnessBonus = freshness ?? 20;
 
   // Calculate overall confidence
   const overall = Math.round(
@@ -213,7 +252,7 @@ export const calculateRankingConfidence = (
 
   // Identify top 5 keywords by confidence
   const keywordsWithConfidence = [...primary, ...secondary, ...longtail].map(kw => {
-    const { confidence, estimatedRank } = calculateKeywordConfidence(kw, domainAuthority, articleRelevance);
+    const { confidence, estimatedRank } = calculateKeywordConfidence(kw, domainAuthority, coverageOf(kw) ?? articleRelevance, freshness ?? 100);
     return {
       term: kw.term,
       confidence,
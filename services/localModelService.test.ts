@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { localModelProvider } from './localModelService';
+import { extractJsonFromText } from './keywordPipeline';
+import { KEYWORD_RESULT_SCHEMA } from './keywordSchema';
+
+const ANSWER = '{"primary": [{"term": "metro rail fare", "rationale": "Main topic"}], "secondary": [], "longtail": [], "competitorInsights": "None"}';
+
+// Answers each chat completion with the next text; records the messages sent
+const stubLocalServer = (answers: string[]) => {
+  const requests: Array<{ messages: Array<{ role: string; content: string }> }> = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    requests.push(JSON.parse(String(init.body)));
+    return new Response(JSON.stringify({
+      id: `chatcmpl-${requests.length}`,
+      object: 'chat.completion',
+      created: 0,
+      model: 'local-model',
+      choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: answers.shift() ?? '' } }]
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }));
+  return requests;
+};
+
+const generate = () =>
+  localModelProvider.generate({ prompt: 'Keywords for the article', useDeepAnalysis: false, responseSchema: KEYWORD_RESULT_SCHEMA });
+
+describe('localModelProvider.generate', () => {
+  beforeEach(() => {
+    const storage = new Map([['local_llm_base_url', 'http://llm.newsroom.test/v1']]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('accepts a fenced answer with prose around it without a repair round', async () => {
+    const fenced = `Here is the analysis:\n\`\`\`json\n${ANSWER}\n\`\`\`\nLet me know if you need more keywords.`;
+    const requests = stubLocalServer([fenced]);
+
+    const { text } = await generate();
+
+    expect(requests).toHaveLength(1);
+    expect(extractJsonFromText(text).primary[0].term).toBe('metro rail fare');
+  });
+
+  it('sends a broken answer back once and returns the repaired one', async () => {
+    const requests = stubLocalServer([ANSWER.replace('"None"}', '"None",}'), ANSWER]);
+
+    const { text } = await generate();
+
+    expect(text).toBe(ANSWER);
+    expect(requests).toHaveLength(2);
+    const [, , broken, repair] = requests[1].messages;
+    expect(broken).toEqual({ role: 'assistant', content: ANSWER.replace('"None"}', '"None",}') });
+    expect(repair.role).toBe('user');
+    expect(repair.content).toContain('Your previous answer could not be parsed as JSON.');
+  });
+
+  it('gives up after the repair rounds and returns the last answer for the pipeline to report', async () => {
+    const requests = stubLocalServer(['I cannot help with that.', 'Sorry, still no JSON.', 'Keywords: metro rail fare']);
+
+    const { text } = await generate();
+
+    expect(requests).toHaveLength(3);
+    expect(requests[2].messages.filter(message => message.content.includes('could not be parsed'))).toHaveLength(2);
+    expect(text).toBe('Keywords: metro rail fare');
+    expect(() => extractJsonFromText(text)).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Local / Self-Hosted Model Provider
+ *
+ * Talks to any OpenAI-compatible endpoint (llama.cpp server, vLLM, Ollama, LM Studio)
+ * so unpublished drafts never leave the newsroom network.
+ *
+ * Small local models are weaker at strict JSON, so every response is checked
+ * and, if it does not parse, sent back with a repair instruction.
+ */
+
+import OpenAI from 'openai';
+import type { KeywordProvider } from './keywordProvider';
+import { generateContentTypePrompt, parseContentType } from './prompts';
+import { extractJsonFromText } from './keywordPipeline';
+
+interface LocalModelConfig {
+  baseUrl: string;     // e.g. http://localhost:8080/v1
+  model: string;       // Model name the server expects
+  apiKey?: string;     // Most local servers ignore this
+  enabled: boolean;
+}
+
+const DEFAULT_BASE_URL = 'http://localhost:8080/v1';
+const DEFAULT_MODEL = 'local-model';
+
+// Extra rounds after the first answer if the JSON does not parse
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Get local model configuration from localStorage
+ */
+export const getLocalModelConfig = (): LocalModelConfig => {
+  try {
+    const baseUrl = localStorage.getItem('local_llm_base_url');
+    const model = localStorage.getItem('local_llm_model');
+    const apiKey = localStorage.getItem('local_llm_api_key');
+
+    return {
+      baseUrl: baseUrl || DEFAULT_BASE_URL,
+      model: model || DEFAULT_MODEL,
+      apiKey: apiKey || undefined,
+      enabled: !!baseUrl
+    };
+  } catch (error) {
+    console.warn('Local model config not available:', error);
+    return { baseUrl: DEFAULT_BASE_URL, model: DEFAULT_MODEL, enabled: false };
+  }
+};
+
+/**
+ * Save local model endpoint settings
+ */
+export const saveLocalModelConfig = (baseUrl: string, model: string, apiKey: string): void => {
+  try {
+    localStorage.setItem('local_llm_base_url', baseUrl.trim().replace(/\/+$/, ''));
+    localStorage.setItem('local_llm_model', model.trim() || DEFAULT_MODEL);
+    if (apiKey.trim()) {
+      localStorage.setItem('local_llm_api_key', apiKey.trim());
+    } else {
+      localStorage.removeItem('local_llm_api_key');
+    }
+    console.log('✅ Local model endpoint saved');
+  } catch (error) {
+    console.error('Failed to save local model endpoint:', error);
+  }
+};
+
+/**
+ * Clear local model endpoint settings
+ */
+export const clearLocalModelConfig = (): void => {
+  try {
+    localStorage.removeItem('local_llm_base_url');
+    localStorage.removeItem('local_llm_model');
+    localStorage.removeItem('local_llm_api_key');
+    console.log('Local model endpoint cleared');
+  } catch (error) {
+    console.error('Failed to clear local model endpoint:', error);
+  }
+};
+
+const getClient = (config: LocalModelConfig): OpenAI => {
+  if (!config.enabled) {
+    throw new Error('Local model endpoint is not configured. Please enter the server URL in the settings.');
+  }
+
+  return new OpenAI({
+    baseURL: config.baseUrl,
+    apiKey: config.apiKey || 'not-needed', // SDK requires a value; local servers ignore it
+    dangerouslyAllowBrowser: true
+  });
+};
+
+/**
+ * Follow-up instruction sent when the model's answer is not valid JSON
+ */
+const buildRepairPrompt = (errorMessage: string): string => `
+Your previous answer could not be parsed as JSON.
+Parser error: ${errorMessage}
+
+Return the SAME keyword analysis again as ONE valid JSON object:
+- Start with { and end with }
+- No markdown code blocks, no comments, no text before or after
+- Double quotes around every key and string value
+- No trailing commas`;
+
+/**
+ * Test connection to the local model server (lists models)
+ */
+export const testLocalModelConnection = async (): Promise<boolean> => {
+  const config = getLocalModelConfig();
+
+  if (!config.enabled) {
+    return false;
+  }
+
+  try {
+    const models = await getClient(config).models.list();
+    console.log('✅ Local model server reachable. Models:', models.data.map(m => m.id));
+    return true;
+  } catch (error) {
+    console.error('Local model connection test failed:', error);
+    return false;
+  }
+};
+
+/**
+ * OpenAI-compatible local model adapter for the shared keyword pipeline
+ */
+export const localModelProvider: KeywordProvider = {
+  id: 'local',
+  label: 'Local Model',
+  tagline: 'Private, Self-Hosted',
+  capabilities: {
+    jsonMode: false,  // Not every local server supports response_format
+    structuredOutput: false,
+    grounding: false,
+    streaming: false  // The repair loop needs the whole answer first
+  },
+
+  privateEndpoint: true,
+
+  isConfigured: () => getLocalModelConfig().enabled,
+
+  describeModel: (useDeepAnalysis) => {
+    const config = getLocalModelConfig();
+    return `${config.model} at ${config.baseUrl}${useDeepAnalysis ? ' (Deep Analysis, longer output)' : ''}`;
+  },
+
+  classifyContentType: async (articleContent, signal, metadata) => {
+    try {
+      const config = getLocalModelConfig();
+      const response = await getClient(config).chat.completions.create({
+        model: config.model,
+        messages: [{ role: 'user', content: generateContentTypePrompt(articleContent, metadata) }],
+        temperature: 0,
+        max_tokens: 10,
+      }, { signal });
+
+      return parseContentType(response.choices[0]?.message?.content ?? undefined);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Error detecting content type:", error);
+      return 'General'; // Default on error
+    }
+  },
+
+  generate: async ({ prompt, useDeepAnalysis, signal }) => {
+    const config = getLocalModelConfig();
+    const client = getClient(config);
+
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      { role: 'system', content: 'You are an SEO keyword research assistant. You respond with ONLY valid JSON.' },
+      { role: 'user', content: prompt }
+    ];
+
+    let text = '';
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const response = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        temperature: 0.2,
+        max_tokens: useDeepAnalysis ? 8192 : 4096,
+      }, { signal });
+
+      text = response.choices[0]?.message?.content || '';
+
+      try {
+        extractJsonFromText(text);
+        if (attempt > 0) {
+          console.log(`✅ Local model JSON repaired after ${attempt} attempt(s)`);
+        }
+        break;
+      } catch (error) {
+        if (!(error instanceof SyntaxError) || attempt === MAX_REPAIR_ATTEMPTS) {
+          break; // Let the pipeline report the parse error
+        }
+
+        console.warn(`⚠️ Local model returned invalid JSON (attempt ${attempt + 1}), asking it to repair...`);
+        messages.push(
+          { role: 'assistant', content: text },
+          { role: 'user', content: buildRepairPrompt(error.message) }
+        );
+      }
+    }
+
+    return { text, groundingChunks: [] };
+  },
+
+  mapError: (error) => {
+    if (error instanceof Error && error.message.startsWith('Local model endpoint')) {
+      return error;
+    }
+    if (error instanceof Error && (error.message.includes('Connection error') || error.message.includes('Failed to fetch'))) {
+      return new Error(
+        `Local model server unreachable at ${getLocalModelConfig().baseUrl}. ` +
+        `Make sure it is running and allows requests from this origin (CORS).`
+      );
+    }
+    return null;
+  }
+};
@@ -0,0 +1,175 @@
+/**
+ * Publishing Markup Generator
+ * Turns a KeywordResult into ready-to-paste <head> markup:
+ * - <title>, meta description, Open Graph and Twitter card tags
+ * - hreflang alternates for the Bangla and English editions
+ * - Schema.org NewsArticle JSON-LD (headline, keywords, about/mentions from entities)
+ * - Schema.org FAQPage JSON-LD from the question keywords
+ */
+
+import type { KeywordResult } from '../types';
+
+const PUBLISHER = {
+  name: 'The Daily Star',
+  url: 'https://www.thedailystar.net',
+  logo: 'https://upload.wikimedia.org/wikipedia/commons/1/1a/Logo_of_The_Daily_Star.svg'
+};
+
+// Google truncates NewsArticle headlines beyond this
+const MAX_HEADLINE_LENGTH = 110;
+
+// The first entities are what the story is about; the rest are only mentioned
+const ABOUT_ENTITY_COUNT = 3;
+
+// Shown in FAQ answers - the desk must fill in answers that appear on the page
+export const FAQ_ANSWER_PLACEHOLDER = '[Answer from the article]';
+
+export interface MarkupPageInfo {
+  url?: string;          // Canonical URL of this edition
+  bnUrl?: string;        // Bangla edition (hreflang="bn")
+  enUrl?: string;        // English edition (hreflang="en")
+  headline?: string;     // Article headline (falls back to the meta title)
+}
+
+export interface MarkupBundle {
+  metaTagsHtml: string;
+  newsArticleJsonLd: string;   // <script type="application/ld+json"> block
+  faqPageJsonLd: string | null;   // null when there are no question keywords
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * JSON-LD script block - "</" is escaped so text can never close the script tag
+ */
+const jsonLdScript = (data: object): string =>
+  `<script type="application/ld+json">\n${JSON.stringify(data, null, 2).replace(/<\//g, '<\\/')}\n</script>`;
+
+const isBanglaPage = (result: KeywordResult): boolean => result.detectedLanguage === 'bangla';
+
+/**
+ * Title and description in the page's language
+ */
+const pageMeta = (result: KeywordResult) => ({
+  title: (isBanglaPage(result) && result.metaTitleBangla) || result.metaTitle || result.primary[0]?.term || '',
+  description: (isBanglaPage(result) && result.metaDescriptionBangla) || result.metaDescription || ''
+});
+
+/**
+ * <title>, description, Open Graph, Twitter card and hreflang tags
+ */
+export const buildMetaTagsHtml = (result: KeywordResult, page: MarkupPageInfo = {}): string => {
+  const { title, description } = pageMeta(result);
+  const metadata = result.articleMetadata;
+  const url = page.url || metadata?.canonicalUrl;
+  const image = metadata?.image;
+  const lines: string[] = [];
+
+  lines.push(`<title>${escapeHtml(title)}</title>`);
+  lines.push(`<meta name="description" content="${escapeHtml(description)}">`);
+  if (url) lines.push(`<link rel="canonical" href="${escapeHtml(url)}">`);
+
+  lines.push('', '<!-- Open Graph -->');
+  lines.push('<meta property="og:type" content="article">');
+  lines.push(`<meta property="og:title" content="${escapeHtml(title)}">`);
+  lines.push(`<meta property="og:description" content="${escapeHtml(description)}">`);
+  if (url) lines.push(`<meta property="og:url" content="${escapeHtml(url)}">`);
+  if (image) lines.push(`<meta property="og:image" content="${escapeHtml(image)}">`);
+  lines.push(`<meta property="og:site_name" content="${escapeHtml(metadata?.siteName || PUBLISHER.name)}">`);
+  lines.push(`<meta property="og:locale" content="${isBanglaPage(result) ? 'bn_BD' : 'en_US'}">`);
+  if (metadata?.publishedTime) lines.push(`<meta property="article:published_time" content="${escapeHtml(metadata.publishedTime)}">`);
+  if (metadata?.modifiedTime) lines.push(`<meta property="article:modified_time" content="${escapeHtml(metadata.modifiedTime)}">`);
+  if (metadata?.section) lines.push(`<meta property="article:section" content="${escapeHtml(metadata.section)}">`);
+  for (const keyword of result.primary) {
+    lines.push(`<meta property="article:tag" content="${escapeHtml(keyword.term)}">`);
+  }
+
+  lines.push('', '<!-- Twitter -->');
+  lines.push(`<meta name="twitter:card" content="${image ? 'summary_large_image' : 'summary'}">`);
+  lines.push(`<meta name="twitter:title" content="${escapeHtml(title)}">`);
+  lines.push(`<meta name="twitter:description" content="${escapeHtml(description)}">`);
+  if (image) lines.push(`<meta name="twitter:image" content="${escapeHtml(image)}">`);
+
+  if (page.bnUrl || page.enUrl) {
+    lines.push('', '<!-- Language editions -->');
+    if (page.bnUrl) lines.push(`<link rel="alternate" hreflang="bn" href="${escapeHtml(page.bnUrl)}">`);
+    if (page.enUrl) lines.push(`<link rel="alternate" hreflang="en" href="${escapeHtml(page.enUrl)}">`);
+    lines.push(`<link rel="alternate" hreflang="x-default" href="${escapeHtml((page.enUrl || page.bnUrl)!)}">`);
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Schema.org NewsArticle object
+ */
+export const buildNewsArticleSchema = (result: KeywordResult, page: MarkupPageInfo = {}): Record<string, unknown> => {
+  const { title, description } = pageMeta(result);
+  const metadata = result.articleMetadata;
+  const url = page.url || metadata?.canonicalUrl;
+  const headline = (page.headline || metadata?.title || title).slice(0, MAX_HEADLINE_LENGTH);
+  const entities = (result.entities || []).map(entity => ({ '@type': 'Thing', name: entity.term }));
+  const keywords = [...result.primary, ...result.secondary].map(keyword => keyword.term);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'NewsArticle',
+    headline,
+    description,
+    ...(url && { url, mainEntityOfPage: { '@type': 'WebPage', '@id': url } }),
+    ...(metadata?.image && { image: [metadata.image] }),
+    ...(metadata?.publishedTime && { datePublished: metadata.publishedTime }),
+    ...(metadata?.modifiedTime && { dateModified: metadata.modifiedTime }),
+    ...(metadata?.author && { author: [{ '@type': 'Person', name: metadata.author }] }),
+    ...(metadata?.section && { articleSection: metadata.section }),
+    inLanguage: isBanglaPage(result) ? 'bn' : 'en',
+    keywords: keywords.join(', '),
+    ...(entities.length > 0 && { about: entities.slice(0, ABOUT_ENTITY_COUNT) }),
+    ...(entities.length > ABOUT_ENTITY_COUNT && { mentions: entities.slice(ABOUT_ENTITY_COUNT) }),
+    publisher: {
+      '@type': 'NewsMediaOrganization',
+      name: PUBLISHER.name,
+      url: PUBLISHER.url,
+      logo: { '@type': 'ImageObject', url: PUBLISHER.logo }
+    }
+  };
+};
+
+/**
+ * Schema.org FAQPage object from question keywords (null when there are none)
+ * Answers are placeholders unless supplied - FAQ markup must match visible answers
+ */
+export const buildFaqPageSchema = (
+  result: KeywordResult,
+  answers: Record<string, string> = {}
+): Record<string, unknown> | null => {
+  const questions = (result.questionKeywords || []).map(keyword => keyword.term.trim()).filter(Boolean);
+  if (questions.length === 0) return null;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: questions.map(question => ({
+      '@type': 'Question',
+      name: /[?？]$/.test(question) ? question : `${question}?`,
+      acceptedAnswer: { '@type': 'Answer', text: answers[question] || FAQ_ANSWER_PLACEHOLDER }
+    }))
+  };
+};
+
+/**
+ * Everything the markup panel shows
+ */
+export const buildMarkupBundle = (result: KeywordResult, page: MarkupPageInfo = {}): MarkupBundle => {
+  const faq = buildFaqPageSchema(result);
+  return {
+    metaTagsHtml: buildMetaTagsHtml(result, page),
+    newsArticleJsonLd: jsonLdScript(buildNewsArticleSchema(result, page)),
+    faqPageJsonLd: faq ? jsonLdScript(faq) : null
+  };
+};
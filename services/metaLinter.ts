@@ -0,0 +1,207 @@
+/**
+ * Meta Title / Description Linter
+ * - Rendered pixel width (Google truncates by pixels, not characters):
+ *   titles 20px Arial ≤ 580px, descriptions 14px Arial ≤ 920px (desktop)
+ * - Focus keyword present, and how far into the snippet it appears
+ * - Repeated words and clickbait phrasing (English and Bangla)
+ *
+ * Widths come from a canvas in the browser (Arial, then a Bengali font for Bangla
+ * script); without a canvas, built-in Arial metrics and Bengali estimates are used.
+ */
+
+export type MetaField = 'title' | 'description';
+
+export const SERP_LIMITS: Record<MetaField, { fontSize: number; maxWidth: number; minWidth: number }> = {
+  title: { fontSize: 20, maxWidth: 580, minWidth: 250 },
+  description: { fontSize: 14, maxWidth: 920, minWidth: 400 }
+};
+
+const SERP_FONT_FAMILY = "Arial, 'Noto Sans Bengali', 'Vrinda', 'Shonar Bangla', sans-serif";
+
+export interface MetaLintIssue {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface MetaLintResult {
+  field: MetaField;
+  text: string;
+  width: number;            // Rendered width in px
+  maxWidth: number;
+  truncated: boolean;
+  displayText: string;      // What Google would show (with "..." when truncated)
+  keywordIndex: number;     // Character index of the focus keyword, -1 when missing
+  issues: MetaLintIssue[];
+}
+
+// Arial advance widths (units per 1000 em) for printable ASCII 32-126
+const ARIAL_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+/**
+ * Approximate advance width (per 1000 em) of a Bengali code point
+ * Vowel signs below/above the letter and the hasant take no horizontal space
+ */
+const bengaliWidth = (code: number): number => {
+  if (code === 0x0981 || code === 0x09BC || code === 0x09CD || (code >= 0x09C1 && code <= 0x09C4) || code === 0x09D7) return 0;
+  if (code === 0x09BE || code === 0x09C0) return 280;
+  if (code === 0x09BF || code === 0x09C7 || code === 0x09C8) return 320;
+  if (code === 0x0982 || code === 0x0983) return 300;
+  if (code >= 0x09E6 && code <= 0x09EF) return 550;
+  return 600;
+};
+
+/**
+ * Width from built-in metrics (used when no canvas is available)
+ */
+export const estimateTextWidth = (text: string, fontSize: number): number => {
+  let units = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code >= 32 && code <= 126) units += ARIAL_WIDTHS[code - 32];
+    else if (code >= 0x0980 && code <= 0x09FF) units += bengaliWidth(code);
+    else if (code === 0x200C || code === 0x200D) units += 0;   // Zero-width (non-)joiner
+    else units += 556;
+  }
+  return (units / 1000) * fontSize;
+};
+
+let canvasContext: CanvasRenderingContext2D | null | undefined;
+
+const getCanvasContext = (): CanvasRenderingContext2D | null => {
+  if (canvasContext === undefined) {
+    canvasContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  return canvasContext;
+};
+
+/**
+ * Rendered width in px at the SERP font size
+ */
+export const measureTextWidth = (text: string, fontSize: number): number => {
+  const context = getCanvasContext();
+  if (!context) return estimateTextWidth(text, fontSize);
+  context.font = `${fontSize}px ${SERP_FONT_FAMILY}`;
+  return context.measureText(text).width;
+};
+
+/**
+ * Text as Google would show it: cut at the last whole word that fits, plus "..."
+ */
+export const truncateToWidth = (text: string, maxWidth: number, fontSize: number): { text: string; truncated: boolean } => {
+  if (measureTextWidth(text, fontSize) <= maxWidth) return { text, truncated: false };
+
+  const available = maxWidth - measureTextWidth(' ...', fontSize);
+  const words = text.split(/\s+/);
+  let fitted = '';
+  for (const word of words) {
+    const next = fitted ? `${fitted} ${word}` : word;
+    if (measureTextWidth(next, fontSize) > available) break;
+    fitted = next;
+  }
+  return { text: `${fitted || text.slice(0, 10)} ...`, truncated: true };
+};
+
+const CLICKBAIT_PATTERNS: RegExp[] = [
+  /you won'?t believe/i,
+  /\bshocking\b/i,
+  /\bwhat happened next\b/i,
+  /\bthis is why\b/i,
+  /\bmust[- ]see\b/i,
+  /\bclick here\b/i,
+  /\bgoes viral\b/i,
+  /\bjaw[- ]dropping\b/i,
+  /\bmind[- ]blowing\b/i,
+  /\bnumber \d+ will\b/i,
+  /[!?]{2,}/,
+  /অবিশ্বাস্য/,
+  /চমকে (যাবেন|উঠবেন)/,
+  /না দেখলে মিস/,
+  /হতবাক/,
+  /ভাইরাল হলো/
+];
+
+/**
+ * Words repeated in the text (English words shorter than 4 letters are ignored)
+ */
+export const findRepeatedWords = (text: string): string[] => {
+  const counts = new Map<string, number>();
+  for (const raw of text.toLowerCase().split(/[\s,.:;!?|–—"'()\-]+/)) {
+    const isBangla = /[ঀ-৿]/.test(raw);
+    if (!raw || (!isBangla && raw.length < 4) || (isBangla && raw.length < 2)) continue;
+    counts.set(raw, (counts.get(raw) || 0) + 1);
+  }
+  return [...counts.entries()].filter(([, count]) => count > 1).map(([word]) => word);
+};
+
+/**
+ * Lints one meta title or description
+ *
+ * @param keywords - Focus keyword variants (e.g. English and Bangla); the first one found counts
+ */
+export const lintMetaText = (field: MetaField, text: string, keywords: string[] = []): MetaLintResult => {
+  const { fontSize, maxWidth, minWidth } = SERP_LIMITS[field];
+  const label = field === 'title' ? 'Title' : 'Description';
+  const trimmed = text.trim();
+  const issues: MetaLintIssue[] = [];
+
+  const width = Math.round(measureTextWidth(trimmed, fontSize));
+  const { text: displayText, truncated } = truncateToWidth(trimmed, maxWidth, fontSize);
+
+  if (!trimmed) {
+    issues.push({ severity: 'error', message: `${label} is empty.` });
+  } else if (truncated) {
+    issues.push({ severity: 'error', message: `${label} is ${width}px - Google cuts it at ~${maxWidth}px. Shorten by about ${width - maxWidth}px.` });
+  } else if (width < minWidth) {
+    issues.push({ severity: 'warning', message: `${label} is only ${width}px - there is room for more context (up to ~${maxWidth}px).` });
+  }
+
+  // Focus keyword presence and position
+  const lower = trimmed.toLowerCase();
+  const variants = keywords.map(keyword => keyword.trim()).filter(Boolean);
+  let keywordIndex = -1;
+  let matched = '';
+  for (const keyword of variants) {
+    keywordIndex = lower.indexOf(keyword.toLowerCase());
+    if (keywordIndex !== -1) {
+      matched = keyword;
+      break;
+    }
+  }
+
+  if (trimmed && variants.length > 0) {
+    if (keywordIndex === -1) {
+      issues.push({ severity: 'warning', message: `Focus keyword "${variants[0]}" does not appear in the ${field}.` });
+    } else {
+      const keywordEnd = measureTextWidth(trimmed.slice(0, keywordIndex + matched.length), fontSize);
+      if (keywordEnd > maxWidth) {
+        issues.push({ severity: 'error', message: `Focus keyword "${matched}" is in the truncated part - searchers won't see it.` });
+      } else if (field === 'title' && measureTextWidth(trimmed.slice(0, keywordIndex), fontSize) > maxWidth / 2) {
+        issues.push({ severity: 'info', message: `Focus keyword starts ${Math.round(measureTextWidth(trimmed.slice(0, keywordIndex), fontSize))}px in - titles perform better with it near the start.` });
+      }
+    }
+  }
+
+  const repeated = findRepeatedWords(trimmed);
+  if (repeated.length > 0) {
+    issues.push({ severity: 'warning', message: `Repeated word${repeated.length > 1 ? 's' : ''}: ${repeated.join(', ')}.` });
+  }
+
+  const clickbait = CLICKBAIT_PATTERNS.find(pattern => pattern.test(trimmed));
+  if (clickbait) {
+    issues.push({ severity: 'warning', message: `Sounds like clickbait ("${trimmed.match(clickbait)![0]}") - Google may rewrite it and readers trust it less.` });
+  }
+
+  const shouting = trimmed.match(/\b[A-Z]{4,}\b/g)?.filter(word => !/^(BGMEA|BSEC|DMTCL|UNDP|ASEAN|NATO)$/.test(word)) || [];
+  if (shouting.length >= 2) {
+    issues.push({ severity: 'warning', message: `Too many ALL-CAPS words (${shouting.join(', ')}).` });
+  }
+
+  return { field, text: trimmed, width, maxWidth, truncated, displayText, keywordIndex, issues };
+};
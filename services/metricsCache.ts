@@ -0,0 +1,93 @@
+/**
+ * Per-Keyword Metrics Cache (localStorage, with TTL)
+ * Sits in front of the paid/quota-limited lookups so the same keyword is not
+ * looked up again on every run:
+ * - DataForSEO search volume and difficulty (getKeywordMetrics), SERP snapshots (getSerpSnapshot)
+ * - Google Custom Search result counts and top results (getGoogleSearchResultsCount, getGoogleTopResults)
+ * - Google Trends comparisons (getTrendsComparison)
+ *
+ * Values are small, so localStorage is enough (full results live in resultCache.ts).
+ */
+
+const STORAGE_KEY = 'keyword_metrics_cache';
+
+// Oldest entries are dropped beyond this to stay well inside the localStorage quota
+const MAX_CACHE_ENTRIES = 3000;
+
+export const METRICS_CACHE_TTL_MS = {
+  dataForSEO: 7 * 24 * 60 * 60 * 1000,        // Monthly search volumes change slowly
+  dataForSEONoDifficulty: 60 * 60 * 1000,     // Labs difficulty request failed - try it again soon
+  dataForSEOSerp: 6 * 60 * 60 * 1000,         // News results pages change during the day
+  googleResultsCount: 24 * 60 * 60 * 1000,    // 100 free queries/day
+  googleTrends: 24 * 60 * 60 * 1000           // Weekly data; Trends rate-limits repeat lookups
+};
+
+interface MetricsCacheEntry {
+  value: unknown;
+  expires: number;   // Epoch ms
+}
+
+type MetricsCache = Record<string, MetricsCacheEntry>;
+
+const readCache = (): MetricsCache => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Metrics cache not available:', error);
+    return {};
+  }
+};
+
+const writeCache = (cache: MetricsCache): void => {
+  const now = Date.now();
+  const live = Object.entries(cache)
+    .filter(([, entry]) => entry.expires > now)
+    .sort((a, b) => b[1].expires - a[1].expires)
+    .slice(0, MAX_CACHE_ENTRIES);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(live)));
+  } catch (error) {
+    console.error('Failed to save metrics cache:', error);
+  }
+};
+
+const cacheKey = (namespace: string, term: string): string =>
+  `${namespace}|${term.trim().toLowerCase()}`;
+
+/**
+ * Cached value for a keyword, or undefined when not cached / expired
+ * (null is a valid cached value: "the API had no data for this keyword")
+ */
+export const getCachedMetric = <T>(namespace: string, term: string): T | undefined => {
+  const entry = readCache()[cacheKey(namespace, term)];
+  if (!entry || entry.expires <= Date.now()) return undefined;
+  return entry.value as T;
+};
+
+/**
+ * Stores values for several keywords at once (one localStorage write)
+ */
+export const setCachedMetrics = (namespace: string, values: Array<[term: string, value: unknown]>, ttlMs: number): void => {
+  if (values.length === 0) return;
+
+  const cache = readCache();
+  const expires = Date.now() + ttlMs;
+  for (const [term, value] of values) {
+    cache[cacheKey(namespace, term)] = { value, expires };
+  }
+  writeCache(cache);
+};
+
+/**
+ * Delete all cached keyword metrics
+ */
+export const clearMetricsCache = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+    console.log('Keyword metrics cache cleared');
+  } catch (error) {
+    console.error('Failed to clear metrics cache:', error);
+  }
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { toOpenAISchema } from './openaiService';
+import { KEYWORD_RESULT_SCHEMA, validateKeywordResult } from './keywordSchema';
+import { REWRITE_SCHEMA } from './rewriteService';
+
+// Every object schema in the tree, with its path
+const objectSchemas = (schema: any, path = '$'): Array<{ path: string; schema: any }> => [
+  ...(schema.properties ? [{ path, schema }] : []),
+  ...(schema.items ? objectSchemas(schema.items, `${path}[]`) : []),
+  ...Object.entries(schema.properties || {}).flatMap(([key, value]) => objectSchemas(value, `${path}.${key}`))
+];
+
+describe('toOpenAISchema', () => {
+  for (const [name, source] of [['keyword result', KEYWORD_RESULT_SCHEMA], ['rewrite', REWRITE_SCHEMA]] as const) {
+    it(`makes the ${name} schema strict-compatible`, () => {
+      for (const { path, schema } of objectSchemas(toOpenAISchema(source))) {
+        expect(schema.additionalProperties, path).toBe(false);
+        expect(schema.required, path).toEqual(Object.keys(schema.properties));
+      }
+    });
+  }
+
+  it('turns optional fields into nullable ones and keeps required fields as they are', () => {
+    const schema = toOpenAISchema(KEYWORD_RESULT_SCHEMA) as any;
+    const keyword = schema.properties.primary.items;
+
+    expect(schema.properties.primary.type).toBe('array');
+    expect(schema.properties.lsiKeywords.type).toEqual(['array', 'null']);
+    expect(keyword.properties.term.type).toBe('string');
+    expect(keyword.properties.termBangla.type).toEqual(['string', 'null']);
+    expect(keyword.properties.searchIntent.enum).toEqual(['informational', 'navigational', 'transactional', 'commercial', null]);
+  });
+
+  it('produces answers the validator reads as if the optional fields were left out', () => {
+    const keyword = { term: 'metro rail fare', rationale: 'Main topic', searchIntent: null, searchVolume: null, difficulty: null, termBangla: null, termEnglish: null };
+    const { data, issues } = validateKeywordResult({
+      primary: [keyword], secondary: [keyword], longtail: [keyword],
+      lsiKeywords: null, questionKeywords: null, entities: null,
+      competitorInsights: 'None', metaTitle: null, metaDescription: null, seoScore: null,
+      serpFeatureTargets: null, localSeoSignals: null, detectedLanguage: null,
+      metaTitleBangla: null, metaDescriptionBangla: null, banglaSearchInsights: null, transliterationGuide: null
+    });
+
+    expect(data?.primary).toEqual([{ term: 'metro rail fare', rationale: 'Main topic' }]);
+    expect(data?.lsiKeywords).toBeUndefined();
+    expect(issues.filter(issue => issue.action !== 'warning')).toEqual([]);
+  });
+});
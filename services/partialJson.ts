@@ -0,0 +1,100 @@
+/**
+ * Streaming JSON helper
+ *
+ * Watches a JSON object arrive chunk by chunk and reports each top-level
+ * array (e.g. "primary": [...]) the moment its closing bracket arrives,
+ * so keyword categories can be shown before the full response is done.
+ */
+
+export interface CompletedArray {
+  key: string;
+  value: unknown[];
+}
+
+/**
+ * Creates an incremental scanner. Call push() with each text delta;
+ * it returns the top-level arrays completed by that delta.
+ */
+export const createTopLevelArrayScanner = () => {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString = '';              // Last string seen at depth 1 (key candidate)
+  let pendingKey: string | null = null;
+  let arrayKey: string | null = null;
+  let arrayStart = -1;
+
+  const push = (delta: string): CompletedArray[] => {
+    const completed: CompletedArray[] = [];
+    buffer += delta;
+
+    for (; position < buffer.length; position++) {
+      const ch = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (ch === '\\') {
+          escaped = true;
+        } else if (ch === '"') {
+          inString = false;
+          if (depth === 1) {
+            lastString = buffer.slice(stringStart, position + 1);
+          }
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          inString = true;
+          stringStart = position;
+          break;
+
+        case ':':
+          if (depth === 1) {
+            try {
+              pendingKey = JSON.parse(lastString);
+            } catch {
+              pendingKey = null;
+            }
+          }
+          break;
+
+        case ',':
+          if (depth === 1) pendingKey = null;
+          break;
+
+        case '{':
+        case '[':
+          if (depth === 1 && ch === '[' && pendingKey) {
+            arrayKey = pendingKey;
+            arrayStart = position;
+          }
+          depth++;
+          break;
+
+        case '}':
+        case ']':
+          depth--;
+          if (depth === 1 && ch === ']' && arrayKey) {
+            try {
+              completed.push({ key: arrayKey, value: JSON.parse(buffer.slice(arrayStart, position + 1)) });
+            } catch (error) {
+              console.warn(`Streamed "${arrayKey}" array is not valid JSON yet - waiting for full response`, error);
+            }
+            arrayKey = null;
+            pendingKey = null;
+          }
+          break;
+      }
+    }
+
+    return completed;
+  };
+
+  return { push };
+};
@@ -0,0 +1,49 @@
+/**
+ * Keyword Provider Registry
+ *
+ * To add a new AI vendor: implement KeywordProvider in one adapter file,
+ * add its id to AIProviderId (types.ts) and list it here.
+ */
+
+import type { AIProviderId } from '../types';
+import type { KeywordProvider } from './keywordProvider';
+import { geminiProvider } from './geminiService';
+import { openaiProvider } from './openaiService';
+import { localModelProvider } from './localModelService';
+
+const KEYWORD_PROVIDERS: KeywordProvider[] = [
+  geminiProvider,
+  openaiProvider,
+  localModelProvider
+];
+
+/**
+ * All registered providers, in display order
+ */
+export const listKeywordProviders = (): KeywordProvider[] => KEYWORD_PROVIDERS;
+
+/**
+ * Look up a provider by id
+ */
+export const getKeywordProvider = (id: AIProviderId): KeywordProvider => {
+  const provider = KEYWORD_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${id}`);
+  }
+  return provider;
+};
+
+/**
+ * The provider to fail over to when `id` keeps failing:
+ * the first other configured provider. Private endpoints never take part,
+ * so drafts meant for a local model are never sent to a cloud vendor.
+ */
+export const getFailoverProvider = (id: AIProviderId): KeywordProvider | undefined => {
+  if (getKeywordProvider(id).privateEndpoint) {
+    return undefined;
+  }
+
+  return KEYWORD_PROVIDERS.find(p =>
+    p.id !== id && !p.privateEndpoint && p.isConfigured()
+  );
+};
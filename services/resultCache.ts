@@ -0,0 +1,122 @@
+/**
+ * Keyword Result Cache (content-addressed, IndexedDB)
+ * Re-running an unchanged article returns the stored result instantly instead of
+ * another classification call, generation call and enrichment lookups.
+ *
+ * Key: SHA-256 of the normalized article text + provider + model + prompt version +
+ * enrichment settings + the publisher metadata the classification reads, so editing the
+ * article, switching model/mode, changing the prompts, connecting a data source
+ * (DataForSEO, its markets, Custom Search) or fetching a pasted article by URL misses the cache.
+ */
+
+import type { AIProviderId, ArticleMetadata, KeywordResult } from '../types';
+import { PROMPT_VERSION } from './prompts';
+import { RESULT_CACHE_STORE, runRequest } from './localDatabase';
+import { getDataForSEOConfig, getDataForSEOMarkets } from './dataForSeoService';
+import { getGoogleSearchConfig } from './googleSearchService';
+
+// Search metrics age - older results are regenerated (freshness is rescored on every hit)
+const RESULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ResultCacheKeyParts {
+  articleContent: string;
+  provider: AIProviderId;
+  model: string;   // provider.describeModel(useDeepAnalysis) - also separates Deep Analysis runs
+  enrichment: string;   // describeEnrichmentConfig() when the run started
+  metadata: string;     // describeClassificationMetadata(options.metadata)
+}
+
+interface CachedResult {
+  key: string;
+  createdAt: number;
+  result: KeywordResult;
+}
+
+/**
+ * Whitespace and Unicode form don't change the analysis (re-pasted or re-fetched text)
+ */
+export const normalizeArticleText = (text: string): string =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+/**
+ * SHA-256 hex digest
+ */
+export const hashText = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Enrichment settings that change a result's metrics (no credentials)
+ * e.g. "dataforseo=https://api.dataforseo.com@bd,in;cse=off"
+ */
+export const describeEnrichmentConfig = (): string => {
+  const dataForSeo = getDataForSEOConfig();
+  const customSearch = getGoogleSearchConfig();
+  return [
+    `dataforseo=${dataForSeo.enabled ? `${dataForSeo.apiUrl}@${getDataForSEOMarkets().join(',')}` : 'off'}`,
+    `cse=${customSearch.enabled ? customSearch.customSearchEngineId : 'off'}`
+  ].join(';');
+};
+
+/**
+ * Publisher metadata the content type classification reads (generateContentTypePrompt)
+ * e.g. "section=Business;site=The Daily Star;published=2026-10-18T09:30:00+06:00"
+ */
+export const describeClassificationMetadata = (metadata?: ArticleMetadata): string =>
+  [
+    `section=${metadata?.section || ''}`,
+    `site=${metadata?.siteName || ''}`,
+    `published=${metadata?.publishedTime || ''}`
+  ].join(';');
+
+export const buildResultCacheKey = async ({ articleContent, provider, model, enrichment, metadata }: ResultCacheKeyParts): Promise<string> =>
+  [await hashText(normalizeArticleText(articleContent)), provider, model, `v${PROMPT_VERSION}`, enrichment, metadata].join('|');
+
+/**
+ * Cached result for the article, or null (missing, expired or cache unavailable)
+ * Returned results carry `cachedAt` so the UI can say where they came from
+ */
+export const getCachedResult = async (parts: ResultCacheKeyParts): Promise<KeywordResult | null> => {
+  try {
+    const key = await buildResultCacheKey(parts);
+    const cached = await runRequest(RESULT_CACHE_STORE, 'readonly', store => store.get(key) as IDBRequest<CachedResult | undefined>);
+    if (!cached) return null;
+
+    if (Date.now() - cached.createdAt > RESULT_CACHE_TTL_MS) {
+      await runRequest(RESULT_CACHE_STORE, 'readwrite', store => store.delete(key));
+      return null;
+    }
+
+    return { ...cached.result, cachedAt: cached.createdAt };
+  } catch (error) {
+    console.warn('Result cache not available:', error);
+    return null;
+  }
+};
+
+/**
+ * Stores a freshly generated result
+ * Never throws - a cache failure must not break keyword generation
+ */
+export const saveCachedResult = async (parts: ResultCacheKeyParts, result: KeywordResult): Promise<void> => {
+  try {
+    const key = await buildResultCacheKey(parts);
+    const { cachedAt, ...fresh } = result;
+    await runRequest(RESULT_CACHE_STORE, 'readwrite', store => store.put({ key, createdAt: Date.now(), result: fresh }));
+  } catch (error) {
+    console.error('Failed to cache keyword result:', error);
+  }
+};
+
+/**
+ * Delete all cached results
+ */
+export const clearResultCache = async (): Promise<void> => {
+  try {
+    await runRequest(RESULT_CACHE_STORE, 'readwrite', store => store.clear());
+    console.log('Result cache cleared');
+  } catch (error) {
+    console.error('Failed to clear result cache:', error);
+  }
+};
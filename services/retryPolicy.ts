@@ -0,0 +1,118 @@
+/**
+ * Retry Policy for keyword generation
+ * - Exponential backoff for transient errors (network, 5xx, rate limits)
+ * - Retries with a correction prompt when the AI answer cannot be parsed
+ * - Optional failover to another configured provider
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number;        // Attempts per provider (1 = no retry)
+  initialDelayMs: number;     // Delay before the first retry
+  backoffMultiplier: number;  // Delay grows by this factor each retry
+  maxDelayMs: number;         // Upper bound for a single delay
+  failover: boolean;          // Try the other configured provider when all attempts fail
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 8000,
+  failover: true
+};
+
+// HTTP statuses worth retrying (timeouts, rate limits, server errors)
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Get retry policy from localStorage (falls back to defaults)
+ */
+export const getRetryPolicy = (): RetryPolicy => {
+  try {
+    const stored = localStorage.getItem('retry_policy');
+    return stored ? { ...DEFAULT_RETRY_POLICY, ...JSON.parse(stored) } : DEFAULT_RETRY_POLICY;
+  } catch (error) {
+    console.warn('Retry policy not available:', error);
+    return DEFAULT_RETRY_POLICY;
+  }
+};
+
+/**
+ * Save retry policy
+ */
+export const saveRetryPolicy = (policy: RetryPolicy): void => {
+  try {
+    localStorage.setItem('retry_policy', JSON.stringify(policy));
+  } catch (error) {
+    console.error('Failed to save retry policy:', error);
+  }
+};
+
+/**
+ * True when the AI answered but the answer was unusable (bad JSON, empty, no keywords).
+ * These retries carry a correction prompt.
+ */
+export const isFormatError = (error: unknown): boolean => {
+  if (error instanceof SyntaxError) return true;
+  if (!(error instanceof Error)) return false;
+
+  return error.message.includes('empty response') ||
+    error.message.includes('expected structure');
+};
+
+/**
+ * True for errors that may succeed on a second try
+ * Auth and quota errors are permanent - retrying only wastes time
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isFormatError(error)) return true;
+  if (!(error instanceof Error)) return false;
+
+  const message = error.message.toLowerCase();
+  if (message.includes('api key') || message.includes('api_key') || message.includes('quota')) {
+    return false;
+  }
+
+  const status = (error as { status?: number }).status;
+  if (typeof status === 'number') {
+    return TRANSIENT_STATUSES.includes(status);
+  }
+
+  return message.includes('failed to fetch') ||
+    message.includes('network') ||
+    message.includes('connection error') ||
+    message.includes('timeout') ||
+    message.includes('timed out') ||
+    message.includes('overloaded') ||
+    message.includes('rate limit');
+};
+
+/**
+ * Delay before retry number `attempt` (1-based)
+ */
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  return Math.min(delay, policy.maxDelayMs);
+};
+
+/**
+ * Waits `ms` milliseconds; rejects right away when the signal is aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
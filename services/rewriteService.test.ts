@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { KeywordResult } from '../types';
+import type { KeywordProvider } from './keywordProvider';
+import {
+  applyRewrite,
+  generateRewriteSuggestions,
+  parseRewriteAnswer,
+  rankHeadlines,
+  type RewriteChange
+} from './rewriteService';
+
+const DRAFT = [
+  'Metro fares go up',
+  'Fares on the Dhaka metro rail will rise from next month.',
+  'The new chart lists the fare for every station.',
+  'Commuter groups said the rise comes too soon.'
+].join('\n\n');
+
+const result = {
+  primary: [{ term: 'metro rail fare', rationale: 'Main topic' }],
+  secondary: [],
+  longtail: [],
+  competitorInsights: ''
+} as KeywordResult;
+
+const permutations = <T,>(items: T[]): T[][] =>
+  items.length <= 1 ? [items] : items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+
+describe('rankHeadlines', () => {
+  it('puts headlines with the focus keyword first and drops blanks and repeats', () => {
+    const ranked = rankHeadlines([
+      'Dhaka commuters brace for a costlier ride',
+      ' Metro rail fare rises from November across all stations ',
+      'Metro rail fare rises from November across all stations',
+      ''
+    ], result);
+
+    expect(ranked.map(headline => headline.text)).toEqual([
+      'Metro rail fare rises from November across all stations',
+      'Dhaka commuters brace for a costlier ride'
+    ]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+    expect(ranked[1].lint.issues.map(issue => issue.message)).toContain('Focus keyword "metro rail fare" does not appear in the title.');
+  });
+});
+
+describe('parseRewriteAnswer', () => {
+  it('cleans subheads and keeps them after the intro', () => {
+    const parsed = parseRewriteAnswer({
+      headlines: ['Metro rail fare rises', 42],
+      intro: '  Metro rail fares rise next month.  ',
+      subheads: [
+        { heading: '## How much is the new fare?', question: 'metro rail fare how much', beforeParagraph: 3 },
+        { heading: 'Which stations cost more?', beforeParagraph: 1 },
+        { heading: 'When does it start?', beforeParagraph: 'soon' },
+        { question: 'no heading', beforeParagraph: 2 }
+      ]
+    });
+
+    expect(parsed).toEqual({
+      headlines: ['Metro rail fare rises'],
+      intro: 'Metro rail fares rise next month.',
+      subheads: [
+        { heading: 'How much is the new fare?', question: 'metro rail fare how much', beforeParagraph: 3 },
+        { heading: 'Which stations cost more?', question: '', beforeParagraph: 2 },
+        { heading: 'When does it start?', question: '', beforeParagraph: 2 }
+      ]
+    });
+  });
+
+  it('rejects an answer without any usable suggestion', () => {
+    expect(() => parseRewriteAnswer({ headlines: 'one', subheads: [{}] })).toThrow('did not contain any rewrite suggestions');
+  });
+});
+
+describe('applyRewrite', () => {
+  const changes: RewriteChange[] = [
+    { kind: 'headline', text: 'Metro rail fare rises from November' },
+    { kind: 'intro', text: 'The metro rail fare rises from November, the operator said.' },
+    { kind: 'subhead', subhead: { heading: 'How much is the new fare?', question: '', beforeParagraph: 2 } },
+    { kind: 'subhead', subhead: { heading: 'What commuters say', question: '', beforeParagraph: 3 } }
+  ];
+
+  it('gives the same draft whichever order the changes are accepted in', () => {
+    const expected = [
+      'Metro rail fare rises from November',
+      'The metro rail fare rises from November, the operator said.',
+      'How much is the new fare?',
+      'The new chart lists the fare for every station.',
+      'What commuters say',
+      'Commuter groups said the rise comes too soon.'
+    ].join('\n\n');
+
+    for (const order of permutations(changes)) {
+      expect(order.reduce(applyRewrite, DRAFT)).toBe(expected);
+    }
+  });
+
+  it('adds a subhead meant past the last paragraph at the end', () => {
+    const change: RewriteChange = { kind: 'subhead', subhead: { heading: 'What happens next', question: '', beforeParagraph: 9 } };
+    expect(applyRewrite(`${DRAFT}\n`, change)).toBe(`${DRAFT}\n\nWhat happens next`);
+  });
+});
+
+describe('generateRewriteSuggestions', () => {
+  const structuredProvider = (text: string): KeywordProvider => ({
+    id: 'openai',
+    label: 'Fake OpenAI',
+    tagline: '',
+    capabilities: { jsonMode: true, structuredOutput: true, grounding: false, streaming: false },
+    isConfigured: () => true,
+    describeModel: () => 'fake-model',
+    generate: vi.fn(async () => ({ text, groundingChunks: [] })),
+    classifyContentType: async () => 'News Article'
+  });
+
+  it('reads a structured answer wrapped in prose', async () => {
+    const answer = 'Here you go: {"headlines": ["Metro rail fare rises"], "intro": "", "subheads": []}';
+    const suggestions = await generateRewriteSuggestions(structuredProvider(answer), DRAFT, result, false);
+    expect(suggestions.headlines.map(headline => headline.text)).toEqual(['Metro rail fare rises']);
+  });
+
+  it('reports a truncated structured answer in words, not as a JSON parser error', async () => {
+    const truncated = '{"headlines": ["Metro rail fare rises", "Metro fa';
+    await expect(generateRewriteSuggestions(structuredProvider(truncated), DRAFT, result, false))
+      .rejects.toThrow('The AI response could not be read as rewrite suggestions (invalid JSON). Please try again.');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Rewrite Suggestions (second AI step after keyword generation)
+ * - 3-5 alternative headlines, scored with the meta linter (metaLinter.ts)
+ * - Rewritten first paragraph with the focus keyword in its first sentence
+ * - H2 subheads built from questionKeywords, placed before a body paragraph
+ * - Each piece is applied to the draft on its own (applyRewrite)
+ *
+ * Runs through the same KeywordProvider as the keyword pipeline, in English or
+ * Bangla depending on the article's detected language.
+ */
+
+import type { KeywordResult } from '../types';
+import type { KeywordProvider } from './keywordProvider';
+import type { JsonSchema } from './keywordSchema';
+import { buildRewritePrompt, detectLanguage } from './prompts';
+import { extractJsonFromText } from './keywordPipeline';
+import { lintMetaText, type MetaLintResult } from './metaLinter';
+import { splitArticleBlocks } from './keywordCoverage';
+
+export interface HeadlineSuggestion {
+  text: string;
+  lint: MetaLintResult;
+  score: number;            // 0-100, from the lint issues
+}
+
+export interface SubheadSuggestion {
+  heading: string;
+  question: string;
+  beforeParagraph: number;  // 1-based body paragraph the subhead goes before
+}
+
+export interface RewriteSuggestions {
+  headlines: HeadlineSuggestion[];   // Best score first
+  intro: string;
+  subheads: SubheadSuggestion[];
+}
+
+export type RewriteChange =
+  | { kind: 'headline'; text: string }
+  | { kind: 'intro'; text: string }
+  | { kind: 'subhead'; subhead: SubheadSuggestion };
+
+export const REWRITE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    headlines: { type: 'array', description: '3-5 alternative headlines', items: { type: 'string' } },
+    intro: { type: 'string', description: 'Rewritten first paragraph' },
+    subheads: {
+      type: 'array',
+      description: '2-5 H2 subheads from the question keywords',
+      items: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string' },
+          question: { type: 'string' },
+          beforeParagraph: { type: 'integer', description: '1-based body paragraph number' }
+        },
+        required: ['heading', 'beforeParagraph']
+      }
+    }
+  },
+  required: ['headlines', 'intro', 'subheads']
+};
+
+const LINT_PENALTIES: Record<MetaLintResult['issues'][number]['severity'], number> = {
+  error: 30,
+  warning: 12,
+  info: 4
+};
+
+/**
+ * Headline score from its meta lint result (100 = no issues)
+ */
+export const scoreHeadline = (lint: MetaLintResult): number =>
+  Math.max(0, 100 - lint.issues.reduce((sum, issue) => sum + LINT_PENALTIES[issue.severity], 0));
+
+/**
+ * Scores headlines as meta titles for the focus keyword, best first
+ */
+export const rankHeadlines = (headlines: string[], result: Pick<KeywordResult, 'primary'>): HeadlineSuggestion[] => {
+  const focus = result.primary[0];
+  const keywords = [focus?.term, focus?.termBangla].filter((term): term is string => !!term);
+  return [...new Set(headlines.map(h => h.trim()).filter(Boolean))]
+    .map(text => {
+      const lint = lintMetaText('title', text, keywords);
+      return { text, lint, score: scoreHeadline(lint) };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Model text to JSON: strict for structured-output providers, extraction otherwise
+ * A truncated or malformed structured answer still gets the extraction, then a readable error
+ */
+const parseRewriteText = (text: string, provider: KeywordProvider): unknown => {
+  if (provider.capabilities.structuredOutput) {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      console.warn(`${provider.label} returned invalid structured output, trying text extraction:`, error);
+    }
+  }
+
+  try {
+    return extractJsonFromText(text);
+  } catch (error) {
+    console.error('Rewrite answer is not JSON:', error);
+    throw new Error('The AI response could not be read as rewrite suggestions (invalid JSON). Please try again.');
+  }
+};
+
+/**
+ * Checks the model answer; unusable parts become empty rather than failing the whole step
+ */
+export const parseRewriteAnswer = (raw: unknown): { headlines: string[]; intro: string; subheads: SubheadSuggestion[] } => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const headlines = Array.isArray(data.headlines) ? data.headlines.filter((h): h is string => typeof h === 'string') : [];
+  const intro = typeof data.intro === 'string' ? data.intro.trim() : '';
+  const subheads = (Array.isArray(data.subheads) ? data.subheads : [])
+    .filter((s): s is Record<string, unknown> => !!s && typeof s === 'object' && typeof (s as Record<string, unknown>).heading === 'string')
+    .map(s => ({
+      heading: String(s.heading).replace(/^#+\s*/, '').trim(),
+      question: typeof s.question === 'string' ? s.question : '',
+      beforeParagraph: Math.max(2, Math.round(Number(s.beforeParagraph)) || 2)
+    }))
+    .filter(s => s.heading);
+
+  if (headlines.length === 0 && !intro && subheads.length === 0) {
+    throw new Error('The AI response did not contain any rewrite suggestions. Please try again.');
+  }
+  return { headlines, intro, subheads };
+};
+
+/**
+ * Asks the provider for headline, intro and subhead rewrites of the article
+ */
+export const generateRewriteSuggestions = async (
+  provider: KeywordProvider,
+  articleContent: string,
+  result: KeywordResult,
+  useDeepAnalysis: boolean,
+  signal?: AbortSignal
+): Promise<RewriteSuggestions> => {
+  const language = detectLanguage(articleContent);
+  const prompt = buildRewritePrompt(articleContent, result, language);
+
+  console.log(`✍️ Requesting rewrite suggestions from ${provider.label} (${language})...`);
+  const response = await provider.generate({ prompt, useDeepAnalysis, responseSchema: REWRITE_SCHEMA, signal });
+  const text = response.text.trim();
+  if (!text) {
+    throw new Error(`Received empty response from ${provider.label}.`);
+  }
+
+  const { headlines, intro, subheads } = parseRewriteAnswer(parseRewriteText(text, provider));
+
+  return {
+    headlines: rankHeadlines(headlines, result).slice(0, 5),
+    intro,
+    subheads: subheads.slice(0, 5)
+  };
+};
+
+/**
+ * Current headline and first paragraph of the draft (what the suggestions replace)
+ */
+export const getRewriteTargets = (articleContent: string): { headline: string; intro: string } => {
+  const blocks = splitArticleBlocks(articleContent);
+  return {
+    headline: blocks.find(block => block.kind === 'title')?.text.trim() || '',
+    intro: blocks.find(block => block.kind === 'paragraph')?.text.trim() || ''
+  };
+};
+
+/**
+ * Applies one accepted suggestion to the draft
+ * Offsets are recomputed from the current text, so pieces can be accepted in any order
+ */
+export const applyRewrite = (articleContent: string, change: RewriteChange): string => {
+  const blocks = splitArticleBlocks(articleContent);
+  const replace = (start: number, end: number, text: string) =>
+    articleContent.slice(0, start) + text + articleContent.slice(end);
+
+  if (change.kind === 'headline') {
+    const title = blocks.find(block => block.kind === 'title');
+    return title ? replace(title.start, title.end, change.text) : `${change.text}\n\n${articleContent}`;
+  }
+
+  const paragraphs = blocks.filter(block => block.kind === 'paragraph');
+
+  if (change.kind === 'intro') {
+    const intro = paragraphs[0];
+    return intro ? replace(intro.start, intro.end, change.text) : `${articleContent.trimEnd()}\n\n${change.text}`;
+  }
+
+  // Subheads go before the chosen paragraph, or at the end when the article is shorter
+  const target = paragraphs[change.subhead.beforeParagraph - 1];
+  return target
+    ? replace(target.start, target.start, `${change.subhead.heading}\n\n`)
+    : `${articleContent.trimEnd()}\n\n${change.subhead.heading}`;
+};
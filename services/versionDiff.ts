@@ -0,0 +1,214 @@
+/**
+ * Article Version Diff & Keyword Drift
+ * Compares two analyses of the same story (e.g. before and after a reporter's edit):
+ * - Keywords added / removed / reworded per category
+ * - Difficulty, search volume and confidence changes of matched keywords
+ * - Word-level meta title / description diff
+ * - Change in overall ranking confidence
+ *
+ * Keywords are matched across versions with calculateSimilarity (keywordUtils.ts),
+ * so "dhaka metro rail fare" and "metro rail fare dhaka" count as the same keyword.
+ */
+
+import type { HistoryEntry, Keyword, KeywordResult } from '../types';
+import { KEYWORD_CATEGORIES, type KeywordCategory } from './keywordSchema';
+import { calculateSimilarity, calculateKeywordConfidence } from './keywordUtils';
+
+// Keyword pairs at or above this word overlap are treated as the same keyword
+const KEYWORD_MATCH_THRESHOLD = 0.6;
+
+// Articles at or above this word overlap are treated as versions of the same story
+const RELATED_CONTENT_THRESHOLD = 0.5;
+
+export interface MetricChange {
+  before?: number;
+  after?: number;
+  delta?: number;   // Only set when both sides are known
+}
+
+export interface KeywordChange {
+  term: string;
+  previousTerm?: string;   // Set when the keyword was reworded
+  difficulty: MetricChange;
+  volume: MetricChange;
+  confidence: MetricChange;
+}
+
+export interface CategoryDiff {
+  category: KeywordCategory;
+  added: Keyword[];
+  removed: Keyword[];
+  changed: KeywordChange[];   // Matched keywords whose wording or metrics changed
+  unchanged: number;
+}
+
+export interface WordDiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface TextDiff {
+  before?: string;
+  after?: string;
+  changed: boolean;
+  parts: WordDiffPart[];
+}
+
+export interface KeywordDriftReport {
+  categories: CategoryDiff[];
+  metaTitle: TextDiff;
+  metaDescription: TextDiff;
+  overallConfidence: MetricChange;
+  contentSimilarity: number;   // 0-1 word overlap of the two article texts
+}
+
+const keywordTerms = (result: KeywordResult): string =>
+  KEYWORD_CATEGORIES.map(category => (result[category] || []).map(keyword => keyword.term).join('|')).join('\n');
+
+/**
+ * Earlier analyses of the same story: same URL, or clearly overlapping text
+ * Newest first. Entries identical to the current analysis (the history copy of
+ * the result on screen, or a cache hit) are left out - there is nothing to diff.
+ */
+export const findRelatedVersions = (
+  current: { articleUrl?: string; articleContent: string; result: KeywordResult },
+  entries: HistoryEntry[]
+): HistoryEntry[] =>
+  entries
+    .filter(entry =>
+      entry.articleContent !== current.articleContent || keywordTerms(entry.result) !== keywordTerms(current.result)
+    )
+    .filter(entry =>
+      (!!current.articleUrl && entry.articleUrl === current.articleUrl) ||
+      calculateSimilarity(entry.articleContent, current.articleContent) >= RELATED_CONTENT_THRESHOLD
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+const compareMetric = (before?: number, after?: number): MetricChange => ({
+  before,
+  after,
+  delta: before !== undefined && after !== undefined ? after - before : undefined
+});
+
+const keywordConfidence = (keyword: Keyword): number | undefined =>
+  keyword.difficultyScore !== undefined ? calculateKeywordConfidence(keyword).confidence : undefined;
+
+/**
+ * Pairs each new keyword with the most similar unused old keyword (greedy, best match first)
+ */
+const diffCategory = (category: KeywordCategory, before: Keyword[], after: Keyword[]): CategoryDiff => {
+  const candidates = after.flatMap((next, afterIndex) =>
+    before.map((previous, beforeIndex) => ({
+      afterIndex,
+      beforeIndex,
+      score: calculateSimilarity(previous.term, next.term)
+    }))
+  )
+    .filter(pair => pair.score >= KEYWORD_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const matchedAfter = new Map<number, number>();
+  const usedBefore = new Set<number>();
+  for (const pair of candidates) {
+    if (matchedAfter.has(pair.afterIndex) || usedBefore.has(pair.beforeIndex)) continue;
+    matchedAfter.set(pair.afterIndex, pair.beforeIndex);
+    usedBefore.add(pair.beforeIndex);
+  }
+
+  const changed: KeywordChange[] = [];
+  let unchanged = 0;
+
+  matchedAfter.forEach((beforeIndex, afterIndex) => {
+    const previous = before[beforeIndex];
+    const next = after[afterIndex];
+    const change: KeywordChange = {
+      term: next.term,
+      previousTerm: previous.term.toLowerCase() !== next.term.toLowerCase() ? previous.term : undefined,
+      difficulty: compareMetric(previous.difficultyScore, next.difficultyScore),
+      volume: compareMetric(previous.searchVolumeNumeric, next.searchVolumeNumeric),
+      confidence: compareMetric(keywordConfidence(previous), keywordConfidence(next))
+    };
+
+    const metricsChanged = [change.difficulty, change.volume, change.confidence].some(metric => metric.before !== metric.after);
+    if (change.previousTerm || metricsChanged) {
+      changed.push(change);
+    } else {
+      unchanged++;
+    }
+  });
+
+  return {
+    category,
+    added: after.filter((_, index) => !matchedAfter.has(index)),
+    removed: before.filter((_, index) => !usedBefore.has(index)),
+    changed,
+    unchanged
+  };
+};
+
+/**
+ * Word-level diff (longest common subsequence)
+ */
+export const diffWords = (before: string = '', after: string = ''): WordDiffPart[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (type: WordDiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      parts.push({ type, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+};
+
+const diffText = (before?: string, after?: string): TextDiff => ({
+  before,
+  after,
+  changed: (before || '').trim() !== (after || '').trim(),
+  parts: diffWords(before, after)
+});
+
+/**
+ * Builds the drift report from an older (`before`) to a newer (`after`) analysis
+ */
+export const buildKeywordDriftReport = (
+  before: { articleContent: string; result: KeywordResult },
+  after: { articleContent: string; result: KeywordResult }
+): KeywordDriftReport => ({
+  categories: KEYWORD_CATEGORIES.map(category =>
+    diffCategory(category, before.result[category] || [], after.result[category] || [])
+  ),
+  metaTitle: diffText(before.result.metaTitle, after.result.metaTitle),
+  metaDescription: diffText(before.result.metaDescription, after.result.metaDescription),
+  overallConfidence: compareMetric(before.result.rankingConfidence?.overall, after.result.rankingConfidence?.overall),
+  contentSimilarity: calculateSimilarity(before.articleContent, after.articleContent)
+});
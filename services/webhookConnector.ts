@@ -0,0 +1,56 @@
+/**
+ * Generic Webhook Connector
+ * POSTs the fields as JSON to any endpoint (Drupal custom module, n8n, Zapier, ...).
+ * With a secret, the body is signed: X-Signature-256: sha256=<HMAC-SHA256 hex>.
+ *
+ * Webhooks are write-only, so current values (and conflicts) can't be shown.
+ */
+
+import type { CmsConnector } from './cmsConnector';
+
+/**
+ * HMAC-SHA256 hex signature of the body
+ */
+export const signWebhookBody = async (body: string, secret: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const webhookConnector: CmsConnector = {
+  id: 'webhook',
+  label: 'Webhook (any CMS)',
+
+  isConfigured: (config) => !!config.webhookUrl,
+
+  fetchCurrent: async () => null,
+
+  push: async (config, postId, fields, options = {}) => {
+    const url = config.webhookUrl || '';
+    const payload = {
+      event: 'keywords.updated',
+      postId,
+      fields,
+      sentAt: new Date().toISOString()
+    };
+
+    if (options.dryRun) {
+      return { sent: false, request: { method: 'POST', url, body: payload }, message: 'Dry run - the webhook was not called.' };
+    }
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.webhookSecret) {
+      headers['X-Signature-256'] = `sha256=${await signWebhookBody(body, config.webhookSecret)}`;
+    }
+
+    const response = await fetch(url, { method: 'POST', headers, body, signal: options.signal });
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status} ${response.statusText}`.trim());
+    }
+
+    console.log(`✅ Webhook delivered for post ${postId}`);
+    return { sent: true, request: { method: 'POST', url, body: payload }, message: `Webhook delivered (${response.status}).` };
+  }
+};
@@ -0,0 +1,172 @@
+/**
+ * WordPress REST Connector
+ * - Post title / excerpt via /wp-json/wp/v2/posts/<id>
+ * - SEO title, meta description and focus keyword via Yoast or RankMath post meta
+ * - Tags resolved by name (created when missing) and added to the existing ones
+ *
+ * Auth: WordPress application password (Basic auth).
+ * The SEO plugin's meta keys must be exposed to the REST API (register_post_meta
+ * with show_in_rest) - neither plugin does that by default.
+ */
+
+import type { CmsConfig, CmsConnector, CmsFields, SeoPlugin } from './cmsConnector';
+import { mergeTags } from './cmsConnector';
+
+const SEO_META_KEYS: Record<SeoPlugin, { metaTitle: string; metaDescription: string; focusKeyword: string }> = {
+  yoast: {
+    metaTitle: '_yoast_wpseo_title',
+    metaDescription: '_yoast_wpseo_metadesc',
+    focusKeyword: '_yoast_wpseo_focuskw'
+  },
+  rankmath: {
+    metaTitle: 'rank_math_title',
+    metaDescription: 'rank_math_description',
+    focusKeyword: 'rank_math_focus_keyword'
+  }
+};
+
+interface WordPressPost {
+  id: number;
+  link?: string;
+  title?: { raw?: string; rendered?: string };
+  excerpt?: { raw?: string; rendered?: string };
+  meta?: Record<string, unknown>;
+  tags?: number[];
+}
+
+interface WordPressTag {
+  id: number;
+  name: string;
+}
+
+const apiUrl = (config: CmsConfig, path: string): string =>
+  `${(config.baseUrl || '').replace(/\/+$/, '')}/wp-json/wp/v2${path}`;
+
+const wpRequest = async <T>(
+  config: CmsConfig,
+  path: string,
+  init: { method?: string; body?: unknown; signal?: AbortSignal } = {}
+): Promise<T> => {
+  const response = await fetch(apiUrl(config, path), {
+    method: init.method || 'GET',
+    headers: {
+      'Authorization': `Basic ${btoa(`${config.username}:${config.appPassword}`)}`,
+      'Content-Type': 'application/json'
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    signal: init.signal
+  });
+
+  if (!response.ok) {
+    let detail = '';
+    try {
+      detail = (await response.json()).message || '';
+    } catch {
+      // Not a WordPress error body
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`WordPress rejected the credentials (${response.status}). Check the username and application password.${detail ? ` ${detail}` : ''}`);
+    }
+    throw new Error(`WordPress API error (${response.status})${detail ? `: ${detail}` : ''}`);
+  }
+
+  return response.json();
+};
+
+const postPath = (postId: string): string => {
+  if (!/^\d+$/.test(postId.trim())) {
+    throw new Error('WordPress post ID must be a number (see the post edit URL: post.php?post=<ID>).');
+  }
+  return `/posts/${postId.trim()}`;
+};
+
+const metaString = (meta: Record<string, unknown> | undefined, key: string): string | undefined =>
+  typeof meta?.[key] === 'string' && meta[key] ? meta[key] as string : undefined;
+
+/**
+ * Finds each tag by name, creating the missing ones
+ */
+const resolveTagIds = async (config: CmsConfig, names: string[], signal?: AbortSignal): Promise<number[]> => {
+  const ids: number[] = [];
+
+  for (const name of names) {
+    const matches = await wpRequest<WordPressTag[]>(config, `/tags?search=${encodeURIComponent(name)}&per_page=20`, { signal });
+    const existing = matches.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+    const tag = existing || await wpRequest<WordPressTag>(config, '/tags', { method: 'POST', body: { name }, signal });
+    ids.push(tag.id);
+  }
+
+  return ids;
+};
+
+const fetchPost = (config: CmsConfig, postId: string, signal?: AbortSignal) =>
+  wpRequest<WordPressPost>(config, `${postPath(postId)}?context=edit`, { signal });
+
+const fetchTagNames = async (config: CmsConfig, ids: number[] = [], signal?: AbortSignal): Promise<string[]> => {
+  if (ids.length === 0) return [];
+  const tags = await wpRequest<WordPressTag[]>(config, `/tags?include=${ids.join(',')}&per_page=100`, { signal });
+  return tags.map(tag => tag.name);
+};
+
+export const wordpressConnector: CmsConnector = {
+  id: 'wordpress',
+  label: 'WordPress (REST API)',
+
+  isConfigured: (config) => !!(config.baseUrl && config.username && config.appPassword),
+
+  fetchCurrent: async (config, postId, signal) => {
+    const post = await fetchPost(config, postId, signal);
+    const keys = SEO_META_KEYS[config.seoPlugin];
+
+    return {
+      title: post.title?.raw ?? post.title?.rendered,
+      excerpt: post.excerpt?.raw ?? post.excerpt?.rendered,
+      metaTitle: metaString(post.meta, keys.metaTitle),
+      metaDescription: metaString(post.meta, keys.metaDescription),
+      focusKeyword: metaString(post.meta, keys.focusKeyword),
+      tags: await fetchTagNames(config, post.tags, signal)
+    };
+  },
+
+  push: async (config, postId, fields: CmsFields, options = {}) => {
+    const { dryRun, signal } = options;
+    const keys = SEO_META_KEYS[config.seoPlugin];
+    const url = apiUrl(config, postPath(postId));
+
+    const meta: Record<string, string> = {};
+    if (fields.metaTitle) meta[keys.metaTitle] = fields.metaTitle;
+    if (fields.metaDescription) meta[keys.metaDescription] = fields.metaDescription;
+    if (fields.focusKeyword) meta[keys.focusKeyword] = fields.focusKeyword;
+
+    const body: Record<string, unknown> = {
+      ...(fields.title && { title: fields.title }),
+      ...(fields.excerpt && { excerpt: fields.excerpt }),
+      ...(Object.keys(meta).length > 0 && { meta })
+    };
+
+    if (dryRun) {
+      // Tag names are shown as-is - resolving them would create tags
+      return {
+        sent: false,
+        request: { method: 'POST', url, body: { ...body, ...(fields.tags?.length && { tags: fields.tags }) } },
+        message: 'Dry run - nothing was sent to WordPress.'
+      };
+    }
+
+    if (fields.tags?.length) {
+      const post = await fetchPost(config, postId, signal);
+      const currentNames = await fetchTagNames(config, post.tags, signal);
+      const newNames = mergeTags(currentNames, fields.tags).slice(currentNames.length);
+      body.tags = [...(post.tags || []), ...await resolveTagIds(config, newNames, signal)];
+    }
+
+    const updated = await wpRequest<WordPressPost>(config, postPath(postId), { method: 'POST', body, signal });
+    console.log(`✅ WordPress post ${updated.id} updated`);
+
+    return {
+      sent: true,
+      request: { method: 'POST', url, body },
+      message: `Post ${updated.id} updated${updated.link ? ` - ${updated.link}` : ''}.`
+    };
+  }
+};
@@ -1,16 +1,103 @@
 
+// Registered keyword providers (see services/providerRegistry.ts)
+export type AIProviderId = 'gemini' | 'openai' | 'local';
+
+// Where a keyword's search volume came from
+// dataforseo = measured; google-trends = Trends index calibrated against a keyword with a
+// measured volume; heuristic = word-list/result-count estimate (googleSearchService.ts);
+// ai-estimate = the model's own guess
+export type VolumeSource = 'dataforseo' | 'google-trends' | 'heuristic' | 'ai-estimate';
+
+// DataForSEO target markets (see DATAFORSEO_MARKETS in services/dataForSeoService.ts)
+export type DataForSeoMarket = 'bd' | 'in' | 'uk' | 'us';
+
+export interface MarketVolume {
+  market: DataForSeoMarket;
+  searchVolume: number;        // All spellings of the keyword together
+  difficulty?: number;         // 0-100 SEO keyword difficulty (DataForSEO Labs), volume-weighted across spellings
+  competition: number;         // 0-100 Google Ads competition - paid, not organic
+  lookups: Array<{ term: string; language: 'bn' | 'en'; searchVolume: number }>;
+}
+
+export interface SerpResult {
+  rank: number;
+  title: string;
+  url: string;
+  domain: string;
+}
+
+// Live Google results page for a focus keyword (DataForSEO SERP API)
+export interface SerpSnapshot {
+  market: DataForSeoMarket;
+  checkedAt: string;           // ISO date of the check
+  topResults: SerpResult[];    // Organic top 10
+  features: string[];          // Result types on the page: top_stories, people_also_ask, featured_snippet...
+  topStories: SerpResult[];
+  peopleAlsoAsk: string[];
+}
+
+// Google Trends interest on the result's common scale: every keyword of an analysis is
+// compared in one anchored comparison, the most searched one = 100. Relative, not a volume
+export interface TrendsIndex {
+  score: number;               // 12-month average
+  low: number;                 // Weekly spread (10th-90th percentile)
+  high: number;
+  anchor?: string;             // Keyword later Trends batches were rescaled against
+}
+
 export interface Keyword {
   term: string;
   rationale: string;
   searchIntent?: 'informational' | 'navigational' | 'transactional' | 'commercial';
   searchVolume?: 'high' | 'medium' | 'low' | string;  // Can be estimate or real number
-  searchVolumeNumeric?: number;      // Real search volume from API (if available)
+  searchVolumeNumeric?: number;      // Monthly searches - measured or the middle of an estimate (see volumeSource)
+  searchVolumeRange?: { low: number; high: number };  // Estimate interval (estimated volumes only)
+  volumeSource?: VolumeSource;
+  volumeInputs?: string[];           // Signals the estimate was built from, for the UI
+  trendsIndex?: TrendsIndex;         // Relative Google Trends interest (comparable across categories)
+  marketVolumes?: MarketVolume[];    // DataForSEO volumes per target market (searchVolumeNumeric is their sum)
+  serp?: SerpSnapshot;               // Current top 10 (focus keywords, DataForSEO only)
   difficulty?: 'easy' | 'medium' | 'hard';
   difficultyScore?: number;          // 0-100 (0=easiest, 100=impossible)
   winnability?: 'Easy' | 'Medium' | 'Hard' | 'Very Hard';
   // Bilingual support for Bangla keywords
   termBangla?: string;        // Bengali script version
   termEnglish?: string;       // English/transliteration version
+  // Editor changes (see services/keywordEditor.ts)
+  locked?: boolean;           // Kept as-is when the article is analyzed again
+  addedByEditor?: boolean;    // Added manually, not suggested by the AI
+}
+
+// Query whose Google Trends interest is growing fast (see services/googleTrendsService.ts)
+export interface RisingQuery {
+  keyword: string;    // Keyword the query is related to
+  query: string;
+  value: number;      // Growth in percent
+  growth: string;     // As Trends shows it: "+250%" or "Breakout"
+}
+
+// Page ranking for a focus keyword, as read by the competitor gap analysis (services/competitorGapService.ts)
+export interface CompetitorPage extends SerpResult {
+  keywords: string[];          // Focus keywords it ranks for
+  source: 'dataforseo' | 'custom-search';
+  status: 'analyzed' | 'blocked' | 'failed';   // blocked = the fetch proxy's allowlist refused the domain
+  headings: string[];          // H1-H3 text (analyzed pages only)
+}
+
+// Term ranking pages use in titles/headings that the article does not mention
+export interface CompetitorGap {
+  term: string;
+  pageCount: number;           // Analyzed pages using it
+  keywords: string[];          // Focus keywords whose results use it
+  domains: string[];
+  example: string;             // A competitor title or heading containing it
+}
+
+export interface CompetitorGapReport {
+  checkedAt: string;           // ISO date of the analysis
+  pages: CompetitorPage[];
+  gaps: CompetitorGap[];       // Most used first
+  coveredTerms: string[];      // Terms several competitors use that the article already has
 }
 
 export interface GroundingChunk {
@@ -20,6 +107,20 @@ export interface GroundingChunk {
   };
 }
 
+export interface ValidationIssue {
+  path: string;       // e.g. "primary[2].searchIntent"
+  action: 'dropped' | 'coerced' | 'warning';
+  message: string;
+}
+
+export interface GenerationInfo {
+  provider: AIProviderId;   // Provider that produced the result
+  model: string;            // Human-readable model description
+  attempt: number;          // Attempt number on that provider (1 = first try)
+  totalAttempts: number;    // Attempts across all providers
+  failover: boolean;        // True when the main provider failed and another took over
+}
+
 export interface RankingConfidence {
   overall: number;  // 0-100
   factors: {
@@ -36,6 +137,19 @@ export interface RankingConfidence {
   }>;
 }
 
+export interface ArticleMetadata {
+  title?: string;           // og:title / JSON-LD headline
+  description?: string;     // og:description / meta description
+  publishedTime?: string;   // ISO date (article:published_time / datePublished)
+  modifiedTime?: string;
+  author?: string;
+  section?: string;         // article:section / articleSection (e.g. "Business")
+  siteName?: string;
+  canonicalUrl?: string;
+  ampUrl?: string;          // <link rel="amphtml">
+  image?: string;
+}
+
 export interface KeywordResult {
   primary: Keyword[];
   secondary: Keyword[];
@@ -43,7 +157,8 @@ export interface KeywordResult {
   lsiKeywords?: Keyword[];
   entities?: Keyword[];
   questionKeywords?: Keyword[];
-  competitorInsights: string;
+  competitorInsights: string;            // The model's own notes - competitorGaps has the live comparison
+  competitorGaps?: CompetitorGapReport;   // Live SERP gap table, run on demand from the results
   searchReferences: GroundingChunk[];
   contentType: string;
   seoScore?: number;
@@ -52,11 +167,41 @@ export interface KeywordResult {
   serpFeatureTargets?: string[];
   localSeoSignals?: string[];
   rankingConfidence?: RankingConfidence;  // NEW: Ranking predictions
-  dataSourceUsed?: 'gemini-estimate' | 'dataforseo-api' | 'google-data';  // Which data source
+  dataSourceUsed?: 'gemini-estimate' | 'dataforseo-api' | 'google-data' | 'heuristic';  // Strongest data source that returned data
+  risingQueries?: RisingQuery[];         // Google Trends rising queries for the focus keywords
+  validationIssues?: ValidationIssue[];  // What schema validation dropped or repaired
+  generatedBy?: GenerationInfo;          // Which provider/attempt produced this result
+  articleMetadata?: ArticleMetadata;     // Publisher metadata when the article was fetched from a URL
+  cachedAt?: number;                     // Set when served from the result cache (epoch ms of the original run)
   // Bilingual/Bangla-specific fields
   detectedLanguage?: 'english' | 'bangla' | 'mixed';
   metaTitleBangla?: string;           // Bangla version of meta title
   metaDescriptionBangla?: string;     // Bangla version of meta description
   banglaSearchInsights?: string;      // Bangla-specific search behavior insights
   transliterationGuide?: string;      // How to transliterate key Bangla terms
-}
\ No newline at end of file
+}
+export type BatchItemStatus = 'queued' | 'fetching' | 'generating' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  url: string;
+  title?: string;            // From the feed/sitemap, or the fetched article
+  status: BatchItemStatus;
+  content?: string;          // Extracted article text (so a result can be reopened with its article)
+  result?: KeywordResult;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;          // Epoch ms
+  articleTitle: string;       // First line of the article (or fetched headline)
+  articleUrl?: string;        // Set when the article was fetched from a URL
+  articleContent: string;     // Text that was analyzed
+  provider: AIProviderId;     // Provider that produced the result (the failover one, if it took over)
+  model?: string;             // Its model description (entries saved before this was recorded have none)
+  useDeepAnalysis: boolean;
+  result: KeywordResult;
+}
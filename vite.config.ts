@@ -1,15 +1,24 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createFetchProxyHandler, readProxyOptionsFromEnv } from './server/fetchProxy.js';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Article fetch proxy at /proxy for `npm run dev` and `npm run preview` (see server/fetchProxy.js)
+    const handleProxy = createFetchProxyHandler(readProxyOptionsFromEnv(env));
+    const fetchProxyPlugin: Plugin = {
+      name: 'fetch-proxy',
+      configureServer: (server) => { server.middlewares.use('/proxy', handleProxy); },
+      configurePreviewServer: (server) => { server.middlewares.use('/proxy', handleProxy); }
+    };
+
     return {
       server: {
         port: 4000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), fetchProxyPlugin],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)